@@ -4,8 +4,32 @@ import examplePlugin from "./plugins/example.plugin";
 import databasePlugin from "./plugins/database.plugin";
 import croServicePlugin from "./plugins/cro.service.plugin";
 import authPlugin from "./plugins/auth.plugin";
+import analysisEventsPlugin from "./plugins/analysis-events.plugin";
+import artifactStorePlugin from "./plugins/artifact-store.plugin";
+import usagePlugin from "./plugins/usage.plugin";
+import promptTemplatePlugin from "./plugins/prompt-template.plugin";
+import analysisComparisonPlugin from "./plugins/analysis-comparison.plugin";
+import jobQueuePlugin from "./plugins/job-queue.plugin";
+import schedulerPlugin from "./plugins/scheduler.plugin";
+import webhookPlugin from "./plugins/webhook.plugin";
+import batchPlugin from "./plugins/batch.plugin";
+import authorizationPlugin from "./plugins/authorization.plugin";
+import organizationPlugin from "./plugins/organization.plugin";
+import mailerPlugin from "./plugins/mailer.plugin";
+import apiKeyPlugin from "./plugins/api-key.plugin";
+import rateLimitPlugin from "./plugins/rate-limit.plugin";
+import accountPlugin from "./plugins/account.plugin";
+import auditPlugin from "./plugins/audit.plugin";
 import croRoutes from "./routes/cro.route";
 import authRoutes from "./routes/auth.route";
+import promptTemplateRoutes from "./routes/prompt-template.route";
+import scheduleRoutes from "./routes/schedule.route";
+import webhookRoutes from "./routes/webhook.route";
+import batchRoutes from "./routes/batch.route";
+import projectRoutes from "./routes/project.route";
+import organizationRoutes from "./routes/organization.route";
+import apiKeyRoutes from "./routes/api-key.route";
+import adminRoutes from "./routes/admin.route";
 
 export function buildApp(): FastifyInstance {
   const app = Fastify({
@@ -34,18 +58,44 @@ export function buildApp(): FastifyInstance {
     origin: ["http://localhost:3001", "http://127.0.0.1:3001"],
     credentials: true,
     methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    allowedHeaders: ["Content-Type", "Authorization", "X-API-Key"],
+    // Lets browser clients back off when they are rate limited
+    exposedHeaders: ["Retry-After", "X-RateLimit-Limit", "X-RateLimit-Remaining", "X-RateLimit-Reset"],
   });
 
   // Register plugins
   app.register(examplePlugin);
   app.register(databasePlugin);
+  app.register(rateLimitPlugin);
+  app.register(apiKeyPlugin);
   app.register(authPlugin);
+  app.register(mailerPlugin);
+  app.register(accountPlugin);
+  app.register(authorizationPlugin);
+  app.register(organizationPlugin);
   app.register(croServicePlugin);
+  app.register(analysisEventsPlugin);
+  app.register(auditPlugin);
+  app.register(artifactStorePlugin);
+  app.register(usagePlugin);
+  app.register(promptTemplatePlugin);
+  app.register(analysisComparisonPlugin);
+  app.register(jobQueuePlugin);
+  app.register(webhookPlugin);
+  app.register(schedulerPlugin);
+  app.register(batchPlugin);
 
   // Register routes
   app.register(authRoutes, { prefix: "/api/auth" });
   app.register(croRoutes, { prefix: "/api/cro" });
+  app.register(promptTemplateRoutes, { prefix: "/api/prompt-templates" });
+  app.register(scheduleRoutes, { prefix: "/api/schedules" });
+  app.register(webhookRoutes, { prefix: "/api/webhooks" });
+  app.register(batchRoutes, { prefix: "/api/batches" });
+  app.register(projectRoutes, { prefix: "/api/projects" });
+  app.register(organizationRoutes, { prefix: "/api/organizations" });
+  app.register(apiKeyRoutes, { prefix: "/api/api-keys" });
+  app.register(adminRoutes, { prefix: "/api/admin" });
 
   app.get("/", async (request, reply) => {
     return { message: "Hello Fastify + TypeScript!" };
@@ -0,0 +1,12 @@
+export interface ApiKeyConfig {
+  // Requests per minute for keys created without their own limit
+  defaultRateLimitPerMinute: number;
+  maxKeysPerUser: number;
+}
+
+export const getApiKeyConfig = (): ApiKeyConfig => {
+  return {
+    defaultRateLimitPerMinute: parseInt(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || '60'),
+    maxKeysPerUser: parseInt(process.env.API_KEY_MAX_PER_USER || '20'),
+  };
+};
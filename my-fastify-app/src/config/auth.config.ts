@@ -0,0 +1,27 @@
+export interface AuthConfig {
+  jwtSecret: string;
+  // Lifetime of access tokens, in jsonwebtoken notation (e.g. 15m, 1h)
+  accessTokenExpiresIn: string;
+  // A session ends when its refresh token is not used for this long
+  refreshTokenTtlDays: number;
+  emailVerificationTtlHours: number;
+  passwordResetTtlMinutes: number;
+  // Unverified accounts may only read and manage their account
+  requireEmailVerification: boolean;
+  // Consecutive failed logins that lock an account, and for how long
+  maxFailedLogins: number;
+  lockoutMinutes: number;
+}
+
+export const getAuthConfig = (): AuthConfig => {
+  return {
+    jwtSecret: String(process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production'),
+    accessTokenExpiresIn: process.env.JWT_EXPIRES_IN || '15m',
+    refreshTokenTtlDays: parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30'),
+    emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48'),
+    passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60'),
+    requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION !== 'false',
+    maxFailedLogins: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5'),
+    lockoutMinutes: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15'),
+  };
+};
@@ -0,0 +1,21 @@
+export interface BatchConfig {
+  maxUrls: number;
+  defaultConcurrency: number;
+  maxConcurrency: number;
+  maxCrawlDepth: number;
+  // Per request made while reading sitemaps or crawling
+  discoveryTimeoutMs: number;
+  // Lets sitemaps and crawls reach localhost and private networks (development only)
+  allowPrivateUrls: boolean;
+}
+
+export const getBatchConfig = (): BatchConfig => {
+  return {
+    maxUrls: parseInt(process.env.BATCH_MAX_URLS || '100'),
+    defaultConcurrency: parseInt(process.env.BATCH_DEFAULT_CONCURRENCY || '2'),
+    maxConcurrency: parseInt(process.env.BATCH_MAX_CONCURRENCY || '5'),
+    maxCrawlDepth: parseInt(process.env.BATCH_MAX_CRAWL_DEPTH || '3'),
+    discoveryTimeoutMs: parseInt(process.env.BATCH_DISCOVERY_TIMEOUT_MS || '15000'),
+    allowPrivateUrls: process.env.BATCH_ALLOW_PRIVATE_URLS === 'true',
+  };
+};
@@ -0,0 +1,51 @@
+import { devices } from 'playwright';
+import { DeviceKind } from '../../types/cro.types';
+
+export interface DeviceProfile {
+  id: string;
+  label: string;
+  kind: DeviceKind;
+  userAgent: string;
+  viewport: { width: number; height: number };
+  deviceScaleFactor: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+}
+
+export const DEVICE_PROFILES: Record<string, DeviceProfile> = {
+  desktop: {
+    id: 'desktop',
+    label: 'Desktop 1440',
+    kind: 'desktop',
+    userAgent:
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36',
+    viewport: { width: 1440, height: 900 },
+    deviceScaleFactor: 1,
+    isMobile: false,
+    hasTouch: false,
+  },
+  tablet: {
+    id: 'tablet',
+    label: 'iPad',
+    kind: 'tablet',
+    userAgent: devices['iPad (gen 7)'].userAgent,
+    viewport: devices['iPad (gen 7)'].viewport,
+    deviceScaleFactor: devices['iPad (gen 7)'].deviceScaleFactor,
+    isMobile: true,
+    hasTouch: true,
+  },
+  mobile: {
+    id: 'mobile',
+    label: 'iPhone 13',
+    kind: 'mobile',
+    userAgent: devices['iPhone 13'].userAgent,
+    viewport: devices['iPhone 13'].viewport,
+    deviceScaleFactor: devices['iPhone 13'].deviceScaleFactor,
+    isMobile: true,
+    hasTouch: true,
+  },
+};
+
+export const DEFAULT_DEVICES = ['desktop'];
+
+export const getDeviceProfile = (id: string): DeviceProfile | undefined => DEVICE_PROFILES[id];
@@ -0,0 +1,54 @@
+export interface LLMConfig {
+  provider: 'openai' | 'openai-compatible' | 'mock';
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  temperature: number;
+  maxOutputTokens: number;
+  maxPromptTokens: number;
+  maxChunks: number;
+  maxRepairAttempts: number;
+  jsonMode: boolean;
+  fixturesDir?: string;
+}
+
+export const getLLMConfig = (): LLMConfig => {
+  const provider = process.env.LLM_PROVIDER || 'openai';
+
+  const shared = {
+    temperature: parseFloat(process.env.LLM_TEMPERATURE || '0.7'),
+    maxOutputTokens: parseInt(process.env.LLM_MAX_OUTPUT_TOKENS || '4096'),
+    maxPromptTokens: parseInt(process.env.LLM_MAX_PROMPT_TOKENS || '24000'),
+    maxChunks: parseInt(process.env.LLM_MAX_CHUNKS || '6'),
+    maxRepairAttempts: parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '3'),
+  };
+
+  if (provider === 'mock') {
+    return {
+      provider: 'mock',
+      model: process.env.LLM_MODEL || 'mock-cro-analyst',
+      jsonMode: true,
+      fixturesDir: process.env.LLM_FIXTURES_DIR || './fixtures/llm',
+      ...shared,
+    };
+  }
+
+  if (provider === 'openai-compatible') {
+    return {
+      provider: 'openai-compatible',
+      model: process.env.LLM_MODEL || 'llama3.1',
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+      baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+      jsonMode: process.env.LLM_JSON_MODE === 'true',
+      ...shared,
+    };
+  }
+
+  return {
+    provider: 'openai',
+    model: process.env.LLM_MODEL || 'gpt-4-turbo',
+    apiKey: process.env.OPENAI_API_KEY,
+    jsonMode: process.env.LLM_JSON_MODE !== 'false',
+    ...shared,
+  };
+};
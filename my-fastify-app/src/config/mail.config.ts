@@ -0,0 +1,54 @@
+export interface MailConfig {
+  // smtp delivers mail; file and console are for local development
+  driver: 'smtp' | 'file' | 'console';
+  from: string;
+  // Base URL of the web app that links in emails point to; see the routes it must serve in the README
+  appUrl: string;
+  fileDir?: string;
+  smtp?: {
+    host: string;
+    port: number;
+    // TLS from the start (port 465); otherwise STARTTLS is used when offered
+    secure: boolean;
+    user?: string;
+    password?: string;
+  };
+}
+
+export const getMailConfig = (): MailConfig => {
+  const driver = process.env.MAIL_DRIVER || 'console';
+  const from = process.env.MAIL_FROM || 'CRO Analyzer <no-reply@localhost>';
+
+  // Mail that leaves the console must not link to a guessed host
+  if (driver !== 'console' && !process.env.APP_URL) {
+    throw new Error(`APP_URL is required when MAIL_DRIVER is ${driver}`);
+  }
+  const appUrl = (process.env.APP_URL || 'http://localhost:3000').replace(/\/+$/, '');
+
+  if (driver === 'smtp') {
+    const port = parseInt(process.env.SMTP_PORT || '587');
+    return {
+      driver: 'smtp',
+      from,
+      appUrl,
+      smtp: {
+        host: process.env.SMTP_HOST || 'localhost',
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+      },
+    };
+  }
+
+  if (driver === 'file') {
+    return {
+      driver: 'file',
+      from,
+      appUrl,
+      fileDir: process.env.MAIL_FILE_DIR || './mail',
+    };
+  }
+
+  return { driver: 'console', from, appUrl };
+};
@@ -0,0 +1,10 @@
+export interface OrganizationConfig {
+  // How long an invitation token can be accepted
+  invitationTtlHours: number;
+}
+
+export const getOrganizationConfig = (): OrganizationConfig => {
+  return {
+    invitationTtlHours: parseInt(process.env.ORGANIZATION_INVITATION_TTL_HOURS || '168'),
+  };
+};
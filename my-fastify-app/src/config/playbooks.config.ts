@@ -0,0 +1,78 @@
+export interface PlaybookDefinition {
+  playbook: string;
+  name: string;
+  description: string;
+  body: string;
+}
+
+export const DEFAULT_PLAYBOOK = 'general';
+
+// Variables a template may use; {{schema}} is required so the JSON contract is never lost
+export const PROMPT_TEMPLATE_VARIABLES = ['url', 'schema', 'device_comparison', 'playbook'] as const;
+export const REQUIRED_PROMPT_TEMPLATE_VARIABLES = ['schema'];
+
+const RESPONSE_FORMAT = `Score the page from 0 to 100 overall and for each category, and list concrete findings.
+Respond with a single JSON object and nothing else, using exactly this shape:
+{{schema}}
+
+Page URL: {{url}}
+{{device_comparison}}`;
+
+/**
+ * Built-in playbooks, seeded as version 1 when a playbook has no templates yet.
+ * Later versions are created through the prompt template API.
+ */
+export const DEFAULT_PLAYBOOKS: PlaybookDefinition[] = [
+  {
+    playbook: DEFAULT_PLAYBOOK,
+    name: 'General landing page',
+    description: 'General-purpose CRO review for any landing page.',
+    body: `
+Act as a senior CRO (Conversion Rate Optimization) expert with over 20 years of experience optimizing high-converting landing pages.
+...
+${RESPONSE_FORMAT}`,
+  },
+  {
+    playbook: 'ecommerce_pdp',
+    name: 'E-commerce product page',
+    description: 'Product detail pages: imagery, price, add-to-cart, shipping and reviews.',
+    body: `
+Act as a senior CRO (Conversion Rate Optimization) expert specialised in e-commerce product detail pages.
+Pay particular attention to:
+- product imagery, gallery and zoom
+- price, discounts and total cost clarity (shipping, taxes)
+- prominence of the add-to-cart button, including on mobile
+- variant selectors (size, colour) and stock or delivery information
+- shipping, returns and payment options close to the buy button
+- ratings and reviews near the product title
+${RESPONSE_FORMAT}`,
+  },
+  {
+    playbook: 'saas_signup',
+    name: 'SaaS signup',
+    description: 'SaaS home and pricing pages that drive trial or account signups.',
+    body: `
+Act as a senior CRO (Conversion Rate Optimization) expert specialised in B2B and B2C SaaS acquisition funnels.
+Pay particular attention to:
+- how quickly the value proposition explains what the product does and for whom
+- the primary signup or free-trial CTA and the friction behind it (credit card, form length)
+- pricing clarity and plan comparison
+- social proof: customer logos, case studies, review-site ratings, security and compliance badges
+- product visuals that show the product in use
+${RESPONSE_FORMAT}`,
+  },
+  {
+    playbook: 'lead_gen_form',
+    name: 'Lead generation form',
+    description: 'Pages whose goal is a form submission (quote, demo, contact).',
+    body: `
+Act as a senior CRO (Conversion Rate Optimization) expert specialised in lead generation pages.
+Pay particular attention to:
+- the number of form fields and which ones are required
+- field labels, inline validation and error handling
+- the offer and what happens after submitting
+- privacy reassurance next to the form
+- whether the form is visible without scrolling on every device
+${RESPONSE_FORMAT}`,
+  },
+];
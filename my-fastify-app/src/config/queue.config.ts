@@ -0,0 +1,18 @@
+export interface QueueConfig {
+  concurrency: number;
+  pollIntervalMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  // A processing job whose worker has not renewed it for this long is given to another worker
+  leaseMs: number;
+}
+
+export const getQueueConfig = (): QueueConfig => {
+  return {
+    concurrency: parseInt(process.env.QUEUE_CONCURRENCY || '2'),
+    pollIntervalMs: parseInt(process.env.QUEUE_POLL_INTERVAL_MS || '2000'),
+    maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '3'),
+    retryBaseDelayMs: parseInt(process.env.QUEUE_RETRY_BASE_DELAY_MS || '30000'),
+    leaseMs: parseInt(process.env.QUEUE_LEASE_MS || '300000'),
+  };
+};
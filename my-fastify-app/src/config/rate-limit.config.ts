@@ -0,0 +1,60 @@
+export interface RateLimitRule {
+  // Requests allowed in a burst
+  capacity: number;
+  // Requests regained per minute
+  refillPerMinute: number;
+  // Count per client IP, or per signed-in user (falling back to the IP)
+  by: 'ip' | 'user';
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  // database shares the buckets between instances
+  store: 'memory' | 'database';
+  // Keyed by method and route pattern; '*' applies to routes without their own rule
+  rules: Record<string, RateLimitRule>;
+}
+
+const DEFAULT_RULES: Record<string, RateLimitRule> = {
+  '*': { capacity: 300, refillPerMinute: 300, by: 'user' },
+  'POST /api/auth/login': { capacity: 10, refillPerMinute: 5, by: 'ip' },
+  'POST /api/auth/register': { capacity: 5, refillPerMinute: 1, by: 'ip' },
+  'POST /api/auth/refresh': { capacity: 30, refillPerMinute: 30, by: 'ip' },
+  'POST /api/auth/forgot-password': { capacity: 5, refillPerMinute: 1, by: 'ip' },
+  'POST /api/auth/reset-password': { capacity: 10, refillPerMinute: 5, by: 'ip' },
+  'POST /api/auth/verify-email': { capacity: 10, refillPerMinute: 5, by: 'ip' },
+  // Each of these starts a browser and paid LLM calls
+  'POST /api/cro/analyze': { capacity: 10, refillPerMinute: 2, by: 'user' },
+  'POST /api/cro/analysis/:id/rerun': { capacity: 10, refillPerMinute: 2, by: 'user' },
+  'POST /api/batches': { capacity: 3, refillPerMinute: 0.2, by: 'user' },
+};
+
+const parseRules = (value: string | undefined): Record<string, RateLimitRule | null> => {
+  if (!value) return {};
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.warn('⚠️ Ignoring invalid RATE_LIMIT_RULES:', (error as Error).message);
+    return {};
+  }
+};
+
+export const getRateLimitConfig = (): RateLimitConfig => {
+  // RATE_LIMIT_RULES='{"POST /api/cro/analyze":{"capacity":5,"refillPerMinute":1,"by":"user"}}'
+  // adds or overrides rules; null removes one
+  const rules: Record<string, RateLimitRule> = { ...DEFAULT_RULES };
+  for (const [route, rule] of Object.entries(parseRules(process.env.RATE_LIMIT_RULES))) {
+    if (rule) {
+      rules[route] = rule;
+    } else {
+      delete rules[route];
+    }
+  }
+
+  return {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    store: process.env.RATE_LIMIT_STORE === 'database' ? 'database' : 'memory',
+    rules,
+  };
+};
@@ -0,0 +1,18 @@
+export interface SchedulerConfig {
+  enabled: boolean;
+  pollIntervalMs: number;
+  // Shortest allowed gap between two runs of a schedule; every run costs an analysis
+  minIntervalMinutes: number;
+  defaultScoreDropThreshold: number;
+  defaultContentChangeThreshold: number;
+}
+
+export const getSchedulerConfig = (): SchedulerConfig => {
+  return {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '60000'),
+    minIntervalMinutes: parseInt(process.env.SCHEDULER_MIN_INTERVAL_MINUTES || '60'),
+    defaultScoreDropThreshold: parseFloat(process.env.SCHEDULE_SCORE_DROP_THRESHOLD || '5'),
+    defaultContentChangeThreshold: parseFloat(process.env.SCHEDULE_CONTENT_CHANGE_THRESHOLD || '0.2'),
+  };
+};
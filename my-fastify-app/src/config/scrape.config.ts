@@ -0,0 +1,89 @@
+import { ScrapeOptions } from '../../types/cro.types';
+
+export type ResolvedScrapeOptions = ScrapeOptions &
+  Required<Pick<ScrapeOptions, 'locale' | 'waitStrategy' | 'extraHeaders' | 'cookies' | 'maxTimeMs' | 'dismissConsent'>>;
+
+export const getScrapeDefaults = (): ResolvedScrapeOptions => {
+  return {
+    locale: process.env.SCRAPE_LOCALE || 'pt-PT',
+    timezoneId: process.env.SCRAPE_TIMEZONE || undefined,
+    waitStrategy: { type: 'delay', delayMs: parseInt(process.env.SCRAPE_WAIT_MS || '7000') },
+    extraHeaders: {},
+    cookies: [],
+    maxTimeMs: parseInt(process.env.SCRAPE_MAX_TIME_MS || '90000'),
+    dismissConsent: process.env.SCRAPE_DISMISS_CONSENT !== 'false',
+  };
+};
+
+/**
+ * Layers scrape options from least to most specific (system defaults, user
+ * defaults, request). Headers are merged key by key; everything else is
+ * replaced by the more specific layer.
+ */
+export const mergeScrapeOptions = <T extends ScrapeOptions>(
+  base: T,
+  ...layers: Array<ScrapeOptions | undefined>
+): T => {
+  return layers.reduce<T>((merged, layer) => {
+    if (!layer) return merged;
+
+    const defined = Object.fromEntries(
+      Object.entries(layer).filter(([, value]) => value !== undefined)
+    ) as ScrapeOptions;
+
+    return {
+      ...merged,
+      ...defined,
+      extraHeaders: { ...merged.extraHeaders, ...(layer.extraHeaders || {}) },
+    };
+  }, base);
+};
+
+// Shown in place of basic auth passwords, cookie values and header values
+export const REDACTED_SECRET = '***';
+
+// Options as returned by the API, with every secret value masked
+export const redactScrapeOptions = (options: ScrapeOptions): ScrapeOptions => ({
+  ...options,
+  ...(options.basicAuth && { basicAuth: { username: options.basicAuth.username, password: REDACTED_SECRET } }),
+  ...(options.cookies && { cookies: options.cookies.map((cookie) => ({ ...cookie, value: REDACTED_SECRET })) }),
+  ...(options.extraHeaders && {
+    extraHeaders: Object.fromEntries(Object.keys(options.extraHeaders).map((name) => [name, REDACTED_SECRET])),
+  }),
+});
+
+/**
+ * Puts the stored secrets back in place of masked values, so options read
+ * from the API can be saved again without wiping the credentials.
+ */
+export const restoreScrapeSecrets = (options: ScrapeOptions, stored: ScrapeOptions): ScrapeOptions => {
+  const restored: ScrapeOptions = { ...options };
+
+  if (options.basicAuth?.password === REDACTED_SECRET && stored.basicAuth?.username === options.basicAuth.username) {
+    restored.basicAuth = stored.basicAuth;
+  }
+
+  if (options.cookies) {
+    restored.cookies = options.cookies.map((cookie) => {
+      const previous = stored.cookies?.find((c) => c.name === cookie.name && c.domain === cookie.domain);
+      return cookie.value === REDACTED_SECRET && previous ? { ...cookie, value: previous.value } : cookie;
+    });
+  }
+
+  if (options.extraHeaders) {
+    restored.extraHeaders = Object.fromEntries(
+      Object.entries(options.extraHeaders).map(([name, value]) => [
+        name,
+        value === REDACTED_SECRET && stored.extraHeaders?.[name] !== undefined ? stored.extraHeaders[name] : value,
+      ])
+    );
+  }
+
+  return restored;
+};
+
+// Options without credentials, kept once a job no longer needs them
+export const withoutScrapeSecrets = (options: ScrapeOptions): ScrapeOptions => {
+  const { basicAuth, cookies, extraHeaders, ...rest } = options;
+  return rest;
+};
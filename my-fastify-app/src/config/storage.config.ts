@@ -0,0 +1,36 @@
+export interface StorageConfig {
+  driver: 'local' | 's3';
+  localDir?: string;
+  s3?: {
+    bucket: string;
+    region: string;
+    endpoint?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+    forcePathStyle: boolean;
+  };
+}
+
+export const getStorageConfig = (): StorageConfig => {
+  const driver = process.env.STORAGE_DRIVER || 'local';
+
+  if (driver === 's3') {
+    return {
+      driver: 's3',
+      s3: {
+        bucket: process.env.S3_BUCKET || 'cro-analyzer',
+        region: process.env.S3_REGION || 'us-east-1',
+        endpoint: process.env.S3_ENDPOINT,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        // MinIO and most S3 stand-ins only support path-style addressing
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      },
+    };
+  }
+
+  return {
+    driver: 'local',
+    localDir: process.env.STORAGE_LOCAL_DIR || './artifacts',
+  };
+};
@@ -0,0 +1,69 @@
+export interface ModelPrice {
+  // USD per million tokens
+  prompt: number;
+  completion: number;
+}
+
+export interface UsageQuota {
+  // 0 means unlimited
+  monthlyAnalyses: number;
+  monthlyTokens: number;
+  monthlyCostUsd: number;
+}
+
+export interface UsageConfig {
+  prices: Record<string, ModelPrice>;
+  defaultPrice: ModelPrice;
+  quota: UsageQuota;
+}
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4-turbo': { prompt: 10, completion: 30 },
+  'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+  'gpt-4o': { prompt: 2.5, completion: 10 },
+  'gpt-4.1-mini': { prompt: 0.4, completion: 1.6 },
+  'gpt-4.1': { prompt: 2, completion: 8 },
+  'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'mock-cro-analyst': { prompt: 0, completion: 0 },
+};
+
+const parsePrices = (value: string | undefined): Record<string, ModelPrice> => {
+  if (!value) return {};
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.warn('⚠️ Ignoring invalid LLM_PRICES:', (error as Error).message);
+    return {};
+  }
+};
+
+export const getUsageConfig = (): UsageConfig => {
+  return {
+    // LLM_PRICES='{"llama3.1":{"prompt":0,"completion":0}}' adds or overrides models
+    prices: { ...DEFAULT_PRICES, ...parsePrices(process.env.LLM_PRICES) },
+    defaultPrice: {
+      prompt: parseFloat(process.env.LLM_DEFAULT_PROMPT_PRICE || '0'),
+      completion: parseFloat(process.env.LLM_DEFAULT_COMPLETION_PRICE || '0'),
+    },
+    quota: {
+      monthlyAnalyses: parseInt(process.env.QUOTA_MONTHLY_ANALYSES || '100'),
+      monthlyTokens: parseInt(process.env.QUOTA_MONTHLY_TOKENS || '5000000'),
+      monthlyCostUsd: parseFloat(process.env.QUOTA_MONTHLY_COST_USD || '0'),
+    },
+  };
+};
+
+/**
+ * Looks up the price of a model, falling back to the longest configured
+ * prefix so dated snapshots ("gpt-4o-2024-08-06") use their family's price.
+ */
+export const getModelPrice = (config: UsageConfig, model: string): ModelPrice => {
+  if (config.prices[model]) return config.prices[model];
+
+  const prefix = Object.keys(config.prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? config.prices[prefix] : config.defaultPrice;
+};
@@ -0,0 +1,18 @@
+export interface WebhookConfig {
+  pollIntervalMs: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  timeoutMs: number;
+  // Lets webhooks target localhost and private networks (development only)
+  allowPrivateUrls: boolean;
+}
+
+export const getWebhookConfig = (): WebhookConfig => {
+  return {
+    pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '5000'),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6'),
+    retryBaseDelayMs: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '30000'),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+    allowPrivateUrls: process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true',
+  };
+};
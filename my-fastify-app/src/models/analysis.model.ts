@@ -1,16 +1,49 @@
+import { CROCategory, DeviceIssue, DeviceLayoutMetrics, PageModel, PromptStats } from '../../types/cro.types';
+
 export interface AnalysisRecord {
   id: string;
   userId: string;
   url: string;
+  // Groups analyses of the same page, see normalizeUrl
+  normalizedUrl: string;
   pageTitle?: string;
   analysis: string;
+  overallScore?: number;
+  categoryScores?: Record<CROCategory, number>;
+  pageModel?: PageModel;
   pdfPath?: string;
+  batchId?: string;
+  projectId?: string;
+  // Set when the analysis belongs to an organization rather than only its creator
+  organizationId?: string;
   metadata: {
     wordCount: number;
     analysisTokens: number;
+    costUsd?: number;
     pageSize: number;
     loadTime?: number;
     screenshotPath?: string;
+    htmlPath?: string;
+    textPath?: string;
+    pdfGenerated?: boolean;
+    devices?: Array<{
+      device: string;
+      screenshotPath?: string;
+      htmlPath?: string;
+      textPath?: string;
+      layout: DeviceLayoutMetrics;
+    }>;
+    deviceIssues?: DeviceIssue[];
+    promptStats?: PromptStats;
+    promptTemplate?: {
+      id: string;
+      playbook: string;
+      version: number;
+    };
+    // Set on analyses created through a re-run
+    rerunOf?: string;
+    // Set on analyses started by a schedule
+    scheduleId?: string;
   };
   status: 'pending' | 'processing' | 'completed' | 'failed';
   errorMessage?: string;
@@ -21,22 +54,36 @@ export interface AnalysisRecord {
 export interface CreateAnalysisRequest {
   url: string;
   pageTitle?: string;
+  batchId?: string;
+  projectId?: string;
+  organizationId?: string;
   metadata?: Partial<AnalysisRecord['metadata']>;
   status?: AnalysisRecord['status'];
 }
 
 export interface UpdateAnalysisRequest {
+  pageTitle?: string;
   analysis?: string;
+  overallScore?: number;
+  categoryScores?: Record<CROCategory, number>;
+  pageModel?: PageModel;
   pdfPath?: string;
   metadata?: Partial<AnalysisRecord['metadata']>;
   status?: AnalysisRecord['status'];
-  errorMessage?: string;
+  errorMessage?: string | null;
 }
 
 export interface AnalysisFilters {
   userId?: string;
   status?: AnalysisRecord['status'];
+  // Substring of the URL
   url?: string;
+  // Exact page, see normalizeUrl
+  normalizedUrl?: string;
+  batchId?: string;
+  projectId?: string;
+  // null selects personal analyses only
+  organizationId?: string | null;
   dateFrom?: Date;
   dateTo?: Date;
   limit?: number;
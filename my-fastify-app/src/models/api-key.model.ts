@@ -0,0 +1,24 @@
+// read: GET requests; analyze: also start analyses and batches; write: also change other records;
+// admin: everything the user can do
+export type ApiKeyScope = 'read' | 'analyze' | 'write' | 'admin';
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  // First characters of the key, to tell keys apart; the key itself is only stored hashed
+  prefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  expiresAt?: Date;
+}
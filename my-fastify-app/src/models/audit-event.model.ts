@@ -0,0 +1,37 @@
+// anonymous: a request without a signed-in user, e.g. a failed login; system: background work
+export type AuditActorType = 'user' | 'api_key' | 'anonymous' | 'system';
+
+// Old and new value of every field an action changed
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEvent {
+  id: string;
+  // e.g. auth.login, user.updated, analysis.deleted
+  action: string;
+  actorType: AuditActorType;
+  actorId?: string;
+  apiKeyId?: string;
+  // The admin acting as actorId, see POST /api/admin/users/:id/impersonate
+  impersonatorId?: string;
+  targetType?: string;
+  targetId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  changes?: AuditChanges;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export type CreateAuditEventRequest = Omit<AuditEvent, 'id' | 'createdAt'>;
+
+export interface AuditEventFilters {
+  // Exact action, or a prefix ending in `.*` such as `auth.*`
+  action?: string;
+  actorId?: string;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
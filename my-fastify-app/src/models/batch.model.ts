@@ -0,0 +1,65 @@
+import { CROCategory, CROFindingSeverity, ScrapeOptions } from '../../types/cro.types';
+
+export type BatchSource = 'urls' | 'sitemap' | 'crawl';
+
+export type BatchStatus = 'discovering' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchOptions {
+  devices: string[];
+  scrapeOptions: ScrapeOptions;
+  playbook: string;
+  // Pinned when the batch is created so every page is analysed with the same prompt
+  promptTemplateId: string;
+  // Maximum number of pages analysed at the same time
+  concurrency: number;
+  maxPages: number;
+  crawlDepth?: number;
+}
+
+export interface Batch {
+  id: string;
+  userId: string;
+  name?: string;
+  source: BatchSource;
+  // Sitemap or crawl start URL
+  sourceUrl?: string;
+  options: BatchOptions;
+  status: BatchStatus;
+  total: number;
+  errorMessage?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export interface CreateBatchRequest {
+  name?: string;
+  source: BatchSource;
+  sourceUrl?: string;
+  options: BatchOptions;
+  status: BatchStatus;
+}
+
+export interface UpdateBatchRequest {
+  status?: BatchStatus;
+  total?: number;
+  errorMessage?: string | null;
+  completedAt?: Date;
+}
+
+export interface BatchProgress {
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+}
+
+export interface BatchSummary extends BatchProgress {
+  averageScore: number | null;
+  categoryAverages: Partial<Record<CROCategory, number>>;
+  lowestScoring: Array<{ analysisId: string; url: string; overallScore: number }>;
+  severityCounts: Record<CROFindingSeverity, number>;
+  // Issues found on several pages, most widespread first
+  commonFindings: Array<{ category: CROCategory; title: string; severity: CROFindingSeverity; pages: number }>;
+}
@@ -0,0 +1,13 @@
+import { CROCategory, CROFinding, CROFindingSeverity } from '../../types/cro.types';
+
+export interface FindingRecord extends CROFinding {
+  id: string;
+  analysisId: string;
+  position: number;
+  createdAt: Date;
+}
+
+export interface FindingFilters {
+  category?: CROCategory;
+  severity?: CROFindingSeverity;
+}
@@ -0,0 +1,35 @@
+import { ScrapeOptions } from '../../types/cro.types';
+
+export interface AnalysisJobPayload {
+  url: string;
+  devices?: string[];
+  scrapeOptions?: ScrapeOptions;
+  // Pinned at enqueue time so retries use the same template version
+  promptTemplateId?: string;
+  // Refuse pages on localhost or private networks, including after redirects
+  blockPrivateUrls?: boolean;
+}
+
+export interface AnalysisJob {
+  id: string;
+  analysisId: string;
+  userId: string;
+  payload: AnalysisJobPayload;
+  status: 'pending' | 'processing' | 'completed' | 'failed';
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt?: Date;
+  lockedBy?: string;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateJobRequest {
+  analysisId: string;
+  userId: string;
+  payload: AnalysisJobPayload;
+  maxAttempts: number;
+  runAt?: Date;
+}
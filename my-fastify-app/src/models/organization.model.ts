@@ -0,0 +1,47 @@
+export type OrganizationRole = 'owner' | 'editor' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// An organization as seen by one of its members
+export interface OrganizationMembership extends Organization {
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  organizationId: string;
+  userId: string;
+  role: OrganizationRole;
+  email: string;
+  firstName: string;
+  lastName: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  organizationId: string;
+  email: string;
+  role: OrganizationRole;
+  invitedBy: string;
+  expiresAt: Date;
+  acceptedAt?: Date;
+  acceptedBy?: string;
+  createdAt: Date;
+}
+
+export interface CreateOrganizationInvitationRequest {
+  organizationId: string;
+  email: string;
+  role: OrganizationRole;
+  // Only the hash is stored; the token itself is handed out once
+  tokenHash: string;
+  invitedBy: string;
+  expiresAt: Date;
+}
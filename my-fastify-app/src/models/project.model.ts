@@ -0,0 +1,59 @@
+import { ScrapeOptions } from '../../types/cro.types';
+
+export interface Project {
+  id: string;
+  // Creator of the project
+  userId: string;
+  // Set when the project belongs to an organization
+  organizationId?: string;
+  name: string;
+  description?: string;
+  // Bare host names; each also covers its subdomains
+  domains: string[];
+  // Applied between the user's saved defaults and the options of a request
+  scrapeOptions: ScrapeOptions;
+  // Used when an analysis of the project does not name a playbook
+  playbook?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateProjectRequest {
+  organizationId?: string;
+  name: string;
+  description?: string;
+  domains: string[];
+  scrapeOptions?: ScrapeOptions;
+  playbook?: string;
+}
+
+export interface UpdateProjectRequest {
+  name?: string;
+  description?: string | null;
+  domains?: string[];
+  scrapeOptions?: ScrapeOptions;
+  playbook?: string | null;
+}
+
+export interface ProjectPageStats {
+  normalizedUrl: string;
+  url: string;
+  analyses: number;
+  lastAnalyzedAt: Date;
+  latestAnalysisId?: string;
+  latestScore?: number;
+}
+
+// Either the personal projects of a user or the projects of an organization
+export type ProjectOwner = { userId: string } | { organizationId: string };
+
+export interface ProjectStats {
+  total: number;
+  pending: number;
+  processing: number;
+  completed: number;
+  failed: number;
+  // Average of the latest completed score of every page
+  averageScore: number | null;
+  pages: ProjectPageStats[];
+}
@@ -0,0 +1,27 @@
+export interface PromptTemplate {
+  id: string;
+  playbook: string;
+  name: string;
+  description?: string;
+  version: number;
+  body: string;
+  variables: string[];
+  isActive: boolean;
+  createdBy?: string;
+  createdAt: Date;
+}
+
+export interface CreatePromptTemplateRequest {
+  playbook: string;
+  name: string;
+  description?: string;
+  body: string;
+  variables: string[];
+  isActive?: boolean;
+  createdBy?: string;
+}
+
+export interface PromptTemplateFilters {
+  playbook?: string;
+  isActive?: boolean;
+}
@@ -0,0 +1,15 @@
+// State of a token bucket; tokens are regained continuously
+export interface RateLimitBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the bucket is full again
+  resetAt: Date;
+  // Wait before the next request is allowed; 0 when this one was
+  retryAfterMs: number;
+}
@@ -0,0 +1,84 @@
+import { ScrapeOptions } from '../../types/cro.types';
+
+export type ScheduleFrequency = 'daily' | 'weekly' | 'cron';
+
+export interface Schedule {
+  id: string;
+  userId: string;
+  url: string;
+  frequency: ScheduleFrequency;
+  // Daily and weekly schedules are stored as the equivalent cron expression
+  cronExpression: string;
+  timezone: string;
+  devices: string[];
+  scrapeOptions: ScrapeOptions;
+  playbook: string;
+  // Alert when the overall score drops by at least this many points (0 disables)
+  scoreDropThreshold: number;
+  // Alert when at least this share (0-1) of the page text changed (0 disables)
+  contentChangeThreshold: number;
+  enabled: boolean;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastAnalysisId?: string;
+  // Baseline for change alerts: the latest run that completed
+  lastCompletedAnalysisId?: string;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateScheduleRequest {
+  url: string;
+  frequency: ScheduleFrequency;
+  cronExpression: string;
+  timezone: string;
+  devices: string[];
+  scrapeOptions: ScrapeOptions;
+  playbook: string;
+  scoreDropThreshold: number;
+  contentChangeThreshold: number;
+  enabled: boolean;
+  nextRunAt: Date;
+}
+
+export interface UpdateScheduleRequest {
+  frequency?: ScheduleFrequency;
+  cronExpression?: string;
+  timezone?: string;
+  devices?: string[];
+  scrapeOptions?: ScrapeOptions;
+  playbook?: string;
+  scoreDropThreshold?: number;
+  contentChangeThreshold?: number;
+  enabled?: boolean;
+  nextRunAt?: Date;
+  lastRunAt?: Date;
+  lastAnalysisId?: string;
+  lastCompletedAnalysisId?: string;
+  lastError?: string | null;
+}
+
+export type ScheduleAlertType = 'score_drop' | 'content_change';
+
+export interface ScheduleAlert {
+  id: string;
+  scheduleId: string;
+  userId: string;
+  type: ScheduleAlertType;
+  message: string;
+  analysisId?: string;
+  baseAnalysisId?: string;
+  details: Record<string, any>;
+  createdAt: Date;
+}
+
+export interface CreateScheduleAlertRequest {
+  scheduleId: string;
+  userId: string;
+  type: ScheduleAlertType;
+  message: string;
+  analysisId?: string;
+  baseAnalysisId?: string;
+  details?: Record<string, any>;
+}
@@ -0,0 +1,41 @@
+export type SessionRevocationReason = 'logout' | 'logout_all' | 'password_changed' | 'password_reset' | 'password_reset_forced' | 'deactivated' | 'refresh_token_reuse';
+
+// A signed-in device; its refresh tokens rotate on every use
+export interface Session {
+  id: string;
+  userId: string;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  // The admin who opened the session to act as the user
+  impersonatedBy?: string;
+}
+
+// Where a sign-in or refresh came from
+export interface SessionClient {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface CreateSessionRequest extends SessionClient {
+  userId: string;
+  expiresAt: Date;
+  impersonatedBy?: string;
+}
+
+export interface RefreshToken {
+  id: string;
+  sessionId: string;
+  createdAt: Date;
+  // Set once the token has been exchanged; presenting it again revokes the session
+  usedAt?: Date;
+}
+
+export interface TokenPair {
+  token: string;
+  refreshToken: string;
+}
@@ -0,0 +1,21 @@
+import { UsageTotals } from './usage.model';
+
+export interface SystemStats {
+  users: {
+    total: number;
+    active: number;
+    admins: number;
+    verified: number;
+    // Locked out after too many failed logins
+    locked: number;
+  };
+  // Counts by status
+  analyses: Record<string, number>;
+  jobs: Record<string, number>;
+  batches: Record<string, number>;
+  organizations: number;
+  projects: number;
+  schedules: number;
+  // LLM usage of all users in the billing period
+  usage: UsageTotals & { periodStart: Date; periodEnd: Date };
+}
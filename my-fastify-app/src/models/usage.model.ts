@@ -0,0 +1,40 @@
+import { LLMCallPurpose } from '../../types/cro.types';
+
+export interface LLMUsageRecord {
+  id: string;
+  userId: string;
+  analysisId?: string;
+  provider: string;
+  model: string;
+  purpose: LLMCallPurpose;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  createdAt: Date;
+}
+
+export interface CreateUsageRequest {
+  userId: string;
+  analysisId?: string;
+  provider: string;
+  model: string;
+  purpose: LLMCallPurpose;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageByModel extends UsageTotals {
+  provider: string;
+  model: string;
+}
@@ -0,0 +1,11 @@
+export type UserTokenPurpose = 'email_verification' | 'password_reset';
+
+// A single-use token sent by email; only its hash is stored
+export interface UserToken {
+  id: string;
+  userId: string;
+  purpose: UserTokenPurpose;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
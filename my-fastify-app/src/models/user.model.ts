@@ -1,3 +1,6 @@
+import { ScrapeOptions } from '../../types/cro.types';
+import { UsageQuota } from '../config/usage.config';
+
 export interface User {
   id: string;
   email: string;
@@ -6,6 +9,13 @@ export interface User {
   lastName: string;
   role: 'admin' | 'user';
   isActive: boolean;
+  scrapeDefaults?: ScrapeOptions;
+  quotaOverrides?: Partial<UsageQuota>;
+  // Unset until the user follows the link of the verification email
+  emailVerifiedAt?: Date;
+  // Consecutive failed logins; reaching the limit locks the account until lockedUntil
+  failedLoginAttempts: number;
+  lockedUntil?: Date;
   lastLoginAt?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -33,15 +43,22 @@ export interface LoginRequest {
 
 export interface LoginResponse {
   token: string;
+  refreshToken: string;
   user: {
     id: string;
     email: string;
     firstName: string;
     lastName: string;
     role: User['role'];
+    emailVerified: boolean;
   };
 }
 
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
 export interface ChangePasswordRequest {
   currentPassword: string;
   newPassword: string;
@@ -0,0 +1,72 @@
+export type WebhookEventType = 'analysis.completed' | 'analysis.failed' | 'analysis.score_changed' | 'analysis.alert';
+
+export interface Webhook {
+  id: string;
+  userId: string;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  // Only returned when the webhook is created or its secret is rotated
+  secret?: string;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  secret: string;
+  enabled: boolean;
+}
+
+export interface UpdateWebhookRequest {
+  url?: string;
+  description?: string;
+  events?: WebhookEventType[];
+  secret?: string;
+  enabled?: boolean;
+}
+
+export interface WebhookPayload {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'sending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  responseStatus?: number;
+  // First part of the response body, for debugging the receiving end
+  responseBody?: string;
+  durationMs?: number;
+  lastError?: string;
+  deliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateWebhookDeliveryRequest {
+  webhookId: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  maxAttempts: number;
+}
+
+export interface WebhookDeliveryAttempt {
+  responseStatus?: number;
+  responseBody?: string;
+  durationMs: number;
+  error?: string;
+}
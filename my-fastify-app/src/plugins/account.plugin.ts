@@ -0,0 +1,26 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { AccountServiceImpl } from "../services/account.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    accounts: AccountServiceImpl;
+  }
+}
+
+const accountPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const accounts = new AccountServiceImpl(
+    fastify.db.getUserRepository(),
+    fastify.db.getUserTokenRepository(),
+    fastify.db.getSessionRepository(),
+    fastify.mailer
+  );
+
+  fastify.decorate("accounts", accounts);
+};
+
+export default fp(accountPlugin, {
+  name: "account-plugin",
+  dependencies: ["database-plugin", "mailer-plugin"],
+});
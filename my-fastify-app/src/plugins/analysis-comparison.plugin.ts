@@ -0,0 +1,24 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { AnalysisComparisonServiceImpl } from "../services/analysis-comparison.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    analysisComparison: AnalysisComparisonServiceImpl;
+  }
+}
+
+const analysisComparisonPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const analysisComparison = new AnalysisComparisonServiceImpl(
+    fastify.db.getFindingRepository(),
+    fastify.artifactStore
+  );
+
+  fastify.decorate("analysisComparison", analysisComparison);
+};
+
+export default fp(analysisComparisonPlugin, {
+  name: "analysis-comparison-plugin",
+  dependencies: ["database-plugin", "artifact-store-plugin"],
+});
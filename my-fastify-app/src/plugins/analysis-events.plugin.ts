@@ -0,0 +1,20 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { AnalysisEventsServiceImpl } from "../services/analysis-events.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    analysisEvents: AnalysisEventsServiceImpl;
+  }
+}
+
+const analysisEventsPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const analysisEvents = new AnalysisEventsServiceImpl();
+
+  fastify.decorate("analysisEvents", analysisEvents);
+};
+
+export default fp(analysisEventsPlugin, {
+  name: "analysis-events-plugin",
+});
@@ -0,0 +1,24 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { ApiKeyServiceImpl } from "../services/api-key.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    apiKeys: ApiKeyServiceImpl;
+  }
+}
+
+const apiKeyPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const apiKeys = new ApiKeyServiceImpl(
+    fastify.db.getApiKeyRepository(),
+    fastify.db.getUserRepository()
+  );
+
+  fastify.decorate("apiKeys", apiKeys);
+};
+
+export default fp(apiKeyPlugin, {
+  name: "api-key-plugin",
+  dependencies: ["database-plugin"],
+});
@@ -0,0 +1,22 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { getStorageConfig } from "../config/storage.config";
+import { ArtifactStore } from "../providers/storage/artifact-store";
+import { createArtifactStore } from "../providers/storage/artifact-store.factory";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    artifactStore: ArtifactStore;
+  }
+}
+
+const artifactStorePlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const artifactStore = createArtifactStore(getStorageConfig());
+
+  fastify.decorate("artifactStore", artifactStore);
+};
+
+export default fp(artifactStorePlugin, {
+  name: "artifact-store-plugin",
+});
@@ -0,0 +1,45 @@
+import { FastifyInstance, FastifyRequest } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { CreateAuditEventRequest } from "../models/audit-event.model";
+import { AuditServiceImpl } from "../services/audit.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    audit: AuditServiceImpl;
+  }
+}
+
+// Who made the request and from where, to spread into an audit event
+export const auditActor = (
+  request: FastifyRequest
+): Pick<CreateAuditEventRequest, 'actorType' | 'actorId' | 'apiKeyId' | 'impersonatorId' | 'ipAddress' | 'userAgent'> => ({
+  actorType: request.user ? (request.user.apiKeyId ? 'api_key' : 'user') : 'anonymous',
+  actorId: request.user?.userId,
+  apiKeyId: request.user?.apiKeyId,
+  impersonatorId: request.user?.impersonatorId,
+  ipAddress: request.ip,
+  userAgent: request.headers['user-agent']?.slice(0, 500),
+});
+
+const auditPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const audit = new AuditServiceImpl(
+    fastify.db.getAuditEventRepository(),
+    fastify.analysisEvents
+  );
+
+  fastify.decorate("audit", audit);
+
+  fastify.addHook("onReady", async () => {
+    audit.start();
+  });
+
+  fastify.addHook("onClose", async () => {
+    audit.stop();
+  });
+};
+
+export default fp(auditPlugin, {
+  name: "audit-plugin",
+  dependencies: ["database-plugin", "analysis-events-plugin"],
+});
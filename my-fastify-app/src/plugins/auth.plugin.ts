@@ -1,23 +1,36 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import { FastifyPluginAsync } from "fastify";
 import fp from "fastify-plugin";
 import { AuthServiceImpl } from "../services/auth.service";
-import { JWTPayload } from "../services/auth.service";
+import { AuthenticatedUser } from "../services/auth.service";
+import { API_KEY_PREFIX, apiKeyAllows, requiredApiKeyScope } from "../services/api-key.service";
+import { getAuthConfig } from "../config/auth.config";
+import { User } from "../models/user.model";
+import { sendRateLimited, setRateLimitHeaders } from "./rate-limit.plugin";
 
 declare module "fastify" {
   interface FastifyInstance {
     auth: AuthServiceImpl;
+    // Route hooks, e.g. { onRequest: fastify.requireAdmin }
+    requireRole(roles: User['role'][]): (request: FastifyRequest, reply: FastifyReply) => Promise<FastifyReply | undefined>;
+    requireAdmin(request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | undefined>;
   }
   
   interface FastifyRequest {
-    user?: JWTPayload;
+    user?: AuthenticatedUser;
   }
 }
 
 const authPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const authConfig = getAuthConfig();
+
   // Initialize auth service
-  const userRepository = fastify.db.getUserRepository();
-  const authService = new AuthServiceImpl(userRepository);
+  const authService = new AuthServiceImpl(
+    fastify.db.getUserRepository(),
+    fastify.db.getSessionRepository(),
+    fastify.db.getRefreshTokenRepository(),
+    authConfig
+  );
   
   fastify.decorate("auth", authService);
 
@@ -28,6 +41,10 @@ const authPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
       const publicRoutes = [
         '/api/auth/login',
         '/api/auth/register',
+        '/api/auth/refresh',
+        '/api/auth/forgot-password',
+        '/api/auth/reset-password',
+        '/api/auth/verify-email',
         '/health',
         '/health/db',
         '/'
@@ -37,8 +54,10 @@ const authPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
         return;
       }
 
-      // Verify JWT token
-      const token = request.headers.authorization?.replace('Bearer ', '');
+      // A JWT or an API key, as a Bearer token or in the X-API-Key header
+      const apiKeyHeader = request.headers['x-api-key'];
+      const token = (typeof apiKeyHeader === 'string' ? apiKeyHeader : undefined)
+        || request.headers.authorization?.replace('Bearer ', '');
       if (!token) {
         return reply.code(401).send({ 
           error: 'Unauthorized',
@@ -46,8 +65,47 @@ const authPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
         });
       }
 
-      const payload = await authService.verifyToken(token);
-      request.user = payload;
+      if (token.startsWith(API_KEY_PREFIX)) {
+        const authenticated = await fastify.apiKeys.authenticate(token);
+        if (!authenticated) {
+          return reply.code(401).send({
+            error: 'Unauthorized',
+            message: 'Invalid API key'
+          });
+        }
+
+        // Each key has its own bucket, refilled at the key's rate per minute
+        const { apiKey } = authenticated;
+        const limit = await fastify.rateLimits.take(`api-key|${apiKey.id}`, {
+          capacity: apiKey.rateLimitPerMinute,
+          refillPerMinute: apiKey.rateLimitPerMinute,
+        });
+        setRateLimitHeaders(reply, limit);
+        if (!limit.allowed) {
+          return sendRateLimited(reply, limit, `This API key allows ${apiKey.rateLimitPerMinute} requests per minute`);
+        }
+
+        const scope = requiredApiKeyScope(request.method, request.routeOptions.url);
+        if (!apiKeyAllows(authenticated.apiKey, scope)) {
+          return reply.code(403).send({
+            error: 'Forbidden',
+            message: `This API key lacks the ${scope} scope`
+          });
+        }
+
+        request.user = authenticated.user;
+      } else {
+        request.user = await authService.verifyToken(token);
+      }
+
+      // Unverified accounts can read and manage their account, nothing more
+      const readOnly = ['GET', 'HEAD', 'OPTIONS'].includes(request.method);
+      if (authConfig.requireEmailVerification && !request.user.emailVerified && !readOnly && !request.url.startsWith('/api/auth/')) {
+        return reply.code(403).send({
+          error: 'Email not verified',
+          message: 'Verify your email address to continue'
+        });
+      }
     } catch (error) {
       reply.code(401).send({ 
         error: 'Unauthorized',
@@ -57,8 +115,8 @@ const authPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   });
 
   // Role-based authorization decorator
-  fastify.decorate('requireRole', (roles: string[]) => {
-    return async (request: any, reply: any) => {
+  fastify.decorate('requireRole', (roles: User['role'][]) => {
+    return async (request: FastifyRequest, reply: FastifyReply) => {
       if (!request.user) {
         return reply.code(401).send({ 
           error: 'Unauthorized',
@@ -76,7 +134,7 @@ const authPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
   });
 
   // Admin-only decorator
-  fastify.decorate('requireAdmin', async (request: any, reply: any) => {
+  fastify.decorate('requireAdmin', async (request: FastifyRequest, reply: FastifyReply) => {
     if (!request.user) {
       return reply.code(401).send({ 
         error: 'Unauthorized',
@@ -95,4 +153,5 @@ const authPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
 
 export default fp(authPlugin, {
   name: "auth-plugin",
+  dependencies: ["api-key-plugin", "rate-limit-plugin"],
 }); 
\ No newline at end of file
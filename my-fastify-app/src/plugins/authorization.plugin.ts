@@ -0,0 +1,21 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { AuthorizationServiceImpl } from "../services/authorization.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    authorization: AuthorizationServiceImpl;
+  }
+}
+
+const authorizationPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const authorization = new AuthorizationServiceImpl(fastify.db.getOrganizationMemberRepository());
+
+  fastify.decorate("authorization", authorization);
+};
+
+export default fp(authorizationPlugin, {
+  name: "authorization-plugin",
+  dependencies: ["database-plugin"],
+});
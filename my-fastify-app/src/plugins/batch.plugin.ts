@@ -0,0 +1,43 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { BatchServiceImpl } from "../services/batch.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    batches: BatchServiceImpl;
+  }
+}
+
+const batchPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const batches = new BatchServiceImpl(
+    fastify.db.getBatchRepository(),
+    fastify.db.getAnalysisRepository(),
+    fastify.db.getFindingRepository(),
+    fastify.db.getProjectRepository(),
+    fastify.db.getUserRepository(),
+    fastify.jobQueue,
+    fastify.promptTemplates,
+    fastify.analysisEvents
+  );
+
+  fastify.decorate("batches", batches);
+
+  fastify.addHook("onReady", async () => {
+    await batches.start();
+  });
+
+  fastify.addHook("onClose", async () => {
+    await batches.stop();
+  });
+};
+
+export default fp(batchPlugin, {
+  name: "batch-plugin",
+  dependencies: [
+    "database-plugin",
+    "analysis-events-plugin",
+    "prompt-template-plugin",
+    "job-queue-plugin",
+  ],
+});
@@ -0,0 +1,55 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { JobQueueServiceImpl } from "../services/job-queue.service";
+import { AnalysisProcessorImpl } from "../services/analysis-processor.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    jobQueue: JobQueueServiceImpl;
+  }
+}
+
+const jobQueuePlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const analysisRepository = fastify.db.getAnalysisRepository();
+  const processor = new AnalysisProcessorImpl(
+    analysisRepository,
+    fastify.db.getFindingRepository(),
+    fastify.croService,
+    fastify.analysisEvents,
+    fastify.artifactStore,
+    fastify.usage,
+    fastify.promptTemplates
+  );
+  const jobQueue = new JobQueueServiceImpl(
+    fastify.db.getJobRepository(),
+    analysisRepository,
+    processor,
+    fastify.analysisEvents,
+    fastify.usage,
+    (callback) => fastify.db.transaction(callback)
+  );
+
+  fastify.decorate("jobQueue", jobQueue);
+
+  // Start workers once the app is ready and drain them before the DB closes
+  fastify.addHook("onReady", async () => {
+    await jobQueue.start();
+  });
+
+  fastify.addHook("onClose", async () => {
+    await jobQueue.stop();
+  });
+};
+
+export default fp(jobQueuePlugin, {
+  name: "job-queue-plugin",
+  dependencies: [
+    "database-plugin",
+    "cro-service-plugin",
+    "analysis-events-plugin",
+    "artifact-store-plugin",
+    "usage-plugin",
+    "prompt-template-plugin",
+  ],
+});
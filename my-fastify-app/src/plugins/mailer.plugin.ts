@@ -0,0 +1,22 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { getMailConfig } from "../config/mail.config";
+import { Mailer } from "../providers/mail/mailer";
+import { createMailer } from "../providers/mail/mailer.factory";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    mailer: Mailer;
+  }
+}
+
+const mailerPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const mailer = createMailer(getMailConfig());
+
+  fastify.decorate("mailer", mailer);
+};
+
+export default fp(mailerPlugin, {
+  name: "mailer-plugin",
+});
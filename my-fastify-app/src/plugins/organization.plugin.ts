@@ -0,0 +1,25 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { OrganizationServiceImpl } from "../services/organization.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    organizations: OrganizationServiceImpl;
+  }
+}
+
+const organizationPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const organizations = new OrganizationServiceImpl(
+    fastify.db.getOrganizationMemberRepository(),
+    fastify.db.getOrganizationInvitationRepository(),
+    fastify.mailer
+  );
+
+  fastify.decorate("organizations", organizations);
+};
+
+export default fp(organizationPlugin, {
+  name: "organization-plugin",
+  dependencies: ["database-plugin", "mailer-plugin"],
+});
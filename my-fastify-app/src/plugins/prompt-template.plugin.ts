@@ -0,0 +1,23 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { PromptTemplateServiceImpl } from "../services/prompt-template.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    promptTemplates: PromptTemplateServiceImpl;
+  }
+}
+
+const promptTemplatePlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const promptTemplates = new PromptTemplateServiceImpl(fastify.db.getPromptTemplateRepository());
+
+  await promptTemplates.ensureDefaults();
+
+  fastify.decorate("promptTemplates", promptTemplates);
+};
+
+export default fp(promptTemplatePlugin, {
+  name: "prompt-template-plugin",
+  dependencies: ["database-plugin"],
+});
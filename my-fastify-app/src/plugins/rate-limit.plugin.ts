@@ -0,0 +1,61 @@
+import { FastifyInstance, FastifyReply } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { getRateLimitConfig } from "../config/rate-limit.config";
+import { RateLimitResult } from "../models/rate-limit.model";
+import { createRateLimitStore } from "../providers/rate-limit/rate-limit-store.factory";
+import { RateLimitServiceImpl } from "../services/rate-limit.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    rateLimits: RateLimitServiceImpl;
+  }
+}
+
+// Sets the X-RateLimit-* headers of a result
+export const setRateLimitHeaders = (reply: FastifyReply, result: RateLimitResult): void => {
+  reply.header('X-RateLimit-Limit', String(result.limit));
+  reply.header('X-RateLimit-Remaining', String(result.remaining));
+  reply.header('X-RateLimit-Reset', String(Math.ceil(result.resetAt.getTime() / 1000)));
+};
+
+// Replies 429 for a result that was not allowed
+export const sendRateLimited = (reply: FastifyReply, result: RateLimitResult, message: string): FastifyReply => {
+  reply.header('Retry-After', String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))));
+  return reply.code(429).send({
+    error: 'Rate limit exceeded',
+    message
+  });
+};
+
+const rateLimitPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const config = getRateLimitConfig();
+  const rateLimits = new RateLimitServiceImpl(
+    createRateLimitStore(config, fastify.db.getRateLimitRepository()),
+    config
+  );
+
+  fastify.decorate("rateLimits", rateLimits);
+
+  // Runs after authentication, so per-user rules know the user
+  fastify.addHook("preHandler", async (request, reply) => {
+    const route = request.routeOptions.url;
+    if (!route) return;
+
+    const result = await rateLimits.checkRoute(request.method, route, {
+      ip: request.ip,
+      userId: request.user?.userId,
+    });
+    if (!result) return;
+
+    setRateLimitHeaders(reply, result);
+    if (!result.allowed) {
+      return sendRateLimited(reply, result, 'Too many requests, please slow down');
+    }
+  });
+};
+
+export default fp(rateLimitPlugin, {
+  name: "rate-limit-plugin",
+  dependencies: ["database-plugin"],
+});
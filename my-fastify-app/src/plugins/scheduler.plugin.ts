@@ -0,0 +1,47 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { SchedulerServiceImpl } from "../services/scheduler.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    scheduler: SchedulerServiceImpl;
+  }
+}
+
+const schedulerPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const scheduler = new SchedulerServiceImpl(
+    fastify.db.getScheduleRepository(),
+    fastify.db.getScheduleAlertRepository(),
+    fastify.db.getAnalysisRepository(),
+    fastify.db.getProjectRepository(),
+    fastify.db.getUserRepository(),
+    fastify.jobQueue,
+    fastify.promptTemplates,
+    fastify.analysisComparison,
+    fastify.analysisEvents,
+    fastify.webhooks
+  );
+
+  fastify.decorate("scheduler", scheduler);
+
+  fastify.addHook("onReady", async () => {
+    await scheduler.start();
+  });
+
+  fastify.addHook("onClose", async () => {
+    await scheduler.stop();
+  });
+};
+
+export default fp(schedulerPlugin, {
+  name: "scheduler-plugin",
+  dependencies: [
+    "database-plugin",
+    "analysis-events-plugin",
+    "prompt-template-plugin",
+    "analysis-comparison-plugin",
+    "job-queue-plugin",
+    "webhook-plugin",
+  ],
+});
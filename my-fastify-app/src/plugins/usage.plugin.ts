@@ -0,0 +1,24 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { UsageServiceImpl } from "../services/usage.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    usage: UsageServiceImpl;
+  }
+}
+
+const usagePlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const usage = new UsageServiceImpl(
+    fastify.db.getUsageRepository(),
+    fastify.db.getUserRepository()
+  );
+
+  fastify.decorate("usage", usage);
+};
+
+export default fp(usagePlugin, {
+  name: "usage-plugin",
+  dependencies: ["database-plugin"],
+});
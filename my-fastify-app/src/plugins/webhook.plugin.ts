@@ -0,0 +1,34 @@
+import { FastifyInstance } from "fastify";
+import { FastifyPluginAsync } from "fastify";
+import fp from "fastify-plugin";
+import { WebhookServiceImpl } from "../services/webhook.service";
+
+declare module "fastify" {
+  interface FastifyInstance {
+    webhooks: WebhookServiceImpl;
+  }
+}
+
+const webhookPlugin: FastifyPluginAsync = async (fastify: FastifyInstance) => {
+  const webhooks = new WebhookServiceImpl(
+    fastify.db.getWebhookRepository(),
+    fastify.db.getWebhookDeliveryRepository(),
+    fastify.db.getAnalysisRepository(),
+    fastify.analysisEvents
+  );
+
+  fastify.decorate("webhooks", webhooks);
+
+  fastify.addHook("onReady", async () => {
+    await webhooks.start();
+  });
+
+  fastify.addHook("onClose", async () => {
+    await webhooks.stop();
+  });
+};
+
+export default fp(webhookPlugin, {
+  name: "webhook-plugin",
+  dependencies: ["database-plugin", "analysis-events-plugin"],
+});
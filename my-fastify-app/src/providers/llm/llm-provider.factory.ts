@@ -0,0 +1,28 @@
+import { LLMConfig } from '../../config/llm.config';
+import { LLMProvider } from './llm.provider';
+import { OpenAIProvider } from './openai.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { MockLLMProvider } from './mock.provider';
+
+export const createLLMProvider = (config: LLMConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return new MockLLMProvider(config.model, config.fixturesDir || './fixtures/llm');
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('LLM_BASE_URL is required for the openai-compatible provider');
+      }
+      return new OpenAICompatibleProvider({
+        model: config.model,
+        apiKey: config.apiKey,
+        baseUrl: config.baseUrl,
+        jsonMode: config.jsonMode,
+      });
+    default:
+      return new OpenAIProvider({
+        model: config.model,
+        apiKey: config.apiKey,
+        jsonMode: config.jsonMode,
+      });
+  }
+};
@@ -0,0 +1,63 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+} from './llm.provider';
+
+/**
+ * Offline provider that answers from JSON fixtures. A fixture named after
+ * the first 16 hex chars of the SHA-256 of the last user message wins;
+ * otherwise `default.json` is returned, so identical prompts always get
+ * identical replies.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model: string;
+  private readonly fixturesDir: string;
+
+  constructor(model: string, fixturesDir: string) {
+    this.model = model;
+    this.fixturesDir = fixturesDir;
+  }
+
+  async complete({ messages }: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+    const content = this.loadFixture(MockLLMProvider.fixtureKey(lastUserMessage));
+
+    const promptTokens = this.countTokens(messages.map((m) => m.content).join('\n'));
+    const completionTokens = this.countTokens(content);
+
+    return {
+      content,
+      model: this.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  countTokens(text: string): number {
+    // Roughly four characters per token, which is what tiktoken averages on English
+    return Math.ceil(text.length / 4);
+  }
+
+  static fixtureKey(prompt: string): string {
+    return crypto.createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+  }
+
+  private loadFixture(key: string): string {
+    for (const name of [`${key}.json`, 'default.json']) {
+      const fixturePath = path.resolve(this.fixturesDir, name);
+      if (fs.existsSync(fixturePath)) {
+        return fs.readFileSync(fixturePath, 'utf8');
+      }
+    }
+
+    throw new Error(`No LLM fixture found in ${this.fixturesDir} for key ${key}`);
+  }
+}
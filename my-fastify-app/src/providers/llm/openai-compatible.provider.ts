@@ -0,0 +1,14 @@
+import { OpenAIProvider, OpenAIProviderOptions } from './openai.provider';
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API (Ollama,
+ * vLLM, LM Studio, llama.cpp server...). JSON mode is opt-in because many
+ * local servers reject the response_format parameter.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai-compatible';
+
+  constructor(options: OpenAIProviderOptions & { baseUrl: string }) {
+    super(options);
+  }
+}
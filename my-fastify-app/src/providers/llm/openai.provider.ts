@@ -0,0 +1,77 @@
+import OpenAI from 'openai';
+import { encoding_for_model, get_encoding, Tiktoken, TiktokenModel } from 'tiktoken';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResponse,
+  LLMProvider,
+} from './llm.provider';
+
+export interface OpenAIProviderOptions {
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+  jsonMode: boolean;
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  protected readonly client: OpenAI;
+  protected readonly jsonMode: boolean;
+  private readonly enc: Tiktoken;
+
+  constructor({ model, apiKey, baseUrl, jsonMode }: OpenAIProviderOptions) {
+    this.model = model;
+    this.jsonMode = jsonMode;
+    this.client = new OpenAI({
+      apiKey,
+      baseURL: baseUrl,
+    });
+    this.enc = this.createEncoder(model);
+  }
+
+  async complete({
+    messages,
+    temperature,
+    maxTokens,
+    responseFormat = 'text',
+  }: LLMCompletionRequest): Promise<LLMCompletionResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      ...(responseFormat === 'json' && this.jsonMode
+        ? { response_format: { type: 'json_object' as const } }
+        : {}),
+    });
+
+    const content = response.choices[0]?.message.content ?? '';
+    const promptTokens = response.usage?.prompt_tokens
+      ?? this.countTokens(messages.map((m) => m.content).join('\n'));
+    const completionTokens = response.usage?.completion_tokens ?? this.countTokens(content);
+
+    return {
+      content,
+      model: response.model || this.model,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+
+  countTokens(text: string): number {
+    return this.enc.encode(text).length;
+  }
+
+  private createEncoder(model: string): Tiktoken {
+    try {
+      return encoding_for_model(model as TiktokenModel);
+    } catch {
+      // Unknown (e.g. local) models: cl100k is a close enough approximation
+      return get_encoding('cl100k_base');
+    }
+  }
+}
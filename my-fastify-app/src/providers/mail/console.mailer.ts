@@ -0,0 +1,9 @@
+import { MailMessage, Mailer } from './mailer';
+
+export class ConsoleMailer implements Mailer {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
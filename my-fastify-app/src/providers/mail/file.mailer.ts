@@ -0,0 +1,32 @@
+import fs from 'fs';
+import path from 'path';
+import { MailMessage, Mailer } from './mailer';
+
+// Writes every message to a .eml file, so links can be opened during development
+export class FileMailer implements Mailer {
+  readonly name = 'file';
+  private readonly dir: string;
+  private readonly from: string;
+
+  constructor(dir: string, from: string) {
+    this.dir = path.resolve(dir);
+    this.from = from;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+    const content = [
+      `From: ${this.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await fs.promises.writeFile(path.join(this.dir, fileName), content);
+  }
+}
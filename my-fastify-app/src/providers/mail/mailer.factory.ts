@@ -0,0 +1,20 @@
+import { MailConfig } from '../../config/mail.config';
+import { ConsoleMailer } from './console.mailer';
+import { FileMailer } from './file.mailer';
+import { Mailer } from './mailer';
+import { SmtpMailer } from './smtp.mailer';
+
+export const createMailer = (config: MailConfig): Mailer => {
+  if (config.driver === 'smtp') {
+    if (!config.smtp) {
+      throw new Error('SMTP configuration is required for the smtp mail driver');
+    }
+    return new SmtpMailer(config.smtp, config.from);
+  }
+
+  if (config.driver === 'file') {
+    return new FileMailer(config.fileDir || './mail', config.from);
+  }
+
+  return new ConsoleMailer();
+};
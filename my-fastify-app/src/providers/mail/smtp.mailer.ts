@@ -0,0 +1,29 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { MailConfig } from '../../config/mail.config';
+import { MailMessage, Mailer } from './mailer';
+
+export class SmtpMailer implements Mailer {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(config: NonNullable<MailConfig['smtp']>, from: string) {
+    this.from = from;
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
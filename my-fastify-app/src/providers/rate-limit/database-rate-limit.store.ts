@@ -0,0 +1,55 @@
+import { RateLimitRule } from '../../config/rate-limit.config';
+import { RateLimitResult } from '../../models/rate-limit.model';
+import { RateLimitRepository } from '../../repositories/rate-limit.repository';
+import { RateLimitStore, takeToken } from './rate-limit-store';
+
+const MAX_ATTEMPTS = 5;
+// How long a request denied because its bucket stayed contended is told to wait
+const CONTENDED_RETRY_MS = 1000;
+// Buckets idle for this long are full again and can be deleted
+const IDLE_MS = 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+// Keeps buckets in the database so every instance counts against the same limits
+export class DatabaseRateLimitStore implements RateLimitStore {
+  readonly name = 'database';
+  private repository: RateLimitRepository;
+  private prunedAt = Date.now();
+
+  constructor(repository: RateLimitRepository) {
+    this.repository = repository;
+  }
+
+  async take(key: string, rule: Pick<RateLimitRule, 'capacity' | 'refillPerMinute'>): Promise<RateLimitResult> {
+    await this.prune();
+
+    // Optimistic concurrency: retry when another request updated the bucket first.
+    // A bucket that stays contended for every attempt is being hammered, so the
+    // request is denied rather than let through without taking a token.
+    for (let attempt = 1; ; attempt++) {
+      const now = Date.now();
+      const previous = await this.repository.find(key);
+      const { bucket, result } = takeToken(previous, rule, now);
+
+      const saved = previous
+        ? await this.repository.replace(key, previous, bucket)
+        : await this.repository.insert(key, bucket);
+
+      if (saved) {
+        return result;
+      }
+
+      if (attempt >= MAX_ATTEMPTS) {
+        return { ...result, allowed: false, remaining: 0, retryAfterMs: Math.max(result.retryAfterMs, CONTENDED_RETRY_MS) };
+      }
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const now = Date.now();
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = now;
+
+    await this.repository.deleteIdle(now - IDLE_MS);
+  }
+}
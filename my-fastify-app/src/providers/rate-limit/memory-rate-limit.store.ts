@@ -0,0 +1,33 @@
+import { RateLimitRule } from '../../config/rate-limit.config';
+import { RateLimitBucket, RateLimitResult } from '../../models/rate-limit.model';
+import { RateLimitStore, takeToken } from './rate-limit-store';
+
+// Buckets idle for this long are full again and can be forgotten
+const IDLE_MS = 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, RateLimitBucket>();
+  private prunedAt = Date.now();
+
+  async take(key: string, rule: Pick<RateLimitRule, 'capacity' | 'refillPerMinute'>): Promise<RateLimitResult> {
+    const now = Date.now();
+    this.prune(now);
+
+    const { bucket, result } = takeToken(this.buckets.get(key) || null, rule, now);
+    this.buckets.set(key, bucket);
+    return result;
+  }
+
+  private prune(now: number): void {
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = now;
+
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > IDLE_MS) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
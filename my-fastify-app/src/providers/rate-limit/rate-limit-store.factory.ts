@@ -0,0 +1,13 @@
+import { RateLimitConfig } from '../../config/rate-limit.config';
+import { RateLimitRepository } from '../../repositories/rate-limit.repository';
+import { DatabaseRateLimitStore } from './database-rate-limit.store';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RateLimitStore } from './rate-limit-store';
+
+export const createRateLimitStore = (config: RateLimitConfig, repository: RateLimitRepository): RateLimitStore => {
+  if (config.store === 'database') {
+    return new DatabaseRateLimitStore(repository);
+  }
+
+  return new MemoryRateLimitStore();
+};
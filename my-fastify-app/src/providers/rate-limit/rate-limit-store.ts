@@ -0,0 +1,38 @@
+import { RateLimitRule } from '../../config/rate-limit.config';
+import { RateLimitBucket, RateLimitResult } from '../../models/rate-limit.model';
+
+export interface RateLimitStore {
+  readonly name: string;
+  // Takes one token from the bucket, if there is one
+  take(key: string, rule: Pick<RateLimitRule, 'capacity' | 'refillPerMinute'>): Promise<RateLimitResult>;
+}
+
+/**
+ * Refills the bucket for the time since it was last updated and takes a
+ * token. Returns the new bucket state with the result; stores only persist it.
+ */
+export const takeToken = (
+  bucket: RateLimitBucket | null,
+  rule: Pick<RateLimitRule, 'capacity' | 'refillPerMinute'>,
+  now: number
+): { bucket: RateLimitBucket; result: RateLimitResult } => {
+  const perMs = rule.refillPerMinute / 60000;
+  const available = bucket
+    ? Math.min(rule.capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) * perMs)
+    : rule.capacity;
+
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+  const msUntil = (target: number) => (perMs > 0 ? Math.ceil((target - tokens) / perMs) : Infinity);
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(tokens),
+      resetAt: new Date(now + Math.min(msUntil(rule.capacity), 365 * 24 * 60 * 60 * 1000)),
+      retryAfterMs: allowed ? 0 : msUntil(1),
+    },
+  };
+};
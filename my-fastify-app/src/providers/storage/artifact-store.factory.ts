@@ -0,0 +1,15 @@
+import { StorageConfig } from '../../config/storage.config';
+import { ArtifactStore } from './artifact-store';
+import { LocalArtifactStore } from './local-artifact.store';
+import { S3ArtifactStore } from './s3-artifact.store';
+
+export const createArtifactStore = (config: StorageConfig): ArtifactStore => {
+  if (config.driver === 's3') {
+    if (!config.s3) {
+      throw new Error('S3 configuration is required for the s3 storage driver');
+    }
+    return new S3ArtifactStore(config.s3);
+  }
+
+  return new LocalArtifactStore(config.localDir || './artifacts');
+};
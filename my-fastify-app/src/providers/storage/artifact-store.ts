@@ -0,0 +1,23 @@
+import { Readable } from 'stream';
+
+export interface ArtifactMetadata {
+  size: number;
+  lastModified: Date;
+  etag: string;
+  contentType?: string;
+}
+
+export interface ArtifactStore {
+  readonly name: string;
+  put(key: string, body: Buffer | string, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  getStream(key: string): Promise<{ stream: Readable; metadata: ArtifactMetadata } | null>;
+  stat(key: string): Promise<ArtifactMetadata | null>;
+  delete(key: string): Promise<void>;
+  deletePrefix(prefix: string): Promise<number>;
+}
+
+export const analysisArtifactPrefix = (analysisId: string): string => `analyses/${analysisId}/`;
+
+export const analysisArtifactKey = (analysisId: string, name: string): string =>
+  `${analysisArtifactPrefix(analysisId)}${name}`;
@@ -0,0 +1,68 @@
+import fs from 'fs';
+import path from 'path';
+import { ArtifactMetadata, ArtifactStore } from './artifact-store';
+
+export class LocalArtifactStore implements ArtifactStore {
+  readonly name = 'local';
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async put(key: string, body: Buffer | string): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getStream(key: string) {
+    const metadata = await this.stat(key);
+    if (!metadata) return null;
+
+    return {
+      stream: fs.createReadStream(this.resolveKey(key)),
+      metadata,
+    };
+  }
+
+  async stat(key: string): Promise<ArtifactMetadata | null> {
+    const stats = await fs.promises.stat(this.resolveKey(key)).catch(() => null);
+    if (!stats?.isFile()) return null;
+
+    return {
+      size: stats.size,
+      lastModified: stats.mtime,
+      etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`,
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolveKey(key), { force: true });
+  }
+
+  async deletePrefix(prefix: string): Promise<number> {
+    const dirPath = this.resolveKey(prefix);
+    const entries = await fs.promises.readdir(dirPath, { recursive: true }).catch(() => []);
+    await fs.promises.rm(dirPath, { recursive: true, force: true });
+    return entries.length;
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    // Keys come from our own code, but never let one escape the store root
+    if (filePath !== this.rootDir && !filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid artifact key: ${key}`);
+    }
+    return filePath;
+  }
+}
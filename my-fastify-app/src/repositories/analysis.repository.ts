@@ -6,6 +6,7 @@ import {
   AnalysisFilters,
   AnalysisStats,
 } from '../models/analysis.model';
+import { normalizeUrl } from '../services/url-normalization.service';
 import { v4 as uuidv4 } from 'uuid';
 
 export class AnalysisRepository extends BaseRepository {
@@ -15,9 +16,9 @@ export class AnalysisRepository extends BaseRepository {
     
     const sql = `
       INSERT INTO analyses (
-        id, user_id, url, page_title, analysis, pdf_path, metadata, status, 
-        error_message, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        id, user_id, url, normalized_url, page_title, analysis, pdf_path, metadata, status, 
+        error_message, batch_id, project_id, organization_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     const metadata = {
@@ -31,12 +32,16 @@ export class AnalysisRepository extends BaseRepository {
       id,
       userId,
       data.url,
+      normalizeUrl(data.url),
       data.pageTitle || null,
       '', // analysis starts empty
       null, // pdf_path starts null
       JSON.stringify(metadata),
       'pending',
       null, // error_message starts null
+      data.batchId || null,
+      data.projectId || null,
+      data.organizationId || null,
       now.toISOString(),
       now.toISOString(),
     ]);
@@ -64,11 +69,31 @@ export class AnalysisRepository extends BaseRepository {
     const updates: string[] = [];
     const params: any[] = [];
 
+    if (data.pageTitle !== undefined) {
+      updates.push('page_title = ?');
+      params.push(data.pageTitle);
+    }
+
     if (data.analysis !== undefined) {
       updates.push('analysis = ?');
       params.push(data.analysis);
     }
 
+    if (data.overallScore !== undefined) {
+      updates.push('overall_score = ?');
+      params.push(data.overallScore);
+    }
+
+    if (data.categoryScores !== undefined) {
+      updates.push('category_scores = ?');
+      params.push(JSON.stringify(data.categoryScores));
+    }
+
+    if (data.pageModel !== undefined) {
+      updates.push('page_model = ?');
+      params.push(JSON.stringify(data.pageModel));
+    }
+
     if (data.pdfPath !== undefined) {
       updates.push('pdf_path = ?');
       params.push(data.pdfPath);
@@ -119,6 +144,28 @@ export class AnalysisRepository extends BaseRepository {
       params.push(`%${filters.url}%`);
     }
 
+    if (filters.normalizedUrl) {
+      conditions.push('normalized_url = ?');
+      params.push(filters.normalizedUrl);
+    }
+
+    if (filters.batchId) {
+      conditions.push('batch_id = ?');
+      params.push(filters.batchId);
+    }
+
+    if (filters.projectId) {
+      conditions.push('project_id = ?');
+      params.push(filters.projectId);
+    }
+
+    if (filters.organizationId === null) {
+      conditions.push('organization_id IS NULL');
+    } else if (filters.organizationId) {
+      conditions.push('organization_id = ?');
+      params.push(filters.organizationId);
+    }
+
     if (filters.dateFrom) {
       conditions.push('created_at >= ?');
       params.push(filters.dateFrom.toISOString());
@@ -147,10 +194,39 @@ export class AnalysisRepository extends BaseRepository {
     return rows.map((row: any) => this.mapRowToRecord(row));
   }
 
+  // Latest completed analysis of the same page by the same user, created before the given date
+  async findPreviousCompleted(userId: string, url: string, before: Date): Promise<AnalysisRecord | null> {
+    const sql = `
+      SELECT * FROM analyses
+      WHERE user_id = ? AND normalized_url = ? AND status = 'completed' AND created_at < ?
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+    const row = await this.queryOne(sql, [userId, normalizeUrl(url), before.toISOString()]);
+
+    if (!row) return null;
+
+    return this.mapRowToRecord(row);
+  }
+
   async findByUserId(userId: string, filters: Omit<AnalysisFilters, 'userId'> = {}): Promise<AnalysisRecord[]> {
     return this.find({ ...filters, userId });
   }
 
+  // Ids of the analyses the user owns outside any organization
+  async findPersonalIds(userId: string): Promise<string[]> {
+    const sql = 'SELECT id FROM analyses WHERE user_id = ? AND organization_id IS NULL';
+    const rows = await this.query(sql, [userId]);
+    return rows.map((row: any) => row.id);
+  }
+
+  // Analyses of the user that are queued or being processed
+  async countUnfinished(userId: string): Promise<number> {
+    const sql = "SELECT COUNT(*) as count FROM analyses WHERE user_id = ? AND status IN ('pending', 'processing')";
+    const row = await this.queryOne(sql, [userId]);
+    return Number(row?.count || 0);
+  }
+
   async getStats(): Promise<AnalysisStats> {
     const sql = `
       SELECT 
@@ -190,9 +266,16 @@ export class AnalysisRepository extends BaseRepository {
       id: row.id,
       userId: row.user_id,
       url: row.url,
+      normalizedUrl: row.normalized_url || normalizeUrl(row.url),
       pageTitle: row.page_title,
       analysis: row.analysis,
+      overallScore: row.overall_score ?? undefined,
+      categoryScores: row.category_scores ? JSON.parse(row.category_scores) : undefined,
+      pageModel: row.page_model ? JSON.parse(row.page_model) : undefined,
       pdfPath: row.pdf_path,
+      batchId: row.batch_id || undefined,
+      projectId: row.project_id || undefined,
+      organizationId: row.organization_id || undefined,
       metadata: JSON.parse(row.metadata || '{}'),
       status: row.status,
       errorMessage: row.error_message,
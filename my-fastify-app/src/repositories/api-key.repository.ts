@@ -0,0 +1,85 @@
+import { BaseRepository } from './base.repository';
+import { ApiKey, CreateApiKeyRequest } from '../models/api-key.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class ApiKeyRepository extends BaseRepository {
+  async create(userId: string, data: CreateApiKeyRequest & { rateLimitPerMinute: number }, prefix: string, keyHash: string): Promise<ApiKey> {
+    const id = uuidv4();
+
+    const sql = `
+      INSERT INTO api_keys (
+        id, user_id, name, prefix, key_hash, scopes, rate_limit_per_minute, expires_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      userId,
+      data.name,
+      prefix,
+      keyHash,
+      JSON.stringify(data.scopes),
+      data.rateLimitPerMinute,
+      data.expiresAt ? data.expiresAt.toISOString() : null,
+      new Date().toISOString(),
+    ]);
+
+    const apiKey = await this.findById(id);
+    if (!apiKey) {
+      throw new Error('Failed to create API key');
+    }
+    return apiKey;
+  }
+
+  async findById(id: string): Promise<ApiKey | null> {
+    const sql = 'SELECT * FROM api_keys WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToApiKey(row);
+  }
+
+  async findByKeyHash(keyHash: string): Promise<ApiKey | null> {
+    const sql = 'SELECT * FROM api_keys WHERE key_hash = ?';
+    const row = await this.queryOne(sql, [keyHash]);
+
+    if (!row) return null;
+
+    return this.mapRowToApiKey(row);
+  }
+
+  // Keys that were not revoked, newest first
+  async findByUserId(userId: string): Promise<ApiKey[]> {
+    const sql = 'SELECT * FROM api_keys WHERE user_id = ? AND revoked_at IS NULL ORDER BY created_at DESC';
+    const rows = await this.query(sql, [userId]);
+    return rows.map((row: any) => this.mapRowToApiKey(row));
+  }
+
+  async touch(id: string): Promise<void> {
+    await this.execute('UPDATE api_keys SET last_used_at = ? WHERE id = ?', [new Date().toISOString(), id]);
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const result = await this.execute(
+      'UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  private mapRowToApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name,
+      prefix: row.prefix,
+      scopes: JSON.parse(row.scopes || '[]'),
+      rateLimitPerMinute: Number(row.rate_limit_per_minute),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      lastUsedAt: row.last_used_at ? new Date(row.last_used_at) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { BaseRepository } from './base.repository';
+import { AuditEvent, AuditEventFilters, CreateAuditEventRequest } from '../models/audit-event.model';
+import { v4 as uuidv4 } from 'uuid';
+
+// Append-only: events are never updated or deleted
+export class AuditEventRepository extends BaseRepository {
+  async create(data: CreateAuditEventRequest): Promise<AuditEvent> {
+    const event: AuditEvent = { ...data, id: uuidv4(), createdAt: new Date() };
+
+    const sql = `
+      INSERT INTO audit_events (
+        id, action, actor_type, actor_id, api_key_id, impersonator_id, target_type, target_id,
+        ip_address, user_agent, changes, metadata, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      event.id,
+      event.action,
+      event.actorType,
+      event.actorId || null,
+      event.apiKeyId || null,
+      event.impersonatorId || null,
+      event.targetType || null,
+      event.targetId || null,
+      event.ipAddress || null,
+      event.userAgent || null,
+      event.changes ? JSON.stringify(event.changes) : null,
+      event.metadata ? JSON.stringify(event.metadata) : null,
+      event.createdAt.toISOString(),
+    ]);
+
+    return event;
+  }
+
+  // Newest first
+  async find(filters: AuditEventFilters = {}): Promise<AuditEvent[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.action?.endsWith('.*')) {
+      conditions.push('action LIKE ?');
+      params.push(`${filters.action.slice(0, -1)}%`);
+    } else if (filters.action) {
+      conditions.push('action = ?');
+      params.push(filters.action);
+    }
+
+    const columns: Array<[keyof AuditEventFilters, string]> = [
+      ['actorId', 'actor_id'],
+      ['targetType', 'target_type'],
+      ['targetId', 'target_id'],
+    ];
+
+    for (const [field, column] of columns) {
+      if (filters[field]) {
+        conditions.push(`${column} = ?`);
+        params.push(filters[field]);
+      }
+    }
+
+    if (filters.from) {
+      conditions.push('created_at >= ?');
+      params.push(filters.from.toISOString());
+    }
+
+    if (filters.to) {
+      conditions.push('created_at < ?');
+      params.push(filters.to.toISOString());
+    }
+
+    let sql = 'SELECT * FROM audit_events';
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
+    sql += ' ORDER BY created_at DESC';
+
+    if (filters.limit) {
+      sql += ` LIMIT ${filters.limit}`;
+      if (filters.offset) {
+        sql += ` OFFSET ${filters.offset}`;
+      }
+    }
+
+    const rows = await this.query(sql, params);
+    return rows.map((row: any) => this.mapRowToEvent(row));
+  }
+
+  private mapRowToEvent(row: any): AuditEvent {
+    return {
+      id: row.id,
+      action: row.action,
+      actorType: row.actor_type,
+      actorId: row.actor_id || undefined,
+      apiKeyId: row.api_key_id || undefined,
+      impersonatorId: row.impersonator_id || undefined,
+      targetType: row.target_type || undefined,
+      targetId: row.target_id || undefined,
+      ipAddress: row.ip_address || undefined,
+      userAgent: row.user_agent || undefined,
+      changes: row.changes ? JSON.parse(row.changes) : undefined,
+      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -1,5 +1,83 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import { DatabaseConfig } from '../config/database.config';
 
+export type TransactionRunner = <T>(callback: () => Promise<T>) => Promise<T>;
+
+// The connection of the transaction the current async call chain runs in
+const transactionScope = new AsyncLocalStorage<{ connection: any }>();
+
+// SQLite has a single connection, so statements from outside an open transaction
+// would run inside it; they wait for it to finish instead
+const sqliteTransactions = new WeakMap<object, Promise<void>>();
+
+const waitForSqliteTransaction = async (db: any): Promise<void> => {
+  let open = sqliteTransactions.get(db);
+  while (open) {
+    await open;
+    open = sqliteTransactions.get(db);
+  }
+};
+
+/**
+ * Runs the callback in a transaction. Repository calls made inside it, through
+ * any repository, use the transaction; nested calls join the outer transaction.
+ */
+export async function runInTransaction<T>(db: any, config: DatabaseConfig, callback: () => Promise<T>): Promise<T> {
+  if (transactionScope.getStore()) {
+    return callback();
+  }
+
+  if (config.type === 'sqlite') {
+    // Checked again after every wait, as another caller may have opened one in between
+    let open = sqliteTransactions.get(db);
+    while (open) {
+      await open;
+      open = sqliteTransactions.get(db);
+    }
+
+    let finish = () => {};
+    sqliteTransactions.set(db, new Promise<void>((resolve) => { finish = resolve; }));
+
+    const run = (sql: string) => new Promise<void>((resolve, reject) => {
+      db.run(sql, (err: any) => (err ? reject(err) : resolve()));
+    });
+
+    try {
+      return await transactionScope.run({ connection: db }, async () => {
+        await run('BEGIN IMMEDIATE TRANSACTION');
+        try {
+          const result = await callback();
+          await run('COMMIT');
+          return result;
+        } catch (error) {
+          await run('ROLLBACK');
+          throw error;
+        }
+      });
+    } finally {
+      sqliteTransactions.delete(db);
+      finish();
+    }
+  }
+
+  const client = await db.connect();
+  try {
+    return await transactionScope.run({ connection: client }, async () => {
+      await client.query('BEGIN');
+      try {
+        const result = await callback();
+        await client.query('COMMIT');
+        return result;
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw error;
+      }
+    });
+  } finally {
+    client.release();
+  }
+}
+
 export abstract class BaseRepository {
   protected db: any;
   protected config: DatabaseConfig;
@@ -9,17 +87,29 @@ export abstract class BaseRepository {
     this.config = config;
   }
 
+  // The open transaction's connection, or the database outside of one
+  private async connection(): Promise<any> {
+    const scope = transactionScope.getStore();
+    if (scope) return scope.connection;
+
+    if (this.config.type === 'sqlite') {
+      await waitForSqliteTransaction(this.db);
+    }
+    return this.db;
+  }
+
   protected async query(sql: string, params: any[] = []): Promise<any> {
     try {
+      const db = await this.connection();
       if (this.config.type === 'sqlite') {
         return new Promise((resolve, reject) => {
-          this.db.all(sql, params, (err: any, rows: any) => {
+          db.all(sql, params, (err: any, rows: any) => {
             if (err) reject(err);
             else resolve(rows);
           });
         });
       } else {
-        const result = await this.db.query(sql, params);
+        const result = await db.query(sql, params);
         return result.rows;
       }
     } catch (error) {
@@ -30,15 +120,16 @@ export abstract class BaseRepository {
 
   protected async queryOne(sql: string, params: any[] = []): Promise<any> {
     try {
+      const db = await this.connection();
       if (this.config.type === 'sqlite') {
         return new Promise((resolve, reject) => {
-          this.db.get(sql, params, (err: any, row: any) => {
+          db.get(sql, params, (err: any, row: any) => {
             if (err) reject(err);
             else resolve(row);
           });
         });
       } else {
-        const result = await this.db.query(sql, params);
+        const result = await db.query(sql, params);
         return result.rows[0];
       }
     } catch (error) {
@@ -49,15 +140,16 @@ export abstract class BaseRepository {
 
   protected async execute(sql: string, params: any[] = []): Promise<any> {
     try {
+      const db = await this.connection();
       if (this.config.type === 'sqlite') {
         return new Promise((resolve, reject) => {
-          this.db.run(sql, params, function(this: any, err: any) {
+          db.run(sql, params, function(this: any, err: any) {
             if (err) reject(err);
             else resolve({ lastID: this.lastID, changes: this.changes });
           });
         });
       } else {
-        const result = await this.db.query(sql, params);
+        const result = await db.query(sql, params);
         return { rowCount: result.rowCount };
       }
     } catch (error) {
@@ -67,34 +159,6 @@ export abstract class BaseRepository {
   }
 
   protected async transaction<T>(callback: () => Promise<T>): Promise<T> {
-    if (this.config.type === 'sqlite') {
-      return new Promise((resolve, reject) => {
-        this.db.serialize(() => {
-          this.db.run('BEGIN TRANSACTION');
-          callback()
-            .then((result) => {
-              this.db.run('COMMIT');
-              resolve(result);
-            })
-            .catch((error) => {
-              this.db.run('ROLLBACK');
-              reject(error);
-            });
-        });
-      });
-    } else {
-      const client = await this.db.connect();
-      try {
-        await client.query('BEGIN');
-        const result = await callback();
-        await client.query('COMMIT');
-        return result;
-      } catch (error) {
-        await client.query('ROLLBACK');
-        throw error;
-      } finally {
-        client.release();
-      }
-    }
+    return runInTransaction(this.db, this.config, callback);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,147 @@
+import { BaseRepository } from './base.repository';
+import { Batch, BatchProgress, BatchStatus, CreateBatchRequest, UpdateBatchRequest } from '../models/batch.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class BatchRepository extends BaseRepository {
+  async create(data: CreateBatchRequest, userId: string): Promise<Batch> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const sql = `
+      INSERT INTO batches (
+        id, user_id, name, source, source_url, options, status, total, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      userId,
+      data.name || null,
+      data.source,
+      data.sourceUrl || null,
+      JSON.stringify(data.options),
+      data.status,
+      0, // total is known once the URLs are discovered
+      now,
+      now,
+    ]);
+
+    const batch = await this.findById(id);
+    if (!batch) {
+      throw new Error('Failed to create batch');
+    }
+    return batch;
+  }
+
+  async findById(id: string): Promise<Batch | null> {
+    const sql = 'SELECT * FROM batches WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToBatch(row);
+  }
+
+  async findByUserId(userId: string, limit: number = 50, offset: number = 0): Promise<Batch[]> {
+    const sql = 'SELECT * FROM batches WHERE user_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?';
+    const rows = await this.query(sql, [userId, limit, offset]);
+    return rows.map((row: any) => this.mapRowToBatch(row));
+  }
+
+  async findByStatus(status: BatchStatus): Promise<Batch[]> {
+    const sql = 'SELECT * FROM batches WHERE status = ? ORDER BY created_at ASC';
+    const rows = await this.query(sql, [status]);
+    return rows.map((row: any) => this.mapRowToBatch(row));
+  }
+
+  async update(id: string, data: UpdateBatchRequest): Promise<Batch | null> {
+    const updates: string[] = [];
+    const params: any[] = [];
+
+    if (data.status !== undefined) {
+      updates.push('status = ?');
+      params.push(data.status);
+    }
+
+    if (data.total !== undefined) {
+      updates.push('total = ?');
+      params.push(data.total);
+    }
+
+    if (data.errorMessage !== undefined) {
+      updates.push('error_message = ?');
+      params.push(data.errorMessage);
+    }
+
+    if (data.completedAt !== undefined) {
+      updates.push('completed_at = ?');
+      params.push(data.completedAt.toISOString());
+    }
+
+    updates.push('updated_at = ?');
+    params.push(new Date().toISOString());
+
+    params.push(id);
+
+    const sql = `UPDATE batches SET ${updates.join(', ')} WHERE id = ?`;
+    await this.execute(sql, params);
+
+    return this.findById(id);
+  }
+
+  async getProgress(batchId: string): Promise<BatchProgress> {
+    const rows = await this.query(
+      'SELECT status, COUNT(*) as count FROM analyses WHERE batch_id = ? GROUP BY status',
+      [batchId]
+    );
+
+    const progress: BatchProgress = { total: 0, pending: 0, processing: 0, completed: 0, failed: 0 };
+    for (const row of rows) {
+      const count = Number(row.count);
+      progress[row.status as Exclude<keyof BatchProgress, 'total'>] = count;
+      progress.total += count;
+    }
+    return progress;
+  }
+
+  // Children that have a job waiting or running
+  async countInFlight(batchId: string): Promise<number> {
+    const row = await this.queryOne(
+      `SELECT COUNT(*) as count FROM analyses a
+       WHERE a.batch_id = ? AND a.status IN ('pending', 'processing')
+         AND EXISTS (SELECT 1 FROM analysis_jobs j WHERE j.analysis_id = a.id)`,
+      [batchId]
+    );
+    return Number(row?.count || 0);
+  }
+
+  // Children that were created but not handed to the job queue yet, oldest first
+  async findUnqueuedAnalysisIds(batchId: string, limit: number): Promise<string[]> {
+    const rows = await this.query(
+      `SELECT a.id FROM analyses a
+       WHERE a.batch_id = ? AND a.status = 'pending'
+         AND NOT EXISTS (SELECT 1 FROM analysis_jobs j WHERE j.analysis_id = a.id)
+       ORDER BY a.created_at ASC, a.id ASC
+       LIMIT ?`,
+      [batchId, limit]
+    );
+    return rows.map((row: any) => row.id);
+  }
+
+  private mapRowToBatch(row: any): Batch {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      name: row.name || undefined,
+      source: row.source,
+      sourceUrl: row.source_url || undefined,
+      options: JSON.parse(row.options || '{}'),
+      status: row.status,
+      total: Number(row.total),
+      errorMessage: row.error_message || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+    };
+  }
+}
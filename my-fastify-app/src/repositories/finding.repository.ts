@@ -0,0 +1,91 @@
+import { BaseRepository } from './base.repository';
+import { FindingRecord, FindingFilters } from '../models/finding.model';
+import { CROFinding } from '../../types/cro.types';
+import { v4 as uuidv4 } from 'uuid';
+
+export class FindingRepository extends BaseRepository {
+  /**
+   * Replaces all findings of an analysis, so a retried job never leaves
+   * duplicates from an earlier attempt behind.
+   */
+  async replaceForAnalysis(analysisId: string, findings: CROFinding[]): Promise<FindingRecord[]> {
+    await this.deleteByAnalysisId(analysisId);
+
+    const now = new Date().toISOString();
+    const sql = `
+      INSERT INTO analysis_findings (
+        id, analysis_id, category, severity, title, evidence, recommendation,
+        expected_impact, position, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    for (const [position, finding] of findings.entries()) {
+      await this.execute(sql, [
+        uuidv4(),
+        analysisId,
+        finding.category,
+        finding.severity,
+        finding.title,
+        finding.evidence,
+        finding.recommendation,
+        finding.expectedImpact,
+        position,
+        now,
+      ]);
+    }
+
+    return this.findByAnalysisId(analysisId);
+  }
+
+  async findByAnalysisId(analysisId: string, filters: FindingFilters = {}): Promise<FindingRecord[]> {
+    const conditions: string[] = ['analysis_id = ?'];
+    const params: any[] = [analysisId];
+
+    if (filters.category) {
+      conditions.push('category = ?');
+      params.push(filters.category);
+    }
+
+    if (filters.severity) {
+      conditions.push('severity = ?');
+      params.push(filters.severity);
+    }
+
+    const sql = `
+      SELECT * FROM analysis_findings
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY
+        CASE severity
+          WHEN 'critical' THEN 0
+          WHEN 'high' THEN 1
+          WHEN 'medium' THEN 2
+          ELSE 3
+        END,
+        position ASC
+    `;
+
+    const rows = await this.query(sql, params);
+    return rows.map((row: any) => this.mapRowToFinding(row));
+  }
+
+  async deleteByAnalysisId(analysisId: string): Promise<number> {
+    const sql = 'DELETE FROM analysis_findings WHERE analysis_id = ?';
+    const result = await this.execute(sql, [analysisId]);
+    return result.changes || result.rowCount || 0;
+  }
+
+  private mapRowToFinding(row: any): FindingRecord {
+    return {
+      id: row.id,
+      analysisId: row.analysis_id,
+      category: row.category,
+      severity: row.severity,
+      title: row.title,
+      evidence: row.evidence,
+      recommendation: row.recommendation,
+      expectedImpact: row.expected_impact,
+      position: Number(row.position),
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
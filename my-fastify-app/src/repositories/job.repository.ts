@@ -0,0 +1,200 @@
+import { BaseRepository } from './base.repository';
+import { AnalysisJob, AnalysisJobPayload, CreateJobRequest } from '../models/job.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class JobRepository extends BaseRepository {
+  async create(data: CreateJobRequest): Promise<AnalysisJob> {
+    const id = uuidv4();
+    const now = new Date();
+
+    const sql = `
+      INSERT INTO analysis_jobs (
+        id, analysis_id, user_id, payload, status, attempts, max_attempts,
+        run_at, locked_at, locked_by, last_error, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      data.analysisId,
+      data.userId,
+      JSON.stringify(data.payload),
+      'pending',
+      0, // attempts
+      data.maxAttempts,
+      (data.runAt || now).toISOString(),
+      null, // locked_at
+      null, // locked_by
+      null, // last_error
+      now.toISOString(),
+      now.toISOString(),
+    ]);
+
+    const job = await this.findById(id);
+    if (!job) {
+      throw new Error('Failed to create analysis job');
+    }
+    return job;
+  }
+
+  async findById(id: string): Promise<AnalysisJob | null> {
+    const sql = 'SELECT * FROM analysis_jobs WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToJob(row);
+  }
+
+  async findByAnalysisId(analysisId: string): Promise<AnalysisJob | null> {
+    const sql = 'SELECT * FROM analysis_jobs WHERE analysis_id = ? ORDER BY created_at DESC LIMIT 1';
+    const row = await this.queryOne(sql, [analysisId]);
+
+    if (!row) return null;
+
+    return this.mapRowToJob(row);
+  }
+
+  async findByStatus(status: AnalysisJob['status']): Promise<AnalysisJob[]> {
+    const sql = 'SELECT * FROM analysis_jobs WHERE status = ? ORDER BY run_at ASC';
+    const rows = await this.query(sql, [status]);
+    return rows.map((row: any) => this.mapRowToJob(row));
+  }
+
+  // Processing jobs whose worker last renewed the lease before the given time
+  async findExpired(lockedBefore: Date): Promise<AnalysisJob[]> {
+    const sql = `SELECT * FROM analysis_jobs WHERE status = 'processing' AND locked_at < ? ORDER BY locked_at ASC`;
+    const rows = await this.query(sql, [lockedBefore.toISOString()]);
+    return rows.map((row: any) => this.mapRowToJob(row));
+  }
+
+  /**
+   * Claims the oldest due pending job for a worker. The status guard on the
+   * UPDATE makes the claim safe when several workers race for the same row.
+   */
+  async claimNext(workerId: string): Promise<AnalysisJob | null> {
+    const now = new Date().toISOString();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = await this.queryOne(
+        `SELECT id FROM analysis_jobs WHERE status = 'pending' AND run_at <= ? ORDER BY run_at ASC LIMIT 1`,
+        [now]
+      );
+
+      if (!candidate) return null;
+
+      const result = await this.execute(
+        `UPDATE analysis_jobs
+         SET status = 'processing', attempts = attempts + 1, locked_at = ?, locked_by = ?, updated_at = ?
+         WHERE id = ? AND status = 'pending'`,
+        [now, workerId, now, candidate.id]
+      );
+
+      if (result.changes > 0 || result.rowCount > 0) {
+        return this.findById(candidate.id);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Renews the worker's lease on a job. Returns false once the job has been
+   * taken from the worker, which then must not record an outcome.
+   */
+  async renewLease(id: string, workerId: string): Promise<boolean> {
+    const now = new Date().toISOString();
+    const sql = `
+      UPDATE analysis_jobs
+      SET locked_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'processing' AND locked_by = ?
+    `;
+    const result = await this.execute(sql, [now, now, id, workerId]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  // The outcome updates below only apply while the worker still holds the lease.
+  // A finished job keeps the given payload, which no longer needs its secrets.
+
+  async markCompleted(id: string, workerId: string, payload: AnalysisJobPayload): Promise<boolean> {
+    const sql = `
+      UPDATE analysis_jobs
+      SET status = 'completed', payload = ?, locked_at = NULL, locked_by = NULL, last_error = NULL, updated_at = ?
+      WHERE id = ? AND status = 'processing' AND locked_by = ?
+    `;
+    const result = await this.execute(sql, [JSON.stringify(payload), new Date().toISOString(), id, workerId]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  async markFailed(id: string, workerId: string, error: string, payload: AnalysisJobPayload): Promise<boolean> {
+    const sql = `
+      UPDATE analysis_jobs
+      SET status = 'failed', payload = ?, locked_at = NULL, locked_by = NULL, last_error = ?, updated_at = ?
+      WHERE id = ? AND status = 'processing' AND locked_by = ?
+    `;
+    const result = await this.execute(sql, [JSON.stringify(payload), error, new Date().toISOString(), id, workerId]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  async scheduleRetry(id: string, workerId: string, error: string, runAt: Date): Promise<boolean> {
+    const sql = `
+      UPDATE analysis_jobs
+      SET status = 'pending', locked_at = NULL, locked_by = NULL, last_error = ?, run_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'processing' AND locked_by = ?
+    `;
+    const result = await this.execute(sql, [error, runAt.toISOString(), new Date().toISOString(), id, workerId]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  /**
+   * Returns a job whose lease expired (e.g. its worker crashed) to the queue.
+   * The interrupted run still counts as an attempt, so a job that kills its
+   * worker every time runs out of attempts. The lease is checked again so a
+   * job renewed in the meantime stays with its worker.
+   */
+  async requeueExpired(id: string, lockedBefore: Date): Promise<boolean> {
+    const now = new Date().toISOString();
+    const sql = `
+      UPDATE analysis_jobs
+      SET status = 'pending', locked_at = NULL, locked_by = NULL, run_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'processing' AND locked_at < ?
+    `;
+    const result = await this.execute(sql, [now, now, id, lockedBefore.toISOString()]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  // Gives up on a job whose lease expired on its last attempt
+  async failExpired(id: string, lockedBefore: Date, error: string, payload: AnalysisJobPayload): Promise<boolean> {
+    const sql = `
+      UPDATE analysis_jobs
+      SET status = 'failed', payload = ?, locked_at = NULL, locked_by = NULL, last_error = ?, updated_at = ?
+      WHERE id = ? AND status = 'processing' AND locked_at < ?
+    `;
+    const result = await this.execute(sql, [
+      JSON.stringify(payload),
+      error,
+      new Date().toISOString(),
+      id,
+      lockedBefore.toISOString(),
+    ]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  private mapRowToJob(row: any): AnalysisJob {
+    return {
+      id: row.id,
+      analysisId: row.analysis_id,
+      userId: row.user_id,
+      payload: JSON.parse(row.payload || '{}'),
+      status: row.status,
+      attempts: Number(row.attempts),
+      maxAttempts: Number(row.max_attempts),
+      runAt: new Date(row.run_at),
+      lockedAt: row.locked_at ? new Date(row.locked_at) : undefined,
+      lockedBy: row.locked_by || undefined,
+      lastError: row.last_error || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { BaseRepository } from './base.repository';
+import { CreateOrganizationInvitationRequest, OrganizationInvitation } from '../models/organization.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class OrganizationInvitationRepository extends BaseRepository {
+  async create(data: CreateOrganizationInvitationRequest): Promise<OrganizationInvitation> {
+    const id = uuidv4();
+
+    const sql = `
+      INSERT INTO organization_invitations (
+        id, organization_id, email, role, token_hash, invited_by, expires_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      data.organizationId,
+      data.email,
+      data.role,
+      data.tokenHash,
+      data.invitedBy,
+      data.expiresAt.toISOString(),
+      new Date().toISOString(),
+    ]);
+
+    const invitation = await this.findById(id);
+    if (!invitation) {
+      throw new Error('Failed to create invitation');
+    }
+    return invitation;
+  }
+
+  async findById(id: string): Promise<OrganizationInvitation | null> {
+    const sql = 'SELECT * FROM organization_invitations WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToInvitation(row);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<OrganizationInvitation | null> {
+    const sql = 'SELECT * FROM organization_invitations WHERE token_hash = ?';
+    const row = await this.queryOne(sql, [tokenHash]);
+
+    if (!row) return null;
+
+    return this.mapRowToInvitation(row);
+  }
+
+  // Invitations that were neither accepted nor expired, newest first
+  async findPending(organizationId: string, email?: string): Promise<OrganizationInvitation[]> {
+    const conditions = ['organization_id = ?', 'accepted_at IS NULL', 'expires_at > ?'];
+    const params: any[] = [organizationId, new Date().toISOString()];
+
+    if (email) {
+      conditions.push('email = ?');
+      params.push(email);
+    }
+
+    const sql = `SELECT * FROM organization_invitations WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC`;
+    const rows = await this.query(sql, params);
+    return rows.map((row: any) => this.mapRowToInvitation(row));
+  }
+
+  // Guarded on accepted_at so a token can only be used once
+  async markAccepted(id: string, userId: string): Promise<boolean> {
+    const result = await this.execute(
+      'UPDATE organization_invitations SET accepted_at = ?, accepted_by = ? WHERE id = ? AND accepted_at IS NULL',
+      [new Date().toISOString(), userId, id]
+    );
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const sql = 'DELETE FROM organization_invitations WHERE id = ?';
+    const result = await this.execute(sql, [id]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  private mapRowToInvitation(row: any): OrganizationInvitation {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      email: row.email,
+      role: row.role,
+      invitedBy: row.invited_by,
+      expiresAt: new Date(row.expires_at),
+      acceptedAt: row.accepted_at ? new Date(row.accepted_at) : undefined,
+      acceptedBy: row.accepted_by || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { BaseRepository } from './base.repository';
+import { OrganizationMember, OrganizationRole } from '../models/organization.model';
+
+export class OrganizationMemberRepository extends BaseRepository {
+  async add(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember> {
+    const now = new Date().toISOString();
+
+    await this.execute(
+      'INSERT INTO organization_members (organization_id, user_id, role, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [organizationId, userId, role, now, now]
+    );
+
+    const member = await this.find(organizationId, userId);
+    if (!member) {
+      throw new Error('Failed to add organization member');
+    }
+    return member;
+  }
+
+  async find(organizationId: string, userId: string): Promise<OrganizationMember | null> {
+    const sql = `
+      SELECT m.*, u.email, u.first_name, u.last_name FROM organization_members m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.organization_id = ? AND m.user_id = ?
+    `;
+    const row = await this.queryOne(sql, [organizationId, userId]);
+
+    if (!row) return null;
+
+    return this.mapRowToMember(row);
+  }
+
+  async getRole(organizationId: string, userId: string): Promise<OrganizationRole | null> {
+    const sql = 'SELECT role FROM organization_members WHERE organization_id = ? AND user_id = ?';
+    const row = await this.queryOne(sql, [organizationId, userId]);
+    return row ? row.role : null;
+  }
+
+  async findByOrganizationId(organizationId: string): Promise<OrganizationMember[]> {
+    const sql = `
+      SELECT m.*, u.email, u.first_name, u.last_name FROM organization_members m
+      JOIN users u ON u.id = m.user_id
+      WHERE m.organization_id = ?
+      ORDER BY m.created_at ASC
+    `;
+    const rows = await this.query(sql, [organizationId]);
+    return rows.map((row: any) => this.mapRowToMember(row));
+  }
+
+  async countOwners(organizationId: string): Promise<number> {
+    const sql = "SELECT COUNT(*) as count FROM organization_members WHERE organization_id = ? AND role = 'owner'";
+    const row = await this.queryOne(sql, [organizationId]);
+    return Number(row?.count || 0);
+  }
+
+  // Organizations in which the user is the only owner
+  async findSoleOwnedOrganizationIds(userId: string): Promise<string[]> {
+    const sql = `
+      SELECT m.organization_id FROM organization_members m
+      WHERE m.user_id = ? AND m.role = 'owner'
+        AND NOT EXISTS (
+          SELECT 1 FROM organization_members o
+          WHERE o.organization_id = m.organization_id AND o.role = 'owner' AND o.user_id != m.user_id
+        )
+    `;
+    const rows = await this.query(sql, [userId]);
+    return rows.map((row: any) => row.organization_id);
+  }
+
+  async updateRole(organizationId: string, userId: string, role: OrganizationRole): Promise<OrganizationMember | null> {
+    const result = await this.execute(
+      'UPDATE organization_members SET role = ?, updated_at = ? WHERE organization_id = ? AND user_id = ?',
+      [role, new Date().toISOString(), organizationId, userId]
+    );
+
+    if (!(result.changes > 0 || result.rowCount > 0)) return null;
+
+    return this.find(organizationId, userId);
+  }
+
+  async remove(organizationId: string, userId: string): Promise<boolean> {
+    const sql = 'DELETE FROM organization_members WHERE organization_id = ? AND user_id = ?';
+    const result = await this.execute(sql, [organizationId, userId]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  private mapRowToMember(row: any): OrganizationMember {
+    return {
+      organizationId: row.organization_id,
+      userId: row.user_id,
+      role: row.role,
+      email: row.email,
+      firstName: row.first_name,
+      lastName: row.last_name,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { BaseRepository } from './base.repository';
+import { Organization, OrganizationMembership } from '../models/organization.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class OrganizationRepository extends BaseRepository {
+  // The creator becomes the first owner
+  async create(name: string, createdBy: string): Promise<Organization> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    await this.execute(
+      'INSERT INTO organizations (id, name, created_by, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [id, name, createdBy, now, now]
+    );
+    await this.execute(
+      'INSERT INTO organization_members (organization_id, user_id, role, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [id, createdBy, 'owner', now, now]
+    );
+
+    const organization = await this.findById(id);
+    if (!organization) {
+      throw new Error('Failed to create organization');
+    }
+    return organization;
+  }
+
+  async findById(id: string): Promise<Organization | null> {
+    const sql = 'SELECT * FROM organizations WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToOrganization(row);
+  }
+
+  // Organizations the user is a member of, with the user's role
+  async findByUserId(userId: string): Promise<OrganizationMembership[]> {
+    const sql = `
+      SELECT o.*, m.role FROM organizations o
+      JOIN organization_members m ON m.organization_id = o.id
+      WHERE m.user_id = ?
+      ORDER BY o.name ASC
+    `;
+    const rows = await this.query(sql, [userId]);
+    return rows.map((row: any) => ({ ...this.mapRowToOrganization(row), role: row.role }));
+  }
+
+  async rename(id: string, name: string): Promise<Organization | null> {
+    const sql = 'UPDATE organizations SET name = ?, updated_at = ? WHERE id = ?';
+    const result = await this.execute(sql, [name, new Date().toISOString(), id]);
+
+    if (!(result.changes > 0 || result.rowCount > 0)) return null;
+
+    return this.findById(id);
+  }
+
+  // Hands the user's organization analyses and projects to another owner of the organization,
+  // so they outlive the user's account
+  async transferContent(fromUserId: string): Promise<void> {
+    for (const table of ['analyses', 'projects']) {
+      const otherOwner = `
+        SELECT m.user_id FROM organization_members m
+        WHERE m.organization_id = ${table}.organization_id AND m.role = 'owner' AND m.user_id != ?
+        ORDER BY m.created_at ASC
+        LIMIT 1
+      `;
+      await this.execute(
+        `UPDATE ${table} SET user_id = (${otherOwner})
+         WHERE user_id = ? AND organization_id IS NOT NULL AND EXISTS (${otherOwner})`,
+        [fromUserId, fromUserId, fromUserId]
+      );
+    }
+  }
+
+  // Analyses and projects go back to the members who created them (ON DELETE SET NULL)
+  async delete(id: string): Promise<boolean> {
+    const sql = 'DELETE FROM organizations WHERE id = ?';
+    const result = await this.execute(sql, [id]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  private mapRowToOrganization(row: any): Organization {
+    return {
+      id: row.id,
+      name: row.name,
+      createdBy: row.created_by,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import { BaseRepository } from './base.repository';
+import { CreateProjectRequest, Project, ProjectOwner, ProjectStats, UpdateProjectRequest } from '../models/project.model';
+import { hostMatchesDomain } from '../services/url-normalization.service';
+import { v4 as uuidv4 } from 'uuid';
+
+export class ProjectRepository extends BaseRepository {
+  async create(data: CreateProjectRequest, userId: string): Promise<Project> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const sql = `
+      INSERT INTO projects (
+        id, user_id, organization_id, name, description, domains, scrape_options, playbook, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      userId,
+      data.organizationId || null,
+      data.name,
+      data.description || null,
+      JSON.stringify(data.domains),
+      JSON.stringify(data.scrapeOptions || {}),
+      data.playbook || null,
+      now,
+      now,
+    ]);
+
+    const project = await this.findById(id);
+    if (!project) {
+      throw new Error('Failed to create project');
+    }
+    return project;
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    const sql = 'SELECT * FROM projects WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToProject(row);
+  }
+
+  async findByOwner(owner: ProjectOwner): Promise<Project[]> {
+    const [sql, params] = 'organizationId' in owner
+      ? ['SELECT * FROM projects WHERE organization_id = ? ORDER BY name ASC', [owner.organizationId]]
+      : ['SELECT * FROM projects WHERE user_id = ? AND organization_id IS NULL ORDER BY name ASC', [owner.userId]];
+    const rows = await this.query(sql, params);
+    return rows.map((row: any) => this.mapRowToProject(row));
+  }
+
+  // The owner's project whose domains cover the URL, the most specific domain winning
+  async findForUrl(owner: ProjectOwner, url: string): Promise<Project | null> {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname;
+    } catch {
+      return null;
+    }
+
+    let best: { project: Project; length: number } | null = null;
+    for (const project of await this.findByOwner(owner)) {
+      for (const domain of project.domains) {
+        if (hostMatchesDomain(hostname, domain) && (!best || domain.length > best.length)) {
+          best = { project, length: domain.length };
+        }
+      }
+    }
+
+    return best?.project || null;
+  }
+
+  async update(id: string, data: UpdateProjectRequest): Promise<Project | null> {
+    const updates: string[] = [];
+    const params: any[] = [];
+
+    const columns: Array<[keyof UpdateProjectRequest, string, (value: any) => any]> = [
+      ['name', 'name', (value) => value],
+      ['description', 'description', (value) => value],
+      ['domains', 'domains', (value) => JSON.stringify(value)],
+      ['scrapeOptions', 'scrape_options', (value) => JSON.stringify(value)],
+      ['playbook', 'playbook', (value) => value],
+    ];
+
+    for (const [field, column, serialize] of columns) {
+      if (data[field] !== undefined) {
+        updates.push(`${column} = ?`);
+        params.push(serialize(data[field]));
+      }
+    }
+
+    updates.push('updated_at = ?');
+    params.push(new Date().toISOString());
+
+    params.push(id);
+
+    const sql = `UPDATE projects SET ${updates.join(', ')} WHERE id = ?`;
+    const result = await this.execute(sql, params);
+
+    if (!(result.changes > 0 || result.rowCount > 0)) return null;
+
+    return this.findById(id);
+  }
+
+  // Analyses of the project are kept and become unassigned
+  async delete(id: string): Promise<boolean> {
+    await this.execute('UPDATE analyses SET project_id = NULL WHERE project_id = ?', [id]);
+
+    const sql = 'DELETE FROM projects WHERE id = ?';
+    const result = await this.execute(sql, [id]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  async getStats(projectId: string): Promise<ProjectStats> {
+    const counts = await this.queryOne(`
+      SELECT
+        COUNT(*) as total,
+        SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN status = 'processing' THEN 1 ELSE 0 END) as processing,
+        SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END) as completed,
+        SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed
+      FROM analyses
+      WHERE project_id = ?
+    `, [projectId]);
+
+    const pages = await this.query(`
+      SELECT normalized_url, MIN(url) as url, COUNT(*) as analyses, MAX(created_at) as last_analyzed_at
+      FROM analyses
+      WHERE project_id = ?
+      GROUP BY normalized_url
+      ORDER BY last_analyzed_at DESC
+    `, [projectId]);
+
+    // Latest completed analysis of every page
+    const latest = await this.query(`
+      SELECT a.id, a.normalized_url, a.overall_score
+      FROM analyses a
+      WHERE a.project_id = ? AND a.status = 'completed'
+        AND a.created_at = (
+          SELECT MAX(b.created_at) FROM analyses b
+          WHERE b.project_id = a.project_id AND b.normalized_url = a.normalized_url AND b.status = 'completed'
+        )
+    `, [projectId]);
+
+    const latestByPage = new Map<string, any>(latest.map((row: any) => [row.normalized_url, row]));
+    const scores = latest
+      .map((row: any) => row.overall_score)
+      .filter((score: any): score is number => score !== null && score !== undefined);
+
+    return {
+      total: Number(counts?.total || 0),
+      pending: Number(counts?.pending || 0),
+      processing: Number(counts?.processing || 0),
+      completed: Number(counts?.completed || 0),
+      failed: Number(counts?.failed || 0),
+      averageScore: scores.length > 0
+        ? Math.round((scores.reduce((sum: number, score: number) => sum + score, 0) / scores.length) * 10) / 10
+        : null,
+      pages: pages.map((row: any) => ({
+        normalizedUrl: row.normalized_url,
+        url: row.url,
+        analyses: Number(row.analyses),
+        lastAnalyzedAt: new Date(row.last_analyzed_at),
+        latestAnalysisId: latestByPage.get(row.normalized_url)?.id,
+        latestScore: latestByPage.get(row.normalized_url)?.overall_score ?? undefined,
+      })),
+    };
+  }
+
+  private mapRowToProject(row: any): Project {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      organizationId: row.organization_id || undefined,
+      name: row.name,
+      description: row.description || undefined,
+      domains: JSON.parse(row.domains || '[]'),
+      scrapeOptions: JSON.parse(row.scrape_options || '{}'),
+      playbook: row.playbook || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
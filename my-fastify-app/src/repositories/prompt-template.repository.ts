@@ -0,0 +1,141 @@
+import { BaseRepository } from './base.repository';
+import {
+  CreatePromptTemplateRequest,
+  PromptTemplate,
+  PromptTemplateFilters,
+} from '../models/prompt-template.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class PromptTemplateRepository extends BaseRepository {
+  /**
+   * Adds the next version of a playbook. Versions are never edited, so an
+   * analysis can always be traced back to the exact prompt that produced it.
+   */
+  async create(data: CreatePromptTemplateRequest): Promise<PromptTemplate> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const sql = `
+      INSERT INTO prompt_templates (
+        id, playbook, name, description, version, body, variables, is_active,
+        created_by, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    // UNIQUE(playbook, version) guards against two admins saving at once
+    for (let attempt = 1; ; attempt++) {
+      const row = await this.queryOne(
+        'SELECT MAX(version) as version FROM prompt_templates WHERE playbook = ?',
+        [data.playbook]
+      );
+      const version = Number(row?.version || 0) + 1;
+
+      try {
+        await this.execute(sql, [
+          id,
+          data.playbook,
+          data.name,
+          data.description || null,
+          version,
+          data.body,
+          JSON.stringify(data.variables),
+          false,
+          data.createdBy || null,
+          now,
+        ]);
+        break;
+      } catch (error) {
+        if (attempt >= 3) throw error;
+      }
+    }
+
+    if (data.isActive) {
+      await this.activate(id);
+    }
+
+    const template = await this.findById(id);
+    if (!template) {
+      throw new Error('Failed to create prompt template');
+    }
+    return template;
+  }
+
+  async findById(id: string): Promise<PromptTemplate | null> {
+    const sql = 'SELECT * FROM prompt_templates WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToTemplate(row);
+  }
+
+  async findActive(playbook: string): Promise<PromptTemplate | null> {
+    const sql = 'SELECT * FROM prompt_templates WHERE playbook = ? AND is_active = ?';
+    const row = await this.queryOne(sql, [playbook, true]);
+
+    if (!row) return null;
+
+    return this.mapRowToTemplate(row);
+  }
+
+  async find(filters: PromptTemplateFilters = {}): Promise<PromptTemplate[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.playbook) {
+      conditions.push('playbook = ?');
+      params.push(filters.playbook);
+    }
+
+    if (filters.isActive !== undefined) {
+      conditions.push('is_active = ?');
+      params.push(filters.isActive);
+    }
+
+    let sql = 'SELECT * FROM prompt_templates';
+    if (conditions.length > 0) {
+      sql += ` WHERE ${conditions.join(' AND ')}`;
+    }
+
+    sql += ' ORDER BY playbook ASC, version DESC';
+
+    const rows = await this.query(sql, params);
+    return rows.map((row: any) => this.mapRowToTemplate(row));
+  }
+
+  async countByPlaybook(playbook: string): Promise<number> {
+    const row = await this.queryOne('SELECT COUNT(*) as count FROM prompt_templates WHERE playbook = ?', [playbook]);
+    return Number(row?.count || 0);
+  }
+
+  /**
+   * Makes one version the active template of its playbook. A single UPDATE
+   * so there is never a moment with zero or two active versions.
+   */
+  async activate(id: string): Promise<PromptTemplate | null> {
+    const template = await this.findById(id);
+    if (!template) return null;
+
+    await this.execute(
+      'UPDATE prompt_templates SET is_active = (id = ?) WHERE playbook = ?',
+      [id, template.playbook]
+    );
+
+    return this.findById(id);
+  }
+
+  private mapRowToTemplate(row: any): PromptTemplate {
+    return {
+      id: row.id,
+      playbook: row.playbook,
+      name: row.name,
+      description: row.description || undefined,
+      version: Number(row.version),
+      body: row.body,
+      variables: JSON.parse(row.variables || '[]'),
+      isActive: Boolean(row.is_active),
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
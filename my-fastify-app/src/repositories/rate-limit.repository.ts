@@ -0,0 +1,33 @@
+import { BaseRepository } from './base.repository';
+import { RateLimitBucket } from '../models/rate-limit.model';
+
+export class RateLimitRepository extends BaseRepository {
+  async find(key: string): Promise<RateLimitBucket | null> {
+    const row = await this.queryOne('SELECT * FROM rate_limit_buckets WHERE bucket_key = ?', [key]);
+    if (!row) return null;
+
+    return { tokens: Number(row.tokens), updatedAt: Number(row.updated_at) };
+  }
+
+  // Returns false when another request created the bucket first
+  async insert(key: string, bucket: RateLimitBucket): Promise<boolean> {
+    const result = await this.execute(
+      'INSERT INTO rate_limit_buckets (bucket_key, tokens, updated_at) VALUES (?, ?, ?) ON CONFLICT (bucket_key) DO NOTHING',
+      [key, bucket.tokens, bucket.updatedAt]
+    );
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  // Compare-and-set on updated_at; returns false when another request changed the bucket in between
+  async replace(key: string, previous: RateLimitBucket, bucket: RateLimitBucket): Promise<boolean> {
+    const result = await this.execute(
+      'UPDATE rate_limit_buckets SET tokens = ?, updated_at = ? WHERE bucket_key = ? AND updated_at = ?',
+      [bucket.tokens, bucket.updatedAt, key, previous.updatedAt]
+    );
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  async deleteIdle(before: number): Promise<void> {
+    await this.execute('DELETE FROM rate_limit_buckets WHERE updated_at < ?', [before]);
+  }
+}
@@ -0,0 +1,44 @@
+import { BaseRepository } from './base.repository';
+import { RefreshToken } from '../models/session.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class RefreshTokenRepository extends BaseRepository {
+  async create(sessionId: string, tokenHash: string): Promise<RefreshToken> {
+    const id = uuidv4();
+    const now = new Date();
+
+    await this.execute(
+      'INSERT INTO refresh_tokens (id, session_id, token_hash, created_at) VALUES (?, ?, ?, ?)',
+      [id, sessionId, tokenHash, now.toISOString()]
+    );
+
+    return { id, sessionId, createdAt: now };
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<RefreshToken | null> {
+    const sql = 'SELECT * FROM refresh_tokens WHERE token_hash = ?';
+    const row = await this.queryOne(sql, [tokenHash]);
+
+    if (!row) return null;
+
+    return this.mapRowToRefreshToken(row);
+  }
+
+  // Guarded on used_at so a token can only be exchanged once
+  async markUsed(id: string): Promise<boolean> {
+    const result = await this.execute(
+      'UPDATE refresh_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  private mapRowToRefreshToken(row: any): RefreshToken {
+    return {
+      id: row.id,
+      sessionId: row.session_id,
+      createdAt: new Date(row.created_at),
+      usedAt: row.used_at ? new Date(row.used_at) : undefined,
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { BaseRepository } from './base.repository';
+import { CreateScheduleAlertRequest, ScheduleAlert } from '../models/schedule.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class ScheduleAlertRepository extends BaseRepository {
+  async create(data: CreateScheduleAlertRequest): Promise<ScheduleAlert> {
+    const id = uuidv4();
+    const now = new Date();
+
+    const sql = `
+      INSERT INTO schedule_alerts (
+        id, schedule_id, user_id, type, message, analysis_id, base_analysis_id, details, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      data.scheduleId,
+      data.userId,
+      data.type,
+      data.message,
+      data.analysisId || null,
+      data.baseAnalysisId || null,
+      JSON.stringify(data.details || {}),
+      now.toISOString(),
+    ]);
+
+    return {
+      id,
+      scheduleId: data.scheduleId,
+      userId: data.userId,
+      type: data.type,
+      message: data.message,
+      analysisId: data.analysisId,
+      baseAnalysisId: data.baseAnalysisId,
+      details: data.details || {},
+      createdAt: now,
+    };
+  }
+
+  async findByScheduleId(scheduleId: string, limit: number = 50, offset: number = 0): Promise<ScheduleAlert[]> {
+    const sql = 'SELECT * FROM schedule_alerts WHERE schedule_id = ? ORDER BY created_at DESC LIMIT ? OFFSET ?';
+    const rows = await this.query(sql, [scheduleId, limit, offset]);
+    return rows.map((row: any) => this.mapRowToAlert(row));
+  }
+
+  private mapRowToAlert(row: any): ScheduleAlert {
+    return {
+      id: row.id,
+      scheduleId: row.schedule_id,
+      userId: row.user_id,
+      type: row.type,
+      message: row.message,
+      analysisId: row.analysis_id || undefined,
+      baseAnalysisId: row.base_analysis_id || undefined,
+      details: JSON.parse(row.details || '{}'),
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import { BaseRepository } from './base.repository';
+import { CreateScheduleRequest, Schedule, UpdateScheduleRequest } from '../models/schedule.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class ScheduleRepository extends BaseRepository {
+  async create(data: CreateScheduleRequest, userId: string): Promise<Schedule> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const sql = `
+      INSERT INTO schedules (
+        id, user_id, url, frequency, cron_expression, timezone, devices, scrape_options,
+        playbook, score_drop_threshold, content_change_threshold, enabled, next_run_at,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      userId,
+      data.url,
+      data.frequency,
+      data.cronExpression,
+      data.timezone,
+      JSON.stringify(data.devices),
+      JSON.stringify(data.scrapeOptions),
+      data.playbook,
+      data.scoreDropThreshold,
+      data.contentChangeThreshold,
+      data.enabled,
+      data.nextRunAt.toISOString(),
+      now,
+      now,
+    ]);
+
+    const schedule = await this.findById(id);
+    if (!schedule) {
+      throw new Error('Failed to create schedule');
+    }
+    return schedule;
+  }
+
+  async findById(id: string): Promise<Schedule | null> {
+    const sql = 'SELECT * FROM schedules WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToSchedule(row);
+  }
+
+  async findByUserId(userId: string): Promise<Schedule[]> {
+    const sql = 'SELECT * FROM schedules WHERE user_id = ? ORDER BY created_at DESC';
+    const rows = await this.query(sql, [userId]);
+    return rows.map((row: any) => this.mapRowToSchedule(row));
+  }
+
+  // Enabled schedules whose next run is due, including runs missed while the service was down
+  async findDue(now: Date, limit: number = 50): Promise<Schedule[]> {
+    const sql = `
+      SELECT * FROM schedules
+      WHERE enabled = ? AND next_run_at <= ?
+      ORDER BY next_run_at ASC
+      LIMIT ?
+    `;
+    const rows = await this.query(sql, [true, now.toISOString(), limit]);
+    return rows.map((row: any) => this.mapRowToSchedule(row));
+  }
+
+  /**
+   * Moves a due schedule to its next run. The guard on the current
+   * next_run_at makes sure only one scheduler instance starts the run.
+   */
+  async claimRun(id: string, dueAt: Date, nextRunAt: Date): Promise<boolean> {
+    const now = new Date().toISOString();
+    const result = await this.execute(
+      `UPDATE schedules
+       SET next_run_at = ?, last_run_at = ?, updated_at = ?
+       WHERE id = ? AND next_run_at = ? AND enabled = ?`,
+      [nextRunAt.toISOString(), now, now, id, dueAt.toISOString(), true]
+    );
+
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  async update(id: string, data: UpdateScheduleRequest): Promise<Schedule | null> {
+    const updates: string[] = [];
+    const params: any[] = [];
+
+    const columns: Array<[keyof UpdateScheduleRequest, string, (value: any) => any]> = [
+      ['frequency', 'frequency', (value) => value],
+      ['cronExpression', 'cron_expression', (value) => value],
+      ['timezone', 'timezone', (value) => value],
+      ['devices', 'devices', (value) => JSON.stringify(value)],
+      ['scrapeOptions', 'scrape_options', (value) => JSON.stringify(value)],
+      ['playbook', 'playbook', (value) => value],
+      ['scoreDropThreshold', 'score_drop_threshold', (value) => value],
+      ['contentChangeThreshold', 'content_change_threshold', (value) => value],
+      ['enabled', 'enabled', (value) => value],
+      ['nextRunAt', 'next_run_at', (value: Date) => value.toISOString()],
+      ['lastRunAt', 'last_run_at', (value: Date) => value.toISOString()],
+      ['lastAnalysisId', 'last_analysis_id', (value) => value],
+      ['lastCompletedAnalysisId', 'last_completed_analysis_id', (value) => value],
+      ['lastError', 'last_error', (value) => value],
+    ];
+
+    for (const [field, column, serialize] of columns) {
+      if (data[field] !== undefined) {
+        updates.push(`${column} = ?`);
+        params.push(serialize(data[field]));
+      }
+    }
+
+    updates.push('updated_at = ?');
+    params.push(new Date().toISOString());
+
+    params.push(id);
+
+    const sql = `UPDATE schedules SET ${updates.join(', ')} WHERE id = ?`;
+    const result = await this.execute(sql, params);
+
+    if (!(result.changes > 0 || result.rowCount > 0)) return null;
+
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const sql = 'DELETE FROM schedules WHERE id = ?';
+    const result = await this.execute(sql, [id]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  private mapRowToSchedule(row: any): Schedule {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      url: row.url,
+      frequency: row.frequency,
+      cronExpression: row.cron_expression,
+      timezone: row.timezone,
+      devices: JSON.parse(row.devices || '[]'),
+      scrapeOptions: JSON.parse(row.scrape_options || '{}'),
+      playbook: row.playbook,
+      scoreDropThreshold: Number(row.score_drop_threshold),
+      contentChangeThreshold: Number(row.content_change_threshold),
+      enabled: Boolean(row.enabled),
+      nextRunAt: new Date(row.next_run_at),
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+      lastAnalysisId: row.last_analysis_id || undefined,
+      lastCompletedAnalysisId: row.last_completed_analysis_id || undefined,
+      lastError: row.last_error || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
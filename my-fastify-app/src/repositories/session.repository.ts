@@ -0,0 +1,103 @@
+import { BaseRepository } from './base.repository';
+import { CreateSessionRequest, Session, SessionClient, SessionRevocationReason } from '../models/session.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class SessionRepository extends BaseRepository {
+  async create(data: CreateSessionRequest): Promise<Session> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const sql = `
+      INSERT INTO sessions (
+        id, user_id, user_agent, ip_address, created_at, last_used_at, expires_at, impersonated_by
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      data.userId,
+      data.userAgent || null,
+      data.ipAddress || null,
+      now,
+      now,
+      data.expiresAt.toISOString(),
+      data.impersonatedBy || null,
+    ]);
+
+    const session = await this.findById(id);
+    if (!session) {
+      throw new Error('Failed to create session');
+    }
+    return session;
+  }
+
+  async findById(id: string): Promise<Session | null> {
+    const sql = 'SELECT * FROM sessions WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToSession(row);
+  }
+
+  // Sessions that were neither revoked nor expired, most recently used first
+  async findActiveByUserId(userId: string): Promise<Session[]> {
+    const sql = `
+      SELECT * FROM sessions
+      WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+      ORDER BY last_used_at DESC
+    `;
+    const rows = await this.query(sql, [userId, new Date().toISOString()]);
+    return rows.map((row: any) => this.mapRowToSession(row));
+  }
+
+  // Records a refresh and extends the session
+  async touch(id: string, expiresAt: Date, client: SessionClient): Promise<void> {
+    await this.execute(
+      `UPDATE sessions SET last_used_at = ?, expires_at = ?,
+        user_agent = COALESCE(?, user_agent), ip_address = COALESCE(?, ip_address)
+      WHERE id = ?`,
+      [new Date().toISOString(), expiresAt.toISOString(), client.userAgent || null, client.ipAddress || null, id]
+    );
+  }
+
+  async revoke(id: string, reason: SessionRevocationReason): Promise<boolean> {
+    const result = await this.execute(
+      'UPDATE sessions SET revoked_at = ?, revoked_reason = ? WHERE id = ? AND revoked_at IS NULL',
+      [new Date().toISOString(), reason, id]
+    );
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  // Revokes every active session of the user, optionally keeping one
+  async revokeAllForUser(userId: string, reason: SessionRevocationReason, exceptSessionId?: string): Promise<number> {
+    const result = await this.execute(
+      'UPDATE sessions SET revoked_at = ?, revoked_reason = ? WHERE user_id = ? AND revoked_at IS NULL AND id != ?',
+      [new Date().toISOString(), reason, userId, exceptSessionId || '']
+    );
+    return result.changes || result.rowCount || 0;
+  }
+
+  // Revoked and expired sessions can no longer be used and only take up space
+  async deleteInactive(userId: string): Promise<void> {
+    await this.execute(
+      'DELETE FROM sessions WHERE user_id = ? AND (revoked_at IS NOT NULL OR expires_at <= ?)',
+      [userId, new Date().toISOString()]
+    );
+  }
+
+  private mapRowToSession(row: any): Session {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      userAgent: row.user_agent || undefined,
+      ipAddress: row.ip_address || undefined,
+      createdAt: new Date(row.created_at),
+      lastUsedAt: new Date(row.last_used_at),
+      expiresAt: new Date(row.expires_at),
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      revokedReason: row.revoked_reason || undefined,
+      impersonatedBy: row.impersonated_by || undefined,
+    };
+  }
+}
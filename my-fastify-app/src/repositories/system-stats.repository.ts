@@ -0,0 +1,64 @@
+import { BaseRepository } from './base.repository';
+import { SystemStats } from '../models/system-stats.model';
+
+export class SystemStatsRepository extends BaseRepository {
+  async getStats(periodStart: Date, periodEnd: Date): Promise<SystemStats> {
+    const now = new Date().toISOString();
+
+    const users = await this.queryOne(`
+      SELECT
+        COUNT(*) as total,
+        SUM(CASE WHEN is_active = ? THEN 1 ELSE 0 END) as active,
+        SUM(CASE WHEN role = 'admin' THEN 1 ELSE 0 END) as admins,
+        SUM(CASE WHEN email_verified_at IS NOT NULL THEN 1 ELSE 0 END) as verified,
+        SUM(CASE WHEN locked_until > ? THEN 1 ELSE 0 END) as locked
+      FROM users
+    `, [true, now]);
+
+    const usage = await this.queryOne(`
+      SELECT
+        COUNT(*) as calls,
+        SUM(prompt_tokens) as prompt_tokens,
+        SUM(completion_tokens) as completion_tokens,
+        SUM(total_tokens) as total_tokens,
+        SUM(cost_usd) as cost_usd
+      FROM llm_usage
+      WHERE created_at >= ? AND created_at < ?
+    `, [periodStart.toISOString(), periodEnd.toISOString()]);
+
+    return {
+      users: {
+        total: Number(users?.total || 0),
+        active: Number(users?.active || 0),
+        admins: Number(users?.admins || 0),
+        verified: Number(users?.verified || 0),
+        locked: Number(users?.locked || 0),
+      },
+      analyses: await this.countByStatus('analyses'),
+      jobs: await this.countByStatus('analysis_jobs'),
+      batches: await this.countByStatus('batches'),
+      organizations: await this.count('organizations'),
+      projects: await this.count('projects'),
+      schedules: await this.count('schedules'),
+      usage: {
+        periodStart,
+        periodEnd,
+        calls: Number(usage?.calls || 0),
+        promptTokens: Number(usage?.prompt_tokens || 0),
+        completionTokens: Number(usage?.completion_tokens || 0),
+        totalTokens: Number(usage?.total_tokens || 0),
+        costUsd: Number(usage?.cost_usd || 0),
+      },
+    };
+  }
+
+  private async count(table: string): Promise<number> {
+    const row = await this.queryOne(`SELECT COUNT(*) as count FROM ${table}`);
+    return Number(row?.count || 0);
+  }
+
+  private async countByStatus(table: string): Promise<Record<string, number>> {
+    const rows = await this.query(`SELECT status, COUNT(*) as count FROM ${table} GROUP BY status`);
+    return Object.fromEntries(rows.map((row: any) => [row.status, Number(row.count)]));
+  }
+}
@@ -0,0 +1,125 @@
+import { BaseRepository } from './base.repository';
+import {
+  CreateUsageRequest,
+  LLMUsageRecord,
+  UsageByModel,
+  UsageTotals,
+} from '../models/usage.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class UsageRepository extends BaseRepository {
+  async create(data: CreateUsageRequest): Promise<LLMUsageRecord> {
+    const id = uuidv4();
+    const now = new Date();
+
+    const sql = `
+      INSERT INTO llm_usage (
+        id, user_id, analysis_id, provider, model, purpose, prompt_tokens,
+        completion_tokens, total_tokens, cost_usd, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      data.userId,
+      data.analysisId || null,
+      data.provider,
+      data.model,
+      data.purpose,
+      data.promptTokens,
+      data.completionTokens,
+      data.totalTokens,
+      data.costUsd,
+      now.toISOString(),
+    ]);
+
+    return { id, ...data, createdAt: now };
+  }
+
+  /**
+   * Adds an analysis to the user's ledger of started analyses, which quotas
+   * count. Rows outlive the analysis, so deleting it does not return quota.
+   */
+  async recordAnalysis(userId: string, analysisId: string): Promise<void> {
+    const sql = 'INSERT INTO analysis_usage (id, user_id, analysis_id, created_at) VALUES (?, ?, ?, ?)';
+    await this.execute(sql, [uuidv4(), userId, analysisId, new Date().toISOString()]);
+  }
+
+  async countAnalyses(userId: string, from: Date, to: Date): Promise<number> {
+    const sql = 'SELECT COUNT(*) as count FROM analysis_usage WHERE user_id = ? AND created_at >= ? AND created_at < ?';
+    const row = await this.queryOne(sql, [userId, from.toISOString(), to.toISOString()]);
+    return Number(row?.count || 0);
+  }
+
+  async findByAnalysisId(analysisId: string): Promise<LLMUsageRecord[]> {
+    const sql = 'SELECT * FROM llm_usage WHERE analysis_id = ? ORDER BY created_at ASC';
+    const rows = await this.query(sql, [analysisId]);
+    return rows.map((row: any) => this.mapRowToRecord(row));
+  }
+
+  async getTotals(userId: string, from: Date, to: Date): Promise<UsageTotals> {
+    const sql = `
+      SELECT
+        COUNT(*) as calls,
+        SUM(prompt_tokens) as prompt_tokens,
+        SUM(completion_tokens) as completion_tokens,
+        SUM(total_tokens) as total_tokens,
+        SUM(cost_usd) as cost_usd
+      FROM llm_usage
+      WHERE user_id = ? AND created_at >= ? AND created_at < ?
+    `;
+
+    const row = await this.queryOne(sql, [userId, from.toISOString(), to.toISOString()]);
+    return this.mapRowToTotals(row || {});
+  }
+
+  async getTotalsByModel(userId: string, from: Date, to: Date): Promise<UsageByModel[]> {
+    const sql = `
+      SELECT
+        provider,
+        model,
+        COUNT(*) as calls,
+        SUM(prompt_tokens) as prompt_tokens,
+        SUM(completion_tokens) as completion_tokens,
+        SUM(total_tokens) as total_tokens,
+        SUM(cost_usd) as cost_usd
+      FROM llm_usage
+      WHERE user_id = ? AND created_at >= ? AND created_at < ?
+      GROUP BY provider, model
+      ORDER BY cost_usd DESC
+    `;
+
+    const rows = await this.query(sql, [userId, from.toISOString(), to.toISOString()]);
+    return rows.map((row: any) => ({
+      provider: row.provider,
+      model: row.model,
+      ...this.mapRowToTotals(row),
+    }));
+  }
+
+  private mapRowToTotals(row: any): UsageTotals {
+    return {
+      calls: Number(row.calls || 0),
+      promptTokens: Number(row.prompt_tokens || 0),
+      completionTokens: Number(row.completion_tokens || 0),
+      totalTokens: Number(row.total_tokens || 0),
+      costUsd: Number(row.cost_usd || 0),
+    };
+  }
+
+  private mapRowToRecord(row: any): LLMUsageRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      analysisId: row.analysis_id || undefined,
+      provider: row.provider,
+      model: row.model,
+      purpose: row.purpose,
+      promptTokens: Number(row.prompt_tokens),
+      completionTokens: Number(row.completion_tokens),
+      totalTokens: Number(row.total_tokens),
+      costUsd: Number(row.cost_usd),
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import { BaseRepository } from './base.repository';
+import { UserToken, UserTokenPurpose } from '../models/user-token.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class UserTokenRepository extends BaseRepository {
+  async create(userId: string, purpose: UserTokenPurpose, tokenHash: string, expiresAt: Date): Promise<UserToken> {
+    const id = uuidv4();
+    const now = new Date();
+
+    await this.execute(
+      'INSERT INTO user_tokens (id, user_id, purpose, token_hash, expires_at, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, userId, purpose, tokenHash, expiresAt.toISOString(), now.toISOString()]
+    );
+
+    return { id, userId, purpose, expiresAt, createdAt: now };
+  }
+
+  async findByTokenHash(tokenHash: string, purpose: UserTokenPurpose): Promise<UserToken | null> {
+    const sql = 'SELECT * FROM user_tokens WHERE token_hash = ? AND purpose = ?';
+    const row = await this.queryOne(sql, [tokenHash, purpose]);
+
+    if (!row) return null;
+
+    return this.mapRowToUserToken(row);
+  }
+
+  // Guarded on used_at so a token can only be used once
+  async markUsed(id: string): Promise<boolean> {
+    const result = await this.execute(
+      'UPDATE user_tokens SET used_at = ? WHERE id = ? AND used_at IS NULL',
+      [new Date().toISOString(), id]
+    );
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  // Issuing a new token invalidates the ones sent before it
+  async deleteUnused(userId: string, purpose: UserTokenPurpose): Promise<void> {
+    await this.execute(
+      'DELETE FROM user_tokens WHERE user_id = ? AND purpose = ? AND used_at IS NULL',
+      [userId, purpose]
+    );
+  }
+
+  private mapRowToUserToken(row: any): UserToken {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      purpose: row.purpose,
+      expiresAt: new Date(row.expires_at),
+      usedAt: row.used_at ? new Date(row.used_at) : undefined,
+      createdAt: new Date(row.created_at),
+    };
+  }
+}
@@ -5,9 +5,14 @@ import {
   UpdateUserRequest,
   UserFilters,
 } from '../models/user.model';
+import { ScrapeOptions } from '../../types/cro.types';
+import { UsageQuota } from '../config/usage.config';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcryptjs';
 
+// Compared against when there is no user, with the same cost as real hashes
+const DUMMY_PASSWORD_HASH = '$2a$12$znD6dFyRurz0H9x3nSDzS.3Gu7MFMpnhLjrVTIh77iOInqxeIF036';
+
 export class UserRepository extends BaseRepository {
   async create(data: CreateUserRequest): Promise<User> {
     const id = uuidv4();
@@ -53,6 +58,16 @@ export class UserRepository extends BaseRepository {
     return this.mapRowToUser(row);
   }
 
+  /**
+   * Locks the user's row until the surrounding transaction ends, so checks
+   * against the user's totals run one at a time. SQLite transactions already
+   * run one at a time, so there is nothing to lock there.
+   */
+  async lockForUpdate(id: string): Promise<void> {
+    if (this.config.type === 'sqlite') return;
+    await this.queryOne('SELECT id FROM users WHERE id = ? FOR UPDATE', [id]);
+  }
+
   async findByEmail(email: string): Promise<User | null> {
     const sql = 'SELECT * FROM users WHERE email = ?';
     const row = await this.queryOne(sql, [email.toLowerCase()]);
@@ -100,11 +115,36 @@ export class UserRepository extends BaseRepository {
     return this.findById(id);
   }
 
+  async markEmailVerified(id: string): Promise<void> {
+    const now = new Date().toISOString();
+    const sql = 'UPDATE users SET email_verified_at = COALESCE(email_verified_at, ?), updated_at = ? WHERE id = ?';
+    await this.execute(sql, [now, now, id]);
+  }
+
+  // Also clears failed login attempts
   async updateLastLogin(id: string): Promise<void> {
-    const sql = 'UPDATE users SET last_login_at = ? WHERE id = ?';
+    const sql = 'UPDATE users SET last_login_at = ?, failed_login_attempts = 0, locked_until = NULL WHERE id = ?';
     await this.execute(sql, [new Date().toISOString(), id]);
   }
 
+  // Counts a failed login and returns the new count
+  async recordFailedLogin(id: string): Promise<number> {
+    await this.execute('UPDATE users SET failed_login_attempts = failed_login_attempts + 1 WHERE id = ?', [id]);
+    const row = await this.queryOne('SELECT failed_login_attempts FROM users WHERE id = ?', [id]);
+    return Number(row?.failed_login_attempts || 0);
+  }
+
+  // Locks the account and starts counting failed attempts anew
+  async lock(id: string, until: Date): Promise<void> {
+    const sql = 'UPDATE users SET locked_until = ?, failed_login_attempts = 0 WHERE id = ?';
+    await this.execute(sql, [until.toISOString(), id]);
+  }
+
+  async unlock(id: string): Promise<void> {
+    const sql = 'UPDATE users SET locked_until = NULL, failed_login_attempts = 0 WHERE id = ?';
+    await this.execute(sql, [id]);
+  }
+
   async changePassword(id: string, newPassword: string): Promise<boolean> {
     const saltRounds = 12;
     const hashedPassword = await bcrypt.hash(newPassword, saltRounds);
@@ -162,8 +202,34 @@ export class UserRepository extends BaseRepository {
     return result.changes > 0 || result.rowCount > 0;
   }
 
-  async verifyPassword(user: User, password: string): Promise<boolean> {
-    return bcrypt.compare(password, user.password);
+  async updateScrapeDefaults(id: string, defaults: ScrapeOptions): Promise<User | null> {
+    const sql = 'UPDATE users SET scrape_defaults = ?, updated_at = ? WHERE id = ?';
+    const result = await this.execute(sql, [
+      JSON.stringify(defaults),
+      new Date().toISOString(),
+      id
+    ]);
+
+    if (!(result.changes > 0 || result.rowCount > 0)) return null;
+    return this.findById(id);
+  }
+
+  async updateQuotaOverrides(id: string, overrides: Partial<UsageQuota>): Promise<User | null> {
+    const sql = 'UPDATE users SET quota_overrides = ?, updated_at = ? WHERE id = ?';
+    const result = await this.execute(sql, [
+      Object.keys(overrides).length > 0 ? JSON.stringify(overrides) : null,
+      new Date().toISOString(),
+      id
+    ]);
+
+    if (!(result.changes > 0 || result.rowCount > 0)) return null;
+    return this.findById(id);
+  }
+
+  // Takes as long without a user as with one, so callers do not reveal which emails exist
+  async verifyPassword(user: User | null, password: string): Promise<boolean> {
+    const matches = await bcrypt.compare(password, user?.password ?? DUMMY_PASSWORD_HASH);
+    return Boolean(user) && matches;
   }
 
   private mapRowToUser(row: any): User {
@@ -175,6 +241,11 @@ export class UserRepository extends BaseRepository {
       lastName: row.last_name,
       role: row.role,
       isActive: Boolean(row.is_active),
+      scrapeDefaults: row.scrape_defaults ? JSON.parse(row.scrape_defaults) : undefined,
+      quotaOverrides: row.quota_overrides ? JSON.parse(row.quota_overrides) : undefined,
+      emailVerifiedAt: row.email_verified_at ? new Date(row.email_verified_at) : undefined,
+      failedLoginAttempts: Number(row.failed_login_attempts || 0),
+      lockedUntil: row.locked_until ? new Date(row.locked_until) : undefined,
       lastLoginAt: row.last_login_at ? new Date(row.last_login_at) : undefined,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
@@ -0,0 +1,181 @@
+import { BaseRepository } from './base.repository';
+import {
+  CreateWebhookDeliveryRequest,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+} from '../models/webhook.model';
+import { v4 as uuidv4 } from 'uuid';
+
+// Response bodies are only kept for debugging, so long ones are cut off
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+export class WebhookDeliveryRepository extends BaseRepository {
+  async create(data: CreateWebhookDeliveryRequest): Promise<WebhookDelivery> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const sql = `
+      INSERT INTO webhook_deliveries (
+        id, webhook_id, event, payload, status, attempts, max_attempts, next_attempt_at,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      data.webhookId,
+      data.event,
+      JSON.stringify(data.payload),
+      'pending',
+      0, // attempts
+      data.maxAttempts,
+      now,
+      now,
+      now,
+    ]);
+
+    const delivery = await this.findById(id);
+    if (!delivery) {
+      throw new Error('Failed to create webhook delivery');
+    }
+    return delivery;
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    const sql = 'SELECT * FROM webhook_deliveries WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToDelivery(row);
+  }
+
+  async findByWebhookId(
+    webhookId: string,
+    filters: { status?: WebhookDeliveryStatus; limit?: number; offset?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    const params: any[] = [webhookId];
+    let sql = 'SELECT * FROM webhook_deliveries WHERE webhook_id = ?';
+
+    if (filters.status) {
+      sql += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+    params.push(filters.limit || 50, filters.offset || 0);
+
+    const rows = await this.query(sql, params);
+    return rows.map((row: any) => this.mapRowToDelivery(row));
+  }
+
+  async findByStatus(status: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    const sql = 'SELECT * FROM webhook_deliveries WHERE status = ? ORDER BY next_attempt_at ASC';
+    const rows = await this.query(sql, [status]);
+    return rows.map((row: any) => this.mapRowToDelivery(row));
+  }
+
+  /**
+   * Claims the oldest due delivery. Like job claiming, the status guard on
+   * the UPDATE keeps two workers from sending the same delivery.
+   */
+  async claimNext(): Promise<WebhookDelivery | null> {
+    const now = new Date().toISOString();
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const candidate = await this.queryOne(
+        `SELECT id FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC LIMIT 1`,
+        [now]
+      );
+
+      if (!candidate) return null;
+
+      const result = await this.execute(
+        `UPDATE webhook_deliveries
+         SET status = 'sending', attempts = attempts + 1, updated_at = ?
+         WHERE id = ? AND status = 'pending'`,
+        [now, candidate.id]
+      );
+
+      if (result.changes > 0 || result.rowCount > 0) {
+        return this.findById(candidate.id);
+      }
+    }
+
+    return null;
+  }
+
+  async recordAttempt(
+    id: string,
+    status: WebhookDeliveryStatus,
+    attempt: WebhookDeliveryAttempt,
+    nextAttemptAt?: Date
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const sql = `
+      UPDATE webhook_deliveries
+      SET status = ?, response_status = ?, response_body = ?, duration_ms = ?, last_error = ?,
+        next_attempt_at = COALESCE(?, next_attempt_at), delivered_at = ?, updated_at = ?
+      WHERE id = ?
+    `;
+
+    await this.execute(sql, [
+      status,
+      attempt.responseStatus ?? null,
+      attempt.responseBody ? attempt.responseBody.slice(0, MAX_RESPONSE_BODY_LENGTH) : null,
+      attempt.durationMs,
+      attempt.error || null,
+      nextAttemptAt ? nextAttemptAt.toISOString() : null,
+      status === 'succeeded' ? now : null,
+      now,
+      id,
+    ]);
+  }
+
+  /**
+   * Returns a delivery left in 'sending' (e.g. by a crash) to the queue
+   * without counting the interrupted attempt.
+   */
+  async requeue(id: string): Promise<void> {
+    const now = new Date().toISOString();
+    const sql = `
+      UPDATE webhook_deliveries
+      SET status = 'pending', attempts = CASE WHEN attempts > 0 THEN attempts - 1 ELSE 0 END,
+        next_attempt_at = ?, updated_at = ?
+      WHERE id = ? AND status = 'sending'
+    `;
+    await this.execute(sql, [now, now, id]);
+  }
+
+  // Sends a finished delivery again with a fresh set of attempts
+  async redeliver(id: string): Promise<void> {
+    const now = new Date().toISOString();
+    const sql = `
+      UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = ?, updated_at = ?
+      WHERE id = ? AND status IN ('succeeded', 'failed')
+    `;
+    await this.execute(sql, [now, now, id]);
+  }
+
+  private mapRowToDelivery(row: any): WebhookDelivery {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      event: row.event,
+      payload: JSON.parse(row.payload),
+      status: row.status,
+      attempts: Number(row.attempts),
+      maxAttempts: Number(row.max_attempts),
+      nextAttemptAt: new Date(row.next_attempt_at),
+      responseStatus: row.response_status !== null && row.response_status !== undefined ? Number(row.response_status) : undefined,
+      responseBody: row.response_body || undefined,
+      durationMs: row.duration_ms !== null && row.duration_ms !== undefined ? Number(row.duration_ms) : undefined,
+      lastError: row.last_error || undefined,
+      deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { BaseRepository } from './base.repository';
+import { CreateWebhookRequest, UpdateWebhookRequest, Webhook, WebhookEventType } from '../models/webhook.model';
+import { v4 as uuidv4 } from 'uuid';
+
+export class WebhookRepository extends BaseRepository {
+  async create(data: CreateWebhookRequest, userId: string): Promise<Webhook> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+
+    const sql = `
+      INSERT INTO webhooks (
+        id, user_id, url, description, events, secret, enabled, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.execute(sql, [
+      id,
+      userId,
+      data.url,
+      data.description || null,
+      JSON.stringify(data.events),
+      data.secret,
+      data.enabled,
+      now,
+      now,
+    ]);
+
+    const webhook = await this.findById(id);
+    if (!webhook) {
+      throw new Error('Failed to create webhook');
+    }
+    return webhook;
+  }
+
+  async findById(id: string): Promise<Webhook | null> {
+    const sql = 'SELECT * FROM webhooks WHERE id = ?';
+    const row = await this.queryOne(sql, [id]);
+
+    if (!row) return null;
+
+    return this.mapRowToWebhook(row);
+  }
+
+  async findByUserId(userId: string): Promise<Webhook[]> {
+    const sql = 'SELECT * FROM webhooks WHERE user_id = ? ORDER BY created_at DESC';
+    const rows = await this.query(sql, [userId]);
+    return rows.map((row: any) => this.mapRowToWebhook(row));
+  }
+
+  async findSubscribed(userId: string, event: WebhookEventType): Promise<Webhook[]> {
+    const sql = 'SELECT * FROM webhooks WHERE user_id = ? AND enabled = ?';
+    const rows = await this.query(sql, [userId, true]);
+    return rows
+      .map((row: any) => this.mapRowToWebhook(row))
+      .filter((webhook: Webhook) => webhook.events.includes(event));
+  }
+
+  async update(id: string, data: UpdateWebhookRequest): Promise<Webhook | null> {
+    const updates: string[] = [];
+    const params: any[] = [];
+
+    if (data.url !== undefined) {
+      updates.push('url = ?');
+      params.push(data.url);
+    }
+
+    if (data.description !== undefined) {
+      updates.push('description = ?');
+      params.push(data.description);
+    }
+
+    if (data.events !== undefined) {
+      updates.push('events = ?');
+      params.push(JSON.stringify(data.events));
+    }
+
+    if (data.secret !== undefined) {
+      updates.push('secret = ?');
+      params.push(data.secret);
+    }
+
+    if (data.enabled !== undefined) {
+      updates.push('enabled = ?');
+      params.push(data.enabled);
+    }
+
+    updates.push('updated_at = ?');
+    params.push(new Date().toISOString());
+
+    params.push(id);
+
+    const sql = `UPDATE webhooks SET ${updates.join(', ')} WHERE id = ?`;
+    const result = await this.execute(sql, params);
+
+    if (!(result.changes > 0 || result.rowCount > 0)) return null;
+
+    return this.findById(id);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const sql = 'DELETE FROM webhooks WHERE id = ?';
+    const result = await this.execute(sql, [id]);
+    return result.changes > 0 || result.rowCount > 0;
+  }
+
+  private mapRowToWebhook(row: any): Webhook {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      url: row.url,
+      description: row.description || undefined,
+      events: JSON.parse(row.events || '[]'),
+      secret: row.secret,
+      enabled: Boolean(row.enabled),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+}
@@ -0,0 +1,334 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { User } from '../models/user.model';
+import { auditActor } from '../plugins/audit.plugin';
+import { analysisArtifactPrefix } from '../providers/storage/artifact-store';
+import { auditChanges, auditEventsToCsv } from '../services/audit.service';
+import { validateAdminUserUpdate } from '../validators/admin-user.validator';
+import { validateAuditQuery } from '../validators/audit.validator';
+
+// User management and system-wide views; every route requires an admin
+export default async function adminRoutes(fastify: FastifyInstance) {
+  fastify.addHook('onRequest', fastify.requireAdmin);
+
+  // Loads the user named in the route, replying with 404 if there is none
+  const loadUser = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const user = await fastify.db.getUserRepository().findById(id);
+
+    if (!user) {
+      reply.code(404).send({ error: 'User not found' });
+      return null;
+    }
+
+    return user;
+  };
+
+  // Everything but the password hash
+  const toAdminUser = (user: User) => ({
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    isActive: user.isActive,
+    emailVerified: Boolean(user.emailVerifiedAt),
+    lockedUntil: user.lockedUntil && user.lockedUntil > new Date() ? user.lockedUntil : undefined,
+    failedLoginAttempts: user.failedLoginAttempts,
+    quotaOverrides: user.quotaOverrides,
+    lastLoginAt: user.lastLoginAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  });
+
+  // A user with their usage this billing period and number of signed-in sessions
+  fastify.get('/users/:id', async (request, reply) => {
+    try {
+      const user = await loadUser(request, reply);
+      if (!user) {
+        return reply;
+      }
+
+      const sessions = await fastify.db.getSessionRepository().findActiveByUserId(user.id);
+      return reply.send({
+        ...toAdminUser(user),
+        activeSessions: sessions.length,
+        usage: await fastify.usage.getUsageSummary(user.id),
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve user',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Change name, role or active state; deactivating signs the user out everywhere
+  fastify.put('/users/:id', async (request, reply) => {
+    const validation = validateAdminUserUpdate(request.body);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid user', details: validation.errors });
+    }
+
+    try {
+      const user = await loadUser(request, reply);
+      if (!user) {
+        return reply;
+      }
+
+      const { role, isActive } = validation.value;
+      if (user.id === request.user!.userId && ((role && role !== user.role) || isActive === false)) {
+        return reply
+          .code(409)
+          .send({ error: 'Admins cannot demote or deactivate themselves' });
+      }
+
+      const updated = await fastify.db.getUserRepository().update(user.id, validation.value);
+      if (isActive === false && user.isActive) {
+        await fastify.db.getSessionRepository().revokeAllForUser(user.id, 'deactivated');
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'user.updated',
+        targetType: 'user',
+        targetId: user.id,
+        changes: auditChanges(user, updated!, ['firstName', 'lastName', 'role', 'isActive']),
+      });
+
+      return reply.send(toAdminUser(updated!));
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to update user',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Lift a lockout after too many failed logins
+  fastify.post('/users/:id/unlock', async (request, reply) => {
+    try {
+      const user = await loadUser(request, reply);
+      if (!user) {
+        return reply;
+      }
+
+      await fastify.db.getUserRepository().unlock(user.id);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'user.unlocked',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.send(toAdminUser((await fastify.db.getUserRepository().findById(user.id))!));
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to unlock user',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Invalidate the password and email the user a reset link
+  fastify.post('/users/:id/force-password-reset', async (request, reply) => {
+    try {
+      const user = await loadUser(request, reply);
+      if (!user) {
+        return reply;
+      }
+
+      if (!user.isActive) {
+        return reply.code(409).send({ error: 'User is inactive' });
+      }
+
+      await fastify.accounts.forcePasswordReset(user);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'user.password_reset_forced',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.code(202).send({ message: 'Password reset email sent' });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to reset password',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Open a session as the user; it shows up in the user's sessions and can be revoked like any other
+  fastify.post('/users/:id/impersonate', async (request, reply) => {
+    try {
+      const user = await loadUser(request, reply);
+      if (!user) {
+        return reply;
+      }
+
+      if (user.id === request.user!.userId || user.role === 'admin') {
+        return reply.code(403).send({ error: 'Admins cannot be impersonated' });
+      }
+
+      if (!user.isActive) {
+        return reply.code(409).send({ error: 'User is inactive' });
+      }
+
+      const tokens = await fastify.auth.impersonate(user, request.user!.userId, {
+        userAgent: request.headers['user-agent']?.slice(0, 500),
+        ipAddress: request.ip,
+      });
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'user.impersonated',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.code(201).send({ ...tokens, user: toAdminUser(user) });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to impersonate user',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Delete a user with their personal analyses, projects, batches, schedules and keys.
+  // Their organization analyses and projects are handed to another owner of the organization.
+  fastify.delete('/users/:id', async (request, reply) => {
+    try {
+      const user = await loadUser(request, reply);
+      if (!user) {
+        return reply;
+      }
+
+      if (user.id === request.user!.userId) {
+        return reply.code(409).send({ error: 'Admins cannot delete themselves' });
+      }
+
+      // Checked in the transaction so no ownership change or new analysis slips in
+      // between; organization content is handed over only if the user is really deleted
+      const outcome = await fastify.db.transaction(async () => {
+        const soleOwned = await fastify.db.getOrganizationMemberRepository().findSoleOwnedOrganizationIds(user.id);
+        if (soleOwned.length > 0) {
+          return { soleOwned };
+        }
+
+        const unfinished = await fastify.db.getAnalysisRepository().countUnfinished(user.id);
+        if (unfinished > 0) {
+          return { unfinished };
+        }
+
+        await fastify.db.getOrganizationRepository().transferContent(user.id);
+        const analysisIds = await fastify.db.getAnalysisRepository().findPersonalIds(user.id);
+        await fastify.db.getUserRepository().delete(user.id);
+        return { analysisIds };
+      });
+
+      if (outcome.soleOwned) {
+        return reply.code(409).send({
+          error: 'User is the last owner of an organization',
+          details: `Transfer ownership or delete these organizations first: ${outcome.soleOwned.join(', ')}`
+        });
+      }
+
+      if (!outcome.analysisIds) {
+        return reply.code(409).send({
+          error: 'User has analyses in progress',
+          details: `Wait for ${outcome.unfinished} queued or processing analyses to finish`
+        });
+      }
+
+      const { analysisIds } = outcome;
+
+      // Files are removed once the rows are gone, as they cannot be rolled back
+      for (const analysisId of analysisIds) {
+        await fastify.artifactStore.deletePrefix(analysisArtifactPrefix(analysisId));
+        fastify.analysisEvents.forget(analysisId);
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'user.deleted',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { email: user.email, analyses: analysisIds.length },
+      });
+
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to delete user',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Analyses of all users, newest first
+  fastify.get('/analyses', async (request, reply) => {
+    const query = request.query as any;
+
+    try {
+      const analyses = await fastify.db.getAnalysisRepository().find({
+        userId: query.userId,
+        organizationId: query.organizationId,
+        status: query.status,
+        url: query.url,
+        limit: query.limit ? parseInt(query.limit) : 50,
+        offset: query.offset ? parseInt(query.offset) : 0,
+      });
+      return reply.send(analyses);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve analyses',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Counts across the whole system and LLM usage this billing period
+  fastify.get('/stats', async (_request, reply) => {
+    try {
+      const period = fastify.usage.getBillingPeriod();
+      const stats = await fastify.db.getSystemStatsRepository().getStats(period.start, period.end);
+      return reply.send(stats);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve statistics',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Audit events, newest first; `format=csv` downloads them as a spreadsheet
+  fastify.get('/audit', async (request, reply) => {
+    const validation = validateAuditQuery(request.query);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid audit query', details: validation.errors });
+    }
+
+    try {
+      const { format, ...filters } = validation.value;
+      const events = await fastify.audit.find(filters);
+
+      if (format === 'csv') {
+        return reply
+          .header('Content-Type', 'text/csv; charset=utf-8')
+          .header('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`)
+          .send(auditEventsToCsv(events));
+      }
+
+      return reply.send(events);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve audit events',
+        details: (error as Error).message
+      });
+    }
+  });
+}
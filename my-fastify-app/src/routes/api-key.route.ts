@@ -0,0 +1,112 @@
+import { FastifyInstance } from 'fastify';
+import { auditActor } from '../plugins/audit.plugin';
+import { validateApiKey } from '../validators/api-key.validator';
+
+export default async function apiKeyRoutes(fastify: FastifyInstance) {
+  // List the authenticated user's API keys; the keys themselves are never returned again
+  fastify.get('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const apiKeys = await fastify.db.getApiKeyRepository().findByUserId(request.user.userId);
+      return reply.send(apiKeys);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve API keys',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Create a key; the response is the only time the key is shown
+  fastify.post('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    if (request.user.impersonatorId) {
+      return reply
+        .code(403)
+        .send({ error: 'Access denied', details: 'API keys cannot be created while impersonating' });
+    }
+
+    const validation = validateApiKey(request.body);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid API key', details: validation.errors });
+    }
+
+    try {
+      const existing = await fastify.db.getApiKeyRepository().findByUserId(request.user.userId);
+      if (existing.length >= fastify.apiKeys.maxKeysPerUser) {
+        return reply
+          .code(409)
+          .send({ error: 'Too many API keys', details: `Revoke a key first; at most ${fastify.apiKeys.maxKeysPerUser} keys are allowed` });
+      }
+
+      const { apiKey, key } = await fastify.apiKeys.create(request.user.userId, validation.value);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'api_key.created',
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        metadata: { name: apiKey.name, prefix: apiKey.prefix, scopes: apiKey.scopes },
+      });
+
+      return reply.code(201).send({ ...apiKey, key });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to create API key',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Revoke a key; requests made with it fail from now on
+  fastify.delete('/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const apiKey = await fastify.db.getApiKeyRepository().findById(id);
+      if (!apiKey || apiKey.revokedAt) {
+        return reply.code(404).send({ error: 'API key not found' });
+      }
+
+      if (apiKey.userId !== request.user.userId) {
+        return reply.code(403).send({ error: 'Access denied' });
+      }
+
+      await fastify.db.getApiKeyRepository().revoke(apiKey.id);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'api_key.revoked',
+        targetType: 'api_key',
+        targetId: apiKey.id,
+        metadata: { name: apiKey.name, prefix: apiKey.prefix },
+      });
+
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to revoke API key',
+        details: (error as Error).message
+      });
+    }
+  });
+}
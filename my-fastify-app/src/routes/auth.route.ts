@@ -1,7 +1,16 @@
-import { FastifyInstance } from 'fastify';
-import { LoginRequest, CreateUserRequest, ChangePasswordRequest } from '../models/user.model';
+import { FastifyInstance, FastifyRequest } from 'fastify';
+import { LoginRequest, CreateUserRequest, ChangePasswordRequest, ResetPasswordRequest } from '../models/user.model';
+import { SessionClient } from '../models/session.model';
+import { auditActor } from '../plugins/audit.plugin';
+import { auditChanges } from '../services/audit.service';
 
 export default async function authRoutes(fastify: FastifyInstance) {
+  // Device details recorded on the session
+  const sessionClient = (request: FastifyRequest): SessionClient => ({
+    userAgent: request.headers['user-agent']?.slice(0, 500),
+    ipAddress: request.ip,
+  });
+
   // Register new user
   fastify.post('/register', async (request, reply) => {
     try {
@@ -32,7 +41,23 @@ export default async function authRoutes(fastify: FastifyInstance) {
         });
       }
 
-      const result = await fastify.auth.register(userData);
+      const result = await fastify.auth.register(userData, sessionClient(request));
+      await fastify.audit.record({
+        ...auditActor(request),
+        actorType: 'user',
+        actorId: result.user.id,
+        action: 'user.registered',
+        targetType: 'user',
+        targetId: result.user.id,
+      });
+
+      const user = await fastify.db.getUserRepository().findById(result.user.id);
+      if (user) {
+        // The account exists either way; the email can be sent again later
+        await fastify.accounts.sendVerificationEmail(user).catch((error) => {
+          console.error(`❌ Failed to send verification email to ${user.email}:`, error);
+        });
+      }
       
       return reply.code(201).send({
         message: 'User registered successfully',
@@ -67,7 +92,15 @@ export default async function authRoutes(fastify: FastifyInstance) {
         });
       }
 
-      const result = await fastify.auth.login(credentials);
+      const result = await fastify.auth.login(credentials, sessionClient(request));
+      await fastify.audit.record({
+        ...auditActor(request),
+        actorType: 'user',
+        actorId: result.user.id,
+        action: 'auth.login',
+        targetType: 'user',
+        targetId: result.user.id,
+      });
       
       return reply.send({
         message: 'Login successful',
@@ -75,8 +108,24 @@ export default async function authRoutes(fastify: FastifyInstance) {
       });
     } catch (error) {
       const message = (error as Error).message;
-      
-      if (message.includes('Invalid email or password') || message.includes('Account is deactivated')) {
+
+      if (/temporarily locked|Invalid email or password|deactivated/.test(message)) {
+        await fastify.audit.record({
+          ...auditActor(request),
+          action: 'auth.login_failed',
+          metadata: { email: (request.body as LoginRequest).email, reason: message },
+        });
+      }
+
+      // A locked account answers like a wrong password so logins cannot tell which emails exist
+      if (message.includes('temporarily locked') || message.includes('Invalid email or password')) {
+        return reply.code(401).send({
+          error: 'Authentication failed',
+          message: 'Invalid email or password'
+        });
+      }
+
+      if (message.includes('Account is deactivated')) {
         return reply.code(401).send({
           error: 'Authentication failed',
           message
@@ -122,10 +171,12 @@ export default async function authRoutes(fastify: FastifyInstance) {
           lastName: user.lastName,
           role: user.role,
           isActive: user.isActive,
+          emailVerified: Boolean(user.emailVerifiedAt),
           lastLoginAt: user.lastLoginAt,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
-        }
+        },
+        impersonatedBy: request.user.impersonatorId,
       });
     } catch (error) {
       return reply.code(500).send({
@@ -145,6 +196,13 @@ export default async function authRoutes(fastify: FastifyInstance) {
         });
       }
 
+      if (request.user.impersonatorId) {
+        return reply.code(403).send({
+          error: 'Forbidden',
+          message: 'Password cannot be changed while impersonating'
+        });
+      }
+
       const { currentPassword, newPassword } = request.body as ChangePasswordRequest;
       
       if (!currentPassword || !newPassword) {
@@ -186,9 +244,20 @@ export default async function authRoutes(fastify: FastifyInstance) {
 
       // Update password
       await userRepository.changePassword(user.id, newPassword);
+
+      // Sign out every other device
+      const revoked = await fastify.auth.revokeAllSessions(user.id, 'password_changed', request.user.sessionId);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'auth.password_changed',
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { revokedSessions: revoked },
+      });
       
       return reply.send({
-        message: 'Password changed successfully'
+        message: 'Password changed successfully',
+        revokedSessions: revoked
       });
     } catch (error) {
       return reply.code(500).send({
@@ -198,8 +267,48 @@ export default async function authRoutes(fastify: FastifyInstance) {
     }
   });
 
-  // Refresh token
-  fastify.post('/refresh', async (request, reply) => {
+  // Confirm the email address with the token from the verification email
+  fastify.post('/verify-email', async (request, reply) => {
+    try {
+      const { token } = (request.body || {}) as { token?: string };
+
+      if (!token || typeof token !== 'string') {
+        return reply.code(400).send({
+          error: 'Missing token',
+          message: 'token is required'
+        });
+      }
+
+      const user = await fastify.accounts.verifyEmail(token);
+      if (!user) {
+        return reply.code(400).send({
+          error: 'Invalid token',
+          message: 'The verification link is invalid, expired or was already used'
+        });
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        actorType: 'user',
+        actorId: user.id,
+        action: 'auth.email_verified',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.send({
+        message: 'Email verified successfully'
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to verify email',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // Send a new verification email to the current user
+  fastify.post('/resend-verification', async (request, reply) => {
     try {
       if (!request.user) {
         return reply.code(401).send({
@@ -208,30 +317,286 @@ export default async function authRoutes(fastify: FastifyInstance) {
         });
       }
 
-      const newToken = await fastify.auth.refreshToken(request.user.userId);
+      const user = await fastify.db.getUserRepository().findById(request.user.userId);
+      if (!user) {
+        return reply.code(404).send({
+          error: 'User not found',
+          message: 'User not found'
+        });
+      }
+
+      if (user.emailVerifiedAt) {
+        return reply.code(409).send({
+          error: 'Already verified',
+          message: 'Your email address is already verified'
+        });
+      }
+
+      await fastify.accounts.sendVerificationEmail(user);
+
+      return reply.send({
+        message: 'Verification email sent'
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to send verification email',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // Email a password reset link; the response is the same whether or not the account exists
+  fastify.post('/forgot-password', async (request, reply) => {
+    try {
+      const { email } = (request.body || {}) as { email?: string };
+
+      if (!email || typeof email !== 'string') {
+        return reply.code(400).send({
+          error: 'Missing email',
+          message: 'email is required'
+        });
+      }
+
+      await fastify.accounts.requestPasswordReset(email);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'auth.password_reset_requested',
+        metadata: { email },
+      });
+
+      return reply.send({
+        message: 'If an account exists for this email, a password reset link has been sent'
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to request password reset',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // Choose a new password with the token from the reset email
+  fastify.post('/reset-password', async (request, reply) => {
+    try {
+      const { token, newPassword } = (request.body || {}) as ResetPasswordRequest;
+
+      if (!token || !newPassword) {
+        return reply.code(400).send({
+          error: 'Missing fields',
+          message: 'token and newPassword are required'
+        });
+      }
+
+      if (newPassword.length < 8) {
+        return reply.code(400).send({
+          error: 'Weak password',
+          message: 'New password must be at least 8 characters long'
+        });
+      }
+
+      const user = await fastify.accounts.resetPassword(token, newPassword);
+      if (!user) {
+        return reply.code(400).send({
+          error: 'Invalid token',
+          message: 'The reset link is invalid, expired or was already used'
+        });
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        actorType: 'user',
+        actorId: user.id,
+        action: 'auth.password_reset',
+        targetType: 'user',
+        targetId: user.id,
+      });
+
+      return reply.send({
+        message: 'Password reset successfully; sign in with your new password'
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to reset password',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // Exchange a refresh token for a new access token and refresh token
+  fastify.post('/refresh', async (request, reply) => {
+    try {
+      const { refreshToken } = (request.body || {}) as { refreshToken?: string };
+
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        return reply.code(400).send({
+          error: 'Missing refresh token',
+          message: 'refreshToken is required'
+        });
+      }
+
+      const tokens = await fastify.auth.refresh(refreshToken, sessionClient(request));
       
       return reply.send({
         message: 'Token refreshed successfully',
-        token: newToken
+        ...tokens
       });
     } catch (error) {
+      const message = (error as Error).message;
+
+      if (message.includes('reuse detected')) {
+        await fastify.audit.record({ ...auditActor(request), action: 'auth.refresh_token_reused' });
+      }
+
+      if (/refresh token|session|inactive/i.test(message)) {
+        return reply.code(401).send({
+          error: 'Authentication failed',
+          message
+        });
+      }
+
       return reply.code(500).send({
         error: 'Failed to refresh token',
+        message
+      });
+    }
+  });
+
+  // Log out: revoke the session of the access token
+  fastify.post('/logout', async (request, reply) => {
+    try {
+      if (!request.user) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Authentication required'
+        });
+      }
+
+      if (!request.user.sessionId) {
+        return reply.code(400).send({
+          error: 'No session',
+          message: 'API keys are revoked under /api/api-keys'
+        });
+      }
+
+      await fastify.auth.revokeSession(request.user.userId, request.user.sessionId, 'logout');
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'auth.logout',
+        targetType: 'session',
+        targetId: request.user.sessionId,
+      });
+
+      return reply.send({
+        message: 'Logged out successfully'
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to log out',
         message: (error as Error).message
       });
     }
   });
 
-  // Admin: Get all users (admin only)
-  fastify.get('/users', async (request, reply) => {
+  // Log out all devices, including this one
+  fastify.post('/logout-all', async (request, reply) => {
     try {
-      if (!request.user || request.user.role !== 'admin') {
-        return reply.code(403).send({
-          error: 'Forbidden',
-          message: 'Admin access required'
+      if (!request.user) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Authentication required'
         });
       }
 
+      const revoked = await fastify.auth.revokeAllSessions(request.user.userId, 'logout_all');
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'auth.logout_all',
+        targetType: 'user',
+        targetId: request.user.userId,
+        metadata: { revokedSessions: revoked },
+      });
+
+      return reply.send({
+        message: 'Logged out of all devices',
+        revokedSessions: revoked
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to log out',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // Active sessions of the current user
+  fastify.get('/sessions', async (request, reply) => {
+    try {
+      if (!request.user) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Authentication required'
+        });
+      }
+
+      const sessions = await fastify.auth.listSessions(request.user.userId);
+
+      return reply.send(sessions.map(session => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        expiresAt: session.expiresAt,
+        impersonatedBy: session.impersonatedBy,
+        current: session.id === request.user!.sessionId,
+      })));
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to get sessions',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // Revoke one of the current user's sessions
+  fastify.delete('/sessions/:id', async (request, reply) => {
+    try {
+      if (!request.user) {
+        return reply.code(401).send({
+          error: 'Unauthorized',
+          message: 'Authentication required'
+        });
+      }
+
+      const { id } = request.params as { id: string };
+      const revoked = await fastify.auth.revokeSession(request.user.userId, id, 'logout');
+
+      if (!revoked) {
+        return reply.code(404).send({
+          error: 'Session not found',
+          message: 'No active session with this id'
+        });
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'auth.session_revoked',
+        targetType: 'session',
+        targetId: id,
+      });
+
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to revoke session',
+        message: (error as Error).message
+      });
+    }
+  });
+
+  // Admin: Get all users (admin only)
+  fastify.get('/users', { onRequest: fastify.requireAdmin }, async (request, reply) => {
+    try {
       const userRepository = new (await import('../repositories/user.repository')).UserRepository(
         fastify.db.db, 
         fastify.db.config
@@ -269,4 +634,51 @@ export default async function authRoutes(fastify: FastifyInstance) {
       });
     }
   });
-} 
\ No newline at end of file
+
+  // Admin: Override a user's monthly usage quota (admin only)
+  fastify.put('/users/:id/quota', { onRequest: fastify.requireAdmin }, async (request, reply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const body = (request.body || {}) as Record<string, unknown>;
+      const overrides: Record<string, number> = {};
+
+      for (const key of ['monthlyAnalyses', 'monthlyTokens', 'monthlyCostUsd']) {
+        if (body[key] === undefined || body[key] === null) continue;
+        if (typeof body[key] !== 'number' || (body[key] as number) < 0) {
+          return reply.code(400).send({
+            error: 'Invalid quota',
+            message: `${key} must be a non-negative number (0 means unlimited)`
+          });
+        }
+        overrides[key] = body[key] as number;
+      }
+
+      const before = await fastify.db.getUserRepository().findById(id);
+      const user = before && await fastify.db.getUserRepository().updateQuotaOverrides(id, overrides);
+      if (!before || !user) {
+        return reply.code(404).send({
+          error: 'User not found',
+          message: 'User not found'
+        });
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'user.quota_updated',
+        targetType: 'user',
+        targetId: id,
+        changes: auditChanges(before, user, ['quotaOverrides']),
+      });
+
+      return reply.send({
+        message: 'Quota updated successfully',
+        usage: await fastify.usage.getUsageSummary(id),
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to update quota',
+        message: (error as Error).message
+      });
+    }
+  });
+}
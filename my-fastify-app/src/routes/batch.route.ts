@@ -0,0 +1,197 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { auditActor } from '../plugins/audit.plugin';
+import { AuthorizationAction } from '../services/authorization.service';
+import { getBatchConfig } from '../config/batch.config';
+import { validateBatch } from '../validators/batch.validator';
+
+export default async function batchRoutes(fastify: FastifyInstance) {
+  const batchConfig = getBatchConfig();
+
+  // Loads a batch the authenticated user may act on, replying with the error if there is none
+  const loadBatch = async (request: FastifyRequest, reply: FastifyReply, action: AuthorizationAction) => {
+    const { id } = request.params as { id: string };
+    const batch = await fastify.db.getBatchRepository().findById(id);
+
+    if (!batch) {
+      reply.code(404).send({ error: 'Batch not found' });
+      return null;
+    }
+
+    if (!(await fastify.authorization.can(request.user!.userId, action, batch))) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+
+    return batch;
+  };
+
+  // List the authenticated user's batches, newest first
+  fastify.get('/', async (request, reply) => {
+    const query = request.query as any;
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const batches = await fastify.db.getBatchRepository().findByUserId(
+        request.user.userId,
+        query.limit ? parseInt(query.limit) : 50,
+        query.offset ? parseInt(query.offset) : 0
+      );
+      return reply.send(batches);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve batches',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Analyse a list of URLs, the pages of a sitemap, or a same-origin crawl
+  fastify.post('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateBatch(request.body, batchConfig);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid batch', details: validation.errors });
+    }
+
+    try {
+      if (validation.value.playbook && !(await fastify.promptTemplates.getActive(validation.value.playbook))) {
+        return reply
+          .code(400)
+          .send({ error: 'Unknown playbook', details: `No active prompt template for playbook: ${validation.value.playbook}` });
+      }
+
+      const quota = await fastify.usage.checkQuota(request.user.userId);
+      if (!quota.allowed) {
+        if (quota.statusCode === 429) {
+          const retryAfter = Math.ceil((quota.summary.period.end.getTime() - Date.now()) / 1000);
+          reply.header('Retry-After', String(retryAfter));
+        }
+        return reply
+          .code(quota.statusCode || 429)
+          .send({ error: 'Usage quota exceeded', details: quota.reason, usage: quota.summary });
+      }
+
+      const batch = await fastify.batches.create(request.user.userId, validation.value);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'batch.created',
+        targetType: 'batch',
+        targetId: batch.id,
+      });
+
+      return reply.code(202).send(batch);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to create batch',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // The batch with its progress and site-level summary
+  fastify.get('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const batch = await loadBatch(request, reply, 'read');
+      if (!batch) {
+        return reply;
+      }
+
+      const summary = await fastify.batches.getSummary(batch);
+      return reply.send({ ...batch, summary });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve batch',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // The child analyses of a batch, one per page
+  fastify.get('/:id/analyses', async (request, reply) => {
+    const query = request.query as any;
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const batch = await loadBatch(request, reply, 'read');
+      if (!batch) {
+        return reply;
+      }
+
+      const analyses = await fastify.db.getAnalysisRepository().find({
+        batchId: batch.id,
+        status: query.status,
+        limit: query.limit ? parseInt(query.limit) : 50,
+        offset: query.offset ? parseInt(query.offset) : 0,
+      });
+      return reply.send(analyses);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve batch analyses',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Stop queueing further pages; pages already being analysed still finish
+  fastify.post('/:id/cancel', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const batch = await loadBatch(request, reply, 'write');
+      if (!batch) {
+        return reply;
+      }
+
+      if (batch.status !== 'discovering' && batch.status !== 'processing') {
+        return reply.code(409).send({ error: `Batch is already ${batch.status}` });
+      }
+
+      const cancelled = await fastify.batches.cancel(batch);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'batch.cancelled',
+        targetType: 'batch',
+        targetId: batch.id,
+      });
+
+      return reply.send(cancelled);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to cancel batch',
+        details: (error as Error).message
+      });
+    }
+  });
+}
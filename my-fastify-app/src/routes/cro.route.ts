@@ -1,11 +1,32 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
 import {
+  AnalysisEvent,
   AnalyzeRequestBody,
   AnalyzeResponse,
 } from '../../types/cro.types';
-import { CreateAnalysisRequest } from '../models/analysis.model';
+import { AnalysisRecord } from '../models/analysis.model';
+import { auditActor } from '../plugins/audit.plugin';
+import { analysisArtifactPrefix } from '../providers/storage/artifact-store';
+import { DEFAULT_DEVICES, DEVICE_PROFILES } from '../config/devices.config';
+import { CRO_CATEGORIES, CRO_SEVERITIES } from '../validators/cro-result.validator';
+import { validateScrapeOptions } from '../validators/scrape-options.validator';
+import { getScrapeDefaults, mergeScrapeOptions, redactScrapeOptions, restoreScrapeSecrets, withoutScrapeSecrets } from '../config/scrape.config';
+import { DEFAULT_PLAYBOOK } from '../config/playbooks.config';
+import { normalizeUrl, urlMatchesDomains } from '../services/url-normalization.service';
+import { QuotaCheck } from '../services/usage.service';
 
 export default async function croRoutes(fastify: FastifyInstance) {
+  // Replies to an analysis the user's quota does not allow
+  const sendQuotaExceeded = (reply: FastifyReply, quota: QuotaCheck) => {
+    if (quota.statusCode === 429) {
+      const retryAfter = Math.ceil((quota.summary.period.end.getTime() - Date.now()) / 1000);
+      reply.header('Retry-After', String(retryAfter));
+    }
+    return reply
+      .code(quota.statusCode || 429)
+      .send({ error: 'Usage quota exceeded', details: quota.reason, usage: quota.summary });
+  };
+
   fastify.post('/analyze', async (request, reply) => {
     const body = request.body as AnalyzeRequestBody;
 
@@ -15,6 +36,24 @@ export default async function croRoutes(fastify: FastifyInstance) {
         .send({ error: 'Missing required parameter: url' });
     }
 
+    if (body.devices !== undefined) {
+      const unknownDevices = Array.isArray(body.devices)
+        ? body.devices.filter((device) => !DEVICE_PROFILES[device])
+        : [String(body.devices)];
+      if (!Array.isArray(body.devices) || body.devices.length === 0 || unknownDevices.length > 0) {
+        return reply
+          .code(400)
+          .send({ error: `Invalid devices. Expected a non-empty list of: ${Object.keys(DEVICE_PROFILES).join(', ')}` });
+      }
+    }
+
+    const scrapeOptions = validateScrapeOptions(body.scrapeOptions);
+    if (!scrapeOptions.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid scrapeOptions', details: scrapeOptions.errors });
+    }
+
     // Check if user is authenticated
     if (!request.user) {
       return reply
@@ -23,85 +62,94 @@ export default async function croRoutes(fastify: FastifyInstance) {
     }
 
     try {
-      // Create analysis record in database with user ID
-      const analysisRepo = fastify.db.getAnalysisRepository();
-      const analysisRecord = await analysisRepo.create({
-        url: body.url,
-        status: 'pending',
-      }, request.user.userId);
+      // Analyses started in an organization belong to it and count against the creator's quota
+      if (body.organizationId !== undefined
+        && !(await fastify.authorization.canInOrganization(request.user.userId, 'write', body.organizationId))) {
+        return reply.code(403).send({ error: 'Access denied' });
+      }
 
-      // Update status to processing
-      await analysisRepo.update(analysisRecord.id, { status: 'processing' });
+      // An explicit project must cover the URL; otherwise the project is picked by domain
+      const projectRepo = fastify.db.getProjectRepository();
+      const project = body.projectId !== undefined
+        ? await projectRepo.findById(body.projectId)
+        : await projectRepo.findForUrl(
+          body.organizationId ? { organizationId: body.organizationId } : { userId: request.user.userId },
+          body.url
+        );
 
-      const croService = fastify.croService;
-      if (!croService) {
-        await analysisRepo.update(analysisRecord.id, { 
-          status: 'failed',
-          errorMessage: 'CRO Service not available'
-        });
-        return reply
-          .code(500)
-          .send({ error: 'CRO Service not available' });
-      }
+      if (body.projectId !== undefined) {
+        if (!project) {
+          return reply.code(404).send({ error: 'Project not found' });
+        }
 
-      // Scrape the page
-      const pageData = await croService.scrapePage({ url: body.url });
+        if (!(await fastify.authorization.can(request.user.userId, 'write', project))) {
+          return reply.code(403).send({ error: 'Access denied' });
+        }
 
-      // Update metadata with page information
-      await analysisRepo.update(analysisRecord.id, {
-        metadata: {
-          wordCount: pageData.text.split(' ').length,
-          pageSize: pageData.html.length,
-          screenshotPath: 'landing-page-snapshot.png',
+        if (body.organizationId !== undefined && project.organizationId !== body.organizationId) {
+          return reply
+            .code(400)
+            .send({ error: 'Project belongs to a different workspace' });
         }
-      });
 
-      // Analyze with GPT
-      const analysis = await croService.analyzeWithGPT({
-        text: pageData.text,
-        html: pageData.html,
+        if (!urlMatchesDomains(body.url, project.domains)) {
+          return reply
+            .code(400)
+            .send({ error: 'URL is outside the project', details: `Project domains: ${project.domains.join(', ')}` });
+        }
+      }
+
+      const playbook = body.playbook || project?.playbook || DEFAULT_PLAYBOOK;
+      const template = await fastify.promptTemplates.getActive(playbook);
+      if (!template) {
+        return reply
+          .code(400)
+          .send({ error: 'Unknown playbook', details: `No active prompt template for playbook: ${playbook}` });
+      }
+
+      // Request options win over the project's and then the user's saved defaults;
+      // system defaults are applied at scrape time
+      const user = await fastify.db.getUserRepository().findById(request.user.userId);
+      const resolvedScrapeOptions = mergeScrapeOptions(user?.scrapeDefaults || {}, project?.scrapeOptions, scrapeOptions.value);
+
+      // Create the analysis and hand it to the job queue; workers move the status along
+      const { analysis: analysisRecord, quota } = await fastify.jobQueue.submit(request.user.userId, {
+        url: body.url,
+        projectId: project?.id,
+        organizationId: project ? project.organizationId : body.organizationId,
+      }, {
         url: body.url,
+        devices: body.devices ? [...new Set(body.devices)] : DEFAULT_DEVICES,
+        scrapeOptions: resolvedScrapeOptions,
+        promptTemplateId: template.id,
       });
 
-      // Generate PDF report
-      const pdfPath = `reports/CRO_Report_${analysisRecord.id}.pdf`;
-      await croService.generateCROReportPDF({
-        htmlString: analysis,
-        outputPath: pdfPath,
-      });
+      if (!analysisRecord) {
+        return sendQuotaExceeded(reply, quota);
+      }
 
-      // Update analysis record with results
-      await analysisRepo.update(analysisRecord.id, {
-        analysis,
-        pdfPath,
-        status: 'completed',
-        metadata: {
-          analysisTokens: analysis.length,
-        }
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'analysis.created',
+        targetType: 'analysis',
+        targetId: analysisRecord.id,
+        metadata: { url: body.url, projectId: analysisRecord.projectId, organizationId: analysisRecord.organizationId },
       });
 
       const response: AnalyzeResponse = {
-        analysis,
-        pdfGenerated: true,
         analysisId: analysisRecord.id,
+        status: analysisRecord.status,
       };
 
-      return reply.send(response);
+      return reply.code(202).send(response);
 
     } catch (error) {
-      console.error('Analysis failed:', error);
-      
-      // Update analysis record with error
-      if (fastify.db) {
-        const analysisRepo = fastify.db.getAnalysisRepository();
-        // Note: We don't have the analysis ID here, so we'd need to track it
-        // For now, we'll just log the error
-      }
+      console.error('Failed to enqueue analysis:', error);
 
       return reply
         .code(500)
         .send({ 
-          error: 'Analysis failed', 
+          error: 'Failed to enqueue analysis', 
           details: (error as Error).message 
         });
     }
@@ -126,12 +174,13 @@ export default async function croRoutes(fastify: FastifyInstance) {
         return reply.code(404).send({ error: 'Analysis not found' });
       }
       
-      // Check if the analysis belongs to the authenticated user
-      if (analysis.userId !== request.user.userId) {
+      // Check if the authenticated user may view the analysis
+      if (!(await fastify.authorization.can(request.user.userId, 'read', analysis))) {
         return reply.code(403).send({ error: 'Access denied' });
       }
       
-      return reply.send(analysis);
+      const findings = await fastify.db.getFindingRepository().findByAnalysisId(id);
+      return reply.send({ ...analysis, findings });
     } catch (error) {
       return reply.code(500).send({ 
         error: 'Failed to retrieve analysis',
@@ -140,6 +189,471 @@ export default async function croRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Delete an analysis together with its stored artifacts
+  fastify.delete('/analysis/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+    
+    try {
+      const analysisRepo = fastify.db.getAnalysisRepository();
+      const analysis = await analysisRepo.findById(id);
+      
+      if (!analysis) {
+        return reply.code(404).send({ error: 'Analysis not found' });
+      }
+      
+      // Check if the authenticated user may delete the analysis
+      if (!(await fastify.authorization.can(request.user.userId, 'delete', analysis))) {
+        return reply.code(403).send({ error: 'Access denied' });
+      }
+
+      if (analysis.status === 'processing') {
+        return reply.code(409).send({ error: 'Analysis is still processing' });
+      }
+
+      // Findings and jobs are removed by ON DELETE CASCADE
+      await analysisRepo.delete(id);
+      await fastify.artifactStore.deletePrefix(analysisArtifactPrefix(id));
+      fastify.analysisEvents.forget(id);
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'analysis.deleted',
+        targetType: 'analysis',
+        targetId: id,
+        metadata: { url: analysis.url, ownerId: analysis.userId, organizationId: analysis.organizationId },
+      });
+
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({ 
+        error: 'Failed to delete analysis',
+        details: (error as Error).message 
+      });
+    }
+  });
+
+  // Re-run an analysis of the same URL with the settings of the original run
+  fastify.post('/analysis/:id/rerun', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const analysisRepo = fastify.db.getAnalysisRepository();
+      const original = await analysisRepo.findById(id);
+
+      if (!original) {
+        return reply.code(404).send({ error: 'Analysis not found' });
+      }
+
+      // Check if the authenticated user may re-run the analysis
+      if (!(await fastify.authorization.can(request.user.userId, 'write', original))) {
+        return reply.code(403).send({ error: 'Access denied' });
+      }
+
+      // Same devices, scrape options and prompt template as the original, so
+      // differences in the comparison come from the page and not the setup.
+      // Credentials are the caller's own, never those of whoever ran the original.
+      const originalJob = await fastify.db.getJobRepository().findByAnalysisId(id);
+      const user = await fastify.db.getUserRepository().findById(request.user.userId);
+      const project = original.projectId ? await fastify.db.getProjectRepository().findById(original.projectId) : null;
+      const payload = {
+        url: original.url,
+        devices: original.metadata.devices?.map((d) => d.device) || DEFAULT_DEVICES,
+        ...originalJob?.payload,
+        scrapeOptions: mergeScrapeOptions(
+          user?.scrapeDefaults || {},
+          project?.scrapeOptions,
+          withoutScrapeSecrets(originalJob?.payload.scrapeOptions || {})
+        ),
+      };
+
+      const { analysis: analysisRecord, quota } = await fastify.jobQueue.submit(request.user.userId, {
+        url: original.url,
+        projectId: original.projectId,
+        organizationId: original.organizationId,
+        metadata: { rerunOf: original.id },
+      }, payload);
+
+      if (!analysisRecord) {
+        return sendQuotaExceeded(reply, quota);
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'analysis.rerun',
+        targetType: 'analysis',
+        targetId: analysisRecord.id,
+        metadata: { rerunOf: original.id },
+      });
+
+      const response: AnalyzeResponse = {
+        analysisId: analysisRecord.id,
+        status: analysisRecord.status,
+      };
+
+      return reply.code(202).send(response);
+    } catch (error) {
+      console.error('Failed to enqueue re-run:', error);
+
+      return reply.code(500).send({ 
+        error: 'Failed to enqueue re-run',
+        details: (error as Error).message 
+      });
+    }
+  });
+
+  // Get the findings of an analysis, optionally filtered by category/severity
+  fastify.get('/analysis/:id/findings', async (request, reply) => {
+    const { id } = request.params as { id: string };
+    const query = request.query as any;
+    
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    if (query.category && !CRO_CATEGORIES.includes(query.category)) {
+      return reply
+        .code(400)
+        .send({ error: `Invalid category. Expected one of: ${CRO_CATEGORIES.join(', ')}` });
+    }
+
+    if (query.severity && !CRO_SEVERITIES.includes(query.severity)) {
+      return reply
+        .code(400)
+        .send({ error: `Invalid severity. Expected one of: ${CRO_SEVERITIES.join(', ')}` });
+    }
+    
+    try {
+      const analysis = await fastify.db.getAnalysisRepository().findById(id);
+      
+      if (!analysis) {
+        return reply.code(404).send({ error: 'Analysis not found' });
+      }
+      
+      // Check if the authenticated user may view the analysis
+      if (!(await fastify.authorization.can(request.user.userId, 'read', analysis))) {
+        return reply.code(403).send({ error: 'Access denied' });
+      }
+      
+      const findings = await fastify.db.getFindingRepository().findByAnalysisId(id, {
+        category: query.category,
+        severity: query.severity,
+      });
+      return reply.send(findings);
+    } catch (error) {
+      return reply.code(500).send({ 
+        error: 'Failed to retrieve findings',
+        details: (error as Error).message 
+      });
+    }
+  });
+
+  // Download analysis artifacts (user can only access their own analyses)
+  const artifactRoutes: Array<{
+    path: string;
+    contentType: string;
+    resolve: (analysis: AnalysisRecord, device?: string) => string | undefined;
+    headers?: Record<string, string>;
+  }> = [
+    {
+      path: 'report.pdf',
+      contentType: 'application/pdf',
+      resolve: (analysis) => analysis.pdfPath,
+    },
+    {
+      path: 'screenshot.png',
+      contentType: 'image/png',
+      resolve: (analysis, device) => device
+        ? analysis.metadata.devices?.find((d) => d.device === device)?.screenshotPath
+        : analysis.metadata.screenshotPath,
+    },
+    {
+      path: 'page.html',
+      contentType: 'text/html; charset=utf-8',
+      resolve: (analysis, device) => device
+        ? analysis.metadata.devices?.find((d) => d.device === device)?.htmlPath
+        : analysis.metadata.htmlPath,
+      // Captured third-party markup must never run scripts on our origin
+      headers: { 'Content-Security-Policy': 'sandbox' },
+    },
+  ];
+
+  for (const artifact of artifactRoutes) {
+    fastify.get(`/analysis/:id/${artifact.path}`, async (request, reply) => {
+      const { id } = request.params as { id: string };
+
+      // Check if user is authenticated
+      if (!request.user) {
+        return reply
+          .code(401)
+          .send({ error: 'Authentication required' });
+      }
+
+      try {
+        const analysis = await fastify.db.getAnalysisRepository().findById(id);
+
+        if (!analysis) {
+          return reply.code(404).send({ error: 'Analysis not found' });
+        }
+
+        // Check if the authenticated user may view the analysis
+        if (!(await fastify.authorization.can(request.user.userId, 'read', analysis))) {
+          return reply.code(403).send({ error: 'Access denied' });
+        }
+
+        const { device } = request.query as { device?: string };
+        const key = artifact.resolve(analysis, device);
+        const stored = key ? await fastify.artifactStore.getStream(key) : null;
+        if (!stored) {
+          return reply.code(404).send({ error: 'Artifact not available' });
+        }
+
+        const { stream, metadata } = stored;
+        reply
+          .header('Cache-Control', 'private, max-age=3600')
+          .header('Last-Modified', metadata.lastModified.toUTCString())
+          .header('X-Content-Type-Options', 'nosniff')
+          .header('Content-Disposition', `inline; filename="${id}-${device ? `${device}-` : ''}${artifact.path}"`);
+
+        if (metadata.etag) {
+          reply.header('ETag', metadata.etag);
+        }
+
+        for (const [name, value] of Object.entries(artifact.headers || {})) {
+          reply.header(name, value);
+        }
+
+        if (metadata.etag && request.headers['if-none-match'] === metadata.etag) {
+          stream.destroy();
+          return reply.code(304).send();
+        }
+
+        return reply
+          .type(artifact.contentType)
+          .header('Content-Length', metadata.size)
+          .send(stream);
+      } catch (error) {
+        return reply.code(500).send({ 
+          error: 'Failed to retrieve artifact',
+          details: (error as Error).message 
+        });
+      }
+    });
+  }
+
+  // Stream progress for an analysis as Server-Sent Events
+  fastify.get('/analysis/:id/events', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    let analysis;
+    try {
+      analysis = await fastify.db.getAnalysisRepository().findById(id);
+    } catch (error) {
+      return reply.code(500).send({ 
+        error: 'Failed to retrieve analysis',
+        details: (error as Error).message 
+      });
+    }
+
+    if (!analysis) {
+      return reply.code(404).send({ error: 'Analysis not found' });
+    }
+
+    // Check if the authenticated user may view the analysis
+    if (!(await fastify.authorization.can(request.user.userId, 'read', analysis))) {
+      return reply.code(403).send({ error: 'Access denied' });
+    }
+
+    reply.hijack();
+    const raw = reply.raw;
+
+    let closed = false;
+    let unsubscribe = () => {};
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    const close = () => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      raw.end();
+    };
+
+    const send = (event: AnalysisEvent) => {
+      if (closed) return;
+      raw.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type !== 'progress') {
+        close();
+      }
+    };
+
+    // The reply is hijacked, so errors must end the stream here instead of reaching Fastify
+    try {
+      raw.writeHead(200, {
+        ...(reply.getHeaders() as Record<string, string>),
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      });
+      heartbeat = setInterval(() => raw.write(': keep-alive\n\n'), 15000);
+
+      // Subscribe before re-reading the status so no final event is missed
+      unsubscribe = fastify.analysisEvents.subscribe(id, send);
+      request.raw.on('close', close);
+
+      const current = await fastify.db.getAnalysisRepository().findById(id);
+      const timestamp = new Date().toISOString();
+
+      if (!current || current.status === 'failed') {
+        send({
+          type: 'failed',
+          analysisId: id,
+          error: current?.errorMessage || 'Analysis not found',
+          timestamp,
+        });
+      } else if (current.status === 'completed') {
+        send({ type: 'completed', analysisId: id, timestamp });
+      } else {
+        const lastProgress = fastify.analysisEvents.getLastProgress(id);
+        if (lastProgress) {
+          send(lastProgress);
+        }
+      }
+    } catch (error) {
+      console.error(`❌ Failed to stream events of analysis ${id}:`, (error as Error).message);
+      close();
+    }
+  });
+
+  // Loads the two analyses of a comparison, replying with the error if they cannot be compared
+  const loadComparison = async (request: FastifyRequest, reply: FastifyReply) => {
+    const { base, head, device } = request.query as { base?: string; head?: string; device?: string };
+
+    if (!base || !head) {
+      reply.code(400).send({ error: 'Missing required parameters: base, head' });
+      return null;
+    }
+
+    if (device && !DEVICE_PROFILES[device]) {
+      reply.code(400).send({ error: `Invalid device. Expected one of: ${Object.keys(DEVICE_PROFILES).join(', ')}` });
+      return null;
+    }
+
+    const analysisRepo = fastify.db.getAnalysisRepository();
+    const [baseAnalysis, headAnalysis] = await Promise.all([analysisRepo.findById(base), analysisRepo.findById(head)]);
+
+    if (!baseAnalysis || !headAnalysis) {
+      reply.code(404).send({ error: 'Analysis not found' });
+      return null;
+    }
+
+    // The authenticated user must be able to view both analyses
+    const [canReadBase, canReadHead] = await Promise.all([
+      fastify.authorization.can(request.user!.userId, 'read', baseAnalysis),
+      fastify.authorization.can(request.user!.userId, 'read', headAnalysis),
+    ]);
+    if (!canReadBase || !canReadHead) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+
+    if (baseAnalysis.status !== 'completed' || headAnalysis.status !== 'completed') {
+      reply.code(409).send({ error: 'Both analyses must be completed' });
+      return null;
+    }
+
+    return { base: baseAnalysis, head: headAnalysis, device };
+  };
+
+  // Diff two analyses: scores, findings, page text/structure and screenshots
+  fastify.get('/compare', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const pair = await loadComparison(request, reply);
+      if (!pair) {
+        return reply;
+      }
+
+      const comparison = await fastify.analysisComparison.compare(pair.base, pair.head, pair.device);
+      const query = new URLSearchParams({ base: pair.base.id, head: pair.head.id, ...(pair.device ? { device: pair.device } : {}) });
+
+      return reply.send({
+        ...comparison,
+        screenshotDiff: comparison.screenshotDiff
+          ? { ...comparison.screenshotDiff, url: `${request.routeOptions.url}/screenshot-diff.png?${query}` }
+          : null,
+      });
+    } catch (error) {
+      return reply.code(500).send({ 
+        error: 'Failed to compare analyses',
+        details: (error as Error).message 
+      });
+    }
+  });
+
+  // Diff image of the two screenshots; changed pixels are highlighted in red
+  fastify.get('/compare/screenshot-diff.png', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const pair = await loadComparison(request, reply);
+      if (!pair) {
+        return reply;
+      }
+
+      const diff = await fastify.analysisComparison.getScreenshotDiff(pair.base, pair.head, pair.device);
+      if (!diff) {
+        return reply.code(404).send({ error: 'Screenshots not available' });
+      }
+
+      return reply
+        .type('image/png')
+        .header('Cache-Control', 'private, max-age=3600')
+        .header('X-Content-Type-Options', 'nosniff')
+        .header('Content-Disposition', `inline; filename="${pair.base.id}-${pair.head.id}-diff.png"`)
+        .send(diff.image);
+    } catch (error) {
+      return reply.code(500).send({ 
+        error: 'Failed to generate screenshot diff',
+        details: (error as Error).message 
+      });
+    }
+  });
+
   // Get all analyses for the authenticated user with optional filters
   fastify.get('/analyses', async (request, reply) => {
     const query = request.query as any;
@@ -152,11 +666,23 @@ export default async function croRoutes(fastify: FastifyInstance) {
     }
     
     try {
+      // Analyses of an organization the user belongs to, or otherwise the user's personal ones
+      if (query.organizationId
+        && !(await fastify.authorization.canInOrganization(request.user.userId, 'read', query.organizationId))) {
+        return reply.code(403).send({ error: 'Access denied' });
+      }
+
       const analysisRepo = fastify.db.getAnalysisRepository();
+      // A full URL selects that page in any of its spellings; anything else is a substring search
+      const isPageUrl = typeof query.url === 'string' && /^https?:\/\//i.test(query.url);
       const filters = {
-        userId: request.user.userId, // Only get analyses for the authenticated user
+        ...(query.organizationId
+          ? { organizationId: query.organizationId as string }
+          : { userId: request.user.userId, organizationId: null }),
         status: query.status,
-        url: query.url,
+        url: isPageUrl ? undefined : query.url,
+        normalizedUrl: isPageUrl ? normalizeUrl(query.url) : undefined,
+        projectId: query.projectId,
         limit: query.limit ? parseInt(query.limit) : 50,
         offset: query.offset ? parseInt(query.offset) : 0,
       };
@@ -193,4 +719,115 @@ export default async function croRoutes(fastify: FastifyInstance) {
       });
     }
   });
+
+  // Playbooks available for /analyze (active template of each)
+  fastify.get('/playbooks', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const templates = await fastify.promptTemplates.listPlaybooks();
+      return reply.send(templates.map(({ playbook, name, description, version }) => ({
+        playbook,
+        name,
+        description,
+        version,
+      })));
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve playbooks',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // LLM usage, cost and remaining quota for the current billing period
+  fastify.get('/usage', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const summary = await fastify.usage.getUsageSummary(request.user.userId);
+      return reply.send(summary);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve usage',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Get the authenticated user's default scrape options
+  fastify.get('/scrape-defaults', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const user = await fastify.db.getUserRepository().findById(request.user.userId);
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      return reply.send({
+        defaults: redactScrapeOptions(user.scrapeDefaults || {}),
+        system: getScrapeDefaults(),
+      });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve scrape defaults',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Replace the authenticated user's default scrape options
+  fastify.put('/scrape-defaults', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateScrapeOptions(request.body);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid scrape defaults', details: validation.errors });
+    }
+
+    try {
+      const userRepo = fastify.db.getUserRepository();
+      const current = await userRepo.findById(request.user.userId);
+      if (!current) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      // Secrets are never returned, so masked values sent back keep the saved ones
+      const defaults = restoreScrapeSecrets(validation.value, current.scrapeDefaults || {});
+      const user = await userRepo.updateScrapeDefaults(current.id, defaults);
+      if (!user) {
+        return reply.code(404).send({ error: 'User not found' });
+      }
+
+      return reply.send({ defaults: redactScrapeOptions(user.scrapeDefaults || {}) });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to update scrape defaults',
+        details: (error as Error).message
+      });
+    }
+  });
 }
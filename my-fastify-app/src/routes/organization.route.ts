@@ -0,0 +1,474 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { auditActor } from '../plugins/audit.plugin';
+import { auditChanges } from '../services/audit.service';
+import { AuthorizationAction } from '../services/authorization.service';
+import { validateInvitation, validateOrganizationName, validateOrganizationRole } from '../validators/organization.validator';
+
+export default async function organizationRoutes(fastify: FastifyInstance) {
+  // Loads an organization the authenticated user may act on, replying with the error if there is none
+  const loadOrganization = async (request: FastifyRequest, reply: FastifyReply, action: AuthorizationAction) => {
+    const { id } = request.params as { id: string };
+    const organization = await fastify.db.getOrganizationRepository().findById(id);
+
+    if (!organization) {
+      reply.code(404).send({ error: 'Organization not found' });
+      return null;
+    }
+
+    if (!(await fastify.authorization.canInOrganization(request.user!.userId, action, organization.id))) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+
+    return organization;
+  };
+
+  // Owners cannot leave or be demoted if nobody else would be left to manage the organization
+  const isLastOwner = async (organizationId: string, userId: string) => {
+    const memberRepo = fastify.db.getOrganizationMemberRepository();
+    const role = await memberRepo.getRole(organizationId, userId);
+    return role === 'owner' && (await memberRepo.countOwners(organizationId)) === 1;
+  };
+
+  // Organizations the authenticated user belongs to, with their role
+  fastify.get('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const organizations = await fastify.db.getOrganizationRepository().findByUserId(request.user.userId);
+      return reply.send(organizations);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve organizations',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Create an organization; the creator becomes its owner
+  fastify.post('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateOrganizationName(request.body);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid organization', details: validation.errors });
+    }
+
+    try {
+      const organization = await fastify.db.getOrganizationRepository().create(validation.value, request.user.userId);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'organization.created',
+        targetType: 'organization',
+        targetId: organization.id,
+        metadata: { name: organization.name },
+      });
+
+      return reply.code(201).send({ ...organization, role: 'owner' });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to create organization',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Accept an invitation with its token; the invitation must be for the authenticated user's email
+  fastify.post('/invitations/accept', async (request, reply) => {
+    const { token } = (request.body || {}) as { token?: string };
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    if (!token || typeof token !== 'string') {
+      return reply
+        .code(400)
+        .send({ error: 'Missing required parameter: token' });
+    }
+
+    try {
+      const invitation = await fastify.organizations.findInvitationByToken(token);
+      if (!invitation || invitation.acceptedAt || invitation.expiresAt.getTime() <= Date.now()) {
+        return reply.code(404).send({ error: 'Invitation not found or expired' });
+      }
+
+      if (invitation.email !== request.user.email.toLowerCase()) {
+        return reply.code(403).send({ error: 'Invitation was sent to a different email address' });
+      }
+
+      const memberRepo = fastify.db.getOrganizationMemberRepository();
+      if (await memberRepo.getRole(invitation.organizationId, request.user.userId)) {
+        return reply.code(409).send({ error: 'Already a member of this organization' });
+      }
+
+      const member = await fastify.organizations.acceptInvitation(invitation, request.user.userId);
+      if (!member) {
+        return reply.code(404).send({ error: 'Invitation not found or expired' });
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'invitation.accepted',
+        targetType: 'invitation',
+        targetId: invitation.id,
+        metadata: { organizationId: invitation.organizationId, role: member.role },
+      });
+
+      return reply.send(member);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to accept invitation',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, 'read');
+      if (!organization) {
+        return reply;
+      }
+
+      const role = await fastify.authorization.getRole(request.user.userId, organization.id);
+      return reply.send({ ...organization, role });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve organization',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.put('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateOrganizationName(request.body);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid organization', details: validation.errors });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, 'manage');
+      if (!organization) {
+        return reply;
+      }
+
+      const updated = await fastify.db.getOrganizationRepository().rename(organization.id, validation.value);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'organization.updated',
+        targetType: 'organization',
+        targetId: organization.id,
+        changes: auditChanges(organization, updated!, ['name']),
+      });
+
+      return reply.send(updated);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to update organization',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Delete an organization; its analyses and projects go back to the members who created them
+  fastify.delete('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, 'manage');
+      if (!organization) {
+        return reply;
+      }
+
+      await fastify.db.getOrganizationRepository().delete(organization.id);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'organization.deleted',
+        targetType: 'organization',
+        targetId: organization.id,
+        metadata: { name: organization.name },
+      });
+
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to delete organization',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.get('/:id/members', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, 'read');
+      if (!organization) {
+        return reply;
+      }
+
+      const members = await fastify.db.getOrganizationMemberRepository().findByOrganizationId(organization.id);
+      return reply.send(members);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve members',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Change a member's role
+  fastify.put('/:id/members/:userId', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateOrganizationRole(request.body);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid role', details: validation.errors });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, 'manage');
+      if (!organization) {
+        return reply;
+      }
+
+      if (validation.value !== 'owner' && (await isLastOwner(organization.id, userId))) {
+        return reply.code(409).send({ error: 'The last owner cannot be demoted' });
+      }
+
+      const previousRole = await fastify.db.getOrganizationMemberRepository().getRole(organization.id, userId);
+      const member = await fastify.db.getOrganizationMemberRepository().updateRole(organization.id, userId, validation.value);
+      if (!member) {
+        return reply.code(404).send({ error: 'Member not found' });
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'organization.member_role_changed',
+        targetType: 'user',
+        targetId: userId,
+        changes: previousRole !== member.role ? { role: { from: previousRole, to: member.role } } : undefined,
+        metadata: { organizationId: organization.id },
+      });
+
+      return reply.send(member);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to update member',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Remove a member; every member may remove themselves to leave
+  fastify.delete('/:id/members/:userId', async (request, reply) => {
+    const { userId } = request.params as { userId: string };
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, userId === request.user.userId ? 'read' : 'manage');
+      if (!organization) {
+        return reply;
+      }
+
+      if (await isLastOwner(organization.id, userId)) {
+        return reply.code(409).send({ error: 'The last owner cannot leave; delete the organization instead' });
+      }
+
+      const removed = await fastify.db.getOrganizationMemberRepository().remove(organization.id, userId);
+      if (!removed) {
+        return reply.code(404).send({ error: 'Member not found' });
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'organization.member_removed',
+        targetType: 'user',
+        targetId: userId,
+        metadata: { organizationId: organization.id },
+      });
+
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to remove member',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Pending invitations
+  fastify.get('/:id/invitations', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, 'manage');
+      if (!organization) {
+        return reply;
+      }
+
+      const invitations = await fastify.db.getOrganizationInvitationRepository().findPending(organization.id);
+      return reply.send(invitations);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve invitations',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Invite someone by email; the accept link is only sent to that address
+  fastify.post('/:id/invitations', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateInvitation(request.body);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid invitation', details: validation.errors });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, 'manage');
+      if (!organization) {
+        return reply;
+      }
+
+      const { email, role } = validation.value;
+
+      const existingUser = await fastify.db.getUserRepository().findByEmail(email);
+      if (existingUser && (await fastify.authorization.getRole(existingUser.id, organization.id))) {
+        return reply.code(409).send({ error: 'Already a member of this organization' });
+      }
+
+      const pending = await fastify.db.getOrganizationInvitationRepository().findPending(organization.id, email);
+      if (pending.length > 0) {
+        return reply.code(409).send({ error: 'An invitation for this email is already pending' });
+      }
+
+      const inviter = await fastify.db.getUserRepository().findById(request.user.userId);
+      const invitation = await fastify.organizations.invite(organization, email, role, inviter!);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'invitation.created',
+        targetType: 'invitation',
+        targetId: invitation.id,
+        metadata: { organizationId: organization.id, email, role },
+      });
+
+      return reply.code(201).send(invitation);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to create invitation',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.delete('/:id/invitations/:invitationId', async (request, reply) => {
+    const { invitationId } = request.params as { invitationId: string };
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const organization = await loadOrganization(request, reply, 'manage');
+      if (!organization) {
+        return reply;
+      }
+
+      const invitationRepo = fastify.db.getOrganizationInvitationRepository();
+      const invitation = await invitationRepo.findById(invitationId);
+      if (!invitation || invitation.organizationId !== organization.id) {
+        return reply.code(404).send({ error: 'Invitation not found' });
+      }
+
+      await invitationRepo.delete(invitation.id);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'invitation.revoked',
+        targetType: 'invitation',
+        targetId: invitation.id,
+        metadata: { organizationId: organization.id, email: invitation.email },
+      });
+
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to revoke invitation',
+        details: (error as Error).message
+      });
+    }
+  });
+}
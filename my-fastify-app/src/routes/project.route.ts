@@ -0,0 +1,248 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { AuthorizationAction } from '../services/authorization.service';
+import { normalizeUrl } from '../services/url-normalization.service';
+import { validateProject } from '../validators/project.validator';
+
+export default async function projectRoutes(fastify: FastifyInstance) {
+  // Loads a project the authenticated user may act on, replying with the error if there is none
+  const loadProject = async (request: FastifyRequest, reply: FastifyReply, action: AuthorizationAction) => {
+    const { id } = request.params as { id: string };
+    const project = await fastify.db.getProjectRepository().findById(id);
+
+    if (!project) {
+      reply.code(404).send({ error: 'Project not found' });
+      return null;
+    }
+
+    if (!(await fastify.authorization.can(request.user!.userId, action, project))) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+
+    return project;
+  };
+
+  // List the authenticated user's personal projects, or those of an organization with `?organizationId=`
+  fastify.get('/', async (request, reply) => {
+    const query = request.query as any;
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      if (query.organizationId
+        && !(await fastify.authorization.canInOrganization(request.user.userId, 'read', query.organizationId))) {
+        return reply.code(403).send({ error: 'Access denied' });
+      }
+
+      const projects = await fastify.db.getProjectRepository().findByOwner(
+        query.organizationId ? { organizationId: query.organizationId } : { userId: request.user.userId }
+      );
+      return reply.send(projects);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve projects',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.post('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateProject(request.body, { partial: false });
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid project', details: validation.errors });
+    }
+
+    try {
+      const { organizationId, name, description, domains, scrapeOptions, playbook } = validation.value;
+
+      if (organizationId && !(await fastify.authorization.canInOrganization(request.user.userId, 'write', organizationId))) {
+        return reply.code(403).send({ error: 'Access denied' });
+      }
+
+      if (playbook && !(await fastify.promptTemplates.getActive(playbook))) {
+        return reply
+          .code(400)
+          .send({ error: 'Unknown playbook', details: `No active prompt template for playbook: ${playbook}` });
+      }
+
+      const project = await fastify.db.getProjectRepository().create({
+        organizationId,
+        name: name!,
+        description: description || undefined,
+        domains: domains!,
+        scrapeOptions,
+        playbook: playbook || undefined,
+      }, request.user.userId);
+      return reply.code(201).send(project);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to create project',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const project = await loadProject(request, reply, 'read');
+      if (!project) {
+        return reply;
+      }
+
+      return reply.send(project);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve project',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Change name, domains or defaults; existing analyses keep their project
+  fastify.put('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateProject(request.body, { partial: true });
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid project', details: validation.errors });
+    }
+
+    if (validation.value.organizationId !== undefined) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid project', details: ['organizationId cannot be changed'] });
+    }
+
+    try {
+      const project = await loadProject(request, reply, 'write');
+      if (!project) {
+        return reply;
+      }
+
+      if (validation.value.playbook && !(await fastify.promptTemplates.getActive(validation.value.playbook))) {
+        return reply
+          .code(400)
+          .send({ error: 'Unknown playbook', details: `No active prompt template for playbook: ${validation.value.playbook}` });
+      }
+
+      const updated = await fastify.db.getProjectRepository().update(project.id, validation.value);
+      return reply.send(updated);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to update project',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Delete a project; its analyses are kept without a project
+  fastify.delete('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const project = await loadProject(request, reply, 'delete');
+      if (!project) {
+        return reply;
+      }
+
+      await fastify.db.getProjectRepository().delete(project.id);
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to delete project',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Analyses of the project, newest first; `url` selects a single page
+  fastify.get('/:id/analyses', async (request, reply) => {
+    const query = request.query as any;
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const project = await loadProject(request, reply, 'read');
+      if (!project) {
+        return reply;
+      }
+
+      const analyses = await fastify.db.getAnalysisRepository().find({
+        projectId: project.id,
+        status: query.status,
+        normalizedUrl: query.url ? normalizeUrl(query.url) : undefined,
+        limit: query.limit ? parseInt(query.limit) : 50,
+        offset: query.offset ? parseInt(query.offset) : 0,
+      });
+      return reply.send(analyses);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve project analyses',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Analysis counts, average score and the latest score of every page
+  fastify.get('/:id/stats', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const project = await loadProject(request, reply, 'read');
+      if (!project) {
+        return reply;
+      }
+
+      const stats = await fastify.db.getProjectRepository().getStats(project.id);
+      return reply.send(stats);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve project statistics',
+        details: (error as Error).message
+      });
+    }
+  });
+}
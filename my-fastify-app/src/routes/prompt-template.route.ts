@@ -0,0 +1,93 @@
+import { FastifyInstance } from 'fastify';
+import { auditActor } from '../plugins/audit.plugin';
+import { validatePromptTemplate } from '../validators/prompt-template.validator';
+
+// Prompt template management is admin-only; users pick a playbook via /api/cro/playbooks
+export default async function promptTemplateRoutes(fastify: FastifyInstance) {
+  fastify.addHook('onRequest', fastify.requireAdmin);
+
+  // List all template versions, optionally for one playbook
+  fastify.get('/', async (request, reply) => {
+    const query = request.query as { playbook?: string };
+
+    try {
+      const templates = await fastify.promptTemplates.list({ playbook: query.playbook });
+      return reply.send(templates);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve prompt templates',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const template = await fastify.promptTemplates.getById(id);
+      if (!template) {
+        return reply.code(404).send({ error: 'Prompt template not found' });
+      }
+      return reply.send(template);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve prompt template',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Create the next version of a playbook (or the first version of a new one)
+  fastify.post('/', async (request, reply) => {
+    const validation = validatePromptTemplate(request.body);
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid prompt template', details: validation.errors });
+    }
+
+    try {
+      const template = await fastify.promptTemplates.create(validation.value, request.user!.userId);
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'prompt_template.created',
+        targetType: 'prompt_template',
+        targetId: template.id,
+        metadata: { playbook: template.playbook, version: template.version, active: template.isActive },
+      });
+      return reply.code(201).send(template);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to create prompt template',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Make a version the one new analyses of its playbook use
+  fastify.post('/:id/activate', async (request, reply) => {
+    const { id } = request.params as { id: string };
+
+    try {
+      const template = await fastify.promptTemplates.activate(id);
+      if (!template) {
+        return reply.code(404).send({ error: 'Prompt template not found' });
+      }
+
+      await fastify.audit.record({
+        ...auditActor(request),
+        action: 'prompt_template.activated',
+        targetType: 'prompt_template',
+        targetId: template.id,
+        metadata: { playbook: template.playbook, version: template.version },
+      });
+      return reply.send(template);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to activate prompt template',
+        details: (error as Error).message
+      });
+    }
+  });
+}
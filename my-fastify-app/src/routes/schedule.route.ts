@@ -0,0 +1,242 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { AuthorizationAction } from '../services/authorization.service';
+import { getSchedulerConfig } from '../config/scheduler.config';
+import { validateSchedule } from '../validators/schedule.validator';
+
+export default async function scheduleRoutes(fastify: FastifyInstance) {
+  const { minIntervalMinutes } = getSchedulerConfig();
+
+  // Loads a schedule the authenticated user may act on, replying with the error if there is none
+  const loadSchedule = async (request: FastifyRequest, reply: FastifyReply, action: AuthorizationAction) => {
+    const { id } = request.params as { id: string };
+    const schedule = await fastify.db.getScheduleRepository().findById(id);
+
+    if (!schedule) {
+      reply.code(404).send({ error: 'Schedule not found' });
+      return null;
+    }
+
+    if (!(await fastify.authorization.can(request.user!.userId, action, schedule))) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+
+    return schedule;
+  };
+
+  // List the authenticated user's schedules
+  fastify.get('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const schedules = await fastify.db.getScheduleRepository().findByUserId(request.user.userId);
+      return reply.send(schedules);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve schedules',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Create a recurring analysis of a URL
+  fastify.post('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateSchedule(request.body, { partial: false, minIntervalMinutes });
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid schedule', details: validation.errors });
+    }
+
+    try {
+      if (validation.value.playbook && !(await fastify.promptTemplates.getActive(validation.value.playbook))) {
+        return reply
+          .code(400)
+          .send({ error: 'Unknown playbook', details: `No active prompt template for playbook: ${validation.value.playbook}` });
+      }
+
+      const schedule = await fastify.scheduler.create(request.user.userId, validation.value);
+      return reply.code(201).send(schedule);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to create schedule',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const schedule = await loadSchedule(request, reply, 'read');
+      if (!schedule) {
+        return reply;
+      }
+
+      return reply.send(schedule);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve schedule',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Change timing, options or alert thresholds, or pause/resume with `enabled`
+  fastify.put('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateSchedule(request.body, { partial: true, minIntervalMinutes });
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid schedule', details: validation.errors });
+    }
+
+    if (validation.value.url !== undefined) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid schedule', details: ['url cannot be changed; create a new schedule instead'] });
+    }
+
+    try {
+      const schedule = await loadSchedule(request, reply, 'write');
+      if (!schedule) {
+        return reply;
+      }
+
+      if (validation.value.playbook && !(await fastify.promptTemplates.getActive(validation.value.playbook))) {
+        return reply
+          .code(400)
+          .send({ error: 'Unknown playbook', details: `No active prompt template for playbook: ${validation.value.playbook}` });
+      }
+
+      const updated = await fastify.scheduler.update(schedule, validation.value);
+      return reply.send(updated);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to update schedule',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Delete a schedule; analyses it created are kept
+  fastify.delete('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const schedule = await loadSchedule(request, reply, 'delete');
+      if (!schedule) {
+        return reply;
+      }
+
+      await fastify.db.getScheduleRepository().delete(schedule.id);
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to delete schedule',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Start a run right away; the regular timing is not affected
+  fastify.post('/:id/run', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const schedule = await loadSchedule(request, reply, 'write');
+      if (!schedule) {
+        return reply;
+      }
+
+      const quota = await fastify.usage.checkQuota(request.user.userId);
+      if (!quota.allowed) {
+        if (quota.statusCode === 429) {
+          const retryAfter = Math.ceil((quota.summary.period.end.getTime() - Date.now()) / 1000);
+          reply.header('Retry-After', String(retryAfter));
+        }
+        return reply
+          .code(quota.statusCode || 429)
+          .send({ error: 'Usage quota exceeded', details: quota.reason, usage: quota.summary });
+      }
+
+      const result = await fastify.scheduler.runNow(schedule);
+      if (!result.analysis) {
+        return reply.code(409).send({ error: 'Schedule run skipped', details: result.skipped });
+      }
+
+      return reply.code(202).send({ analysisId: result.analysis.id, status: result.analysis.status });
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to run schedule',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Score drop and content change alerts raised by the schedule's runs, newest first
+  fastify.get('/:id/alerts', async (request, reply) => {
+    const query = request.query as any;
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const schedule = await loadSchedule(request, reply, 'read');
+      if (!schedule) {
+        return reply;
+      }
+
+      const alerts = await fastify.db.getScheduleAlertRepository().findByScheduleId(
+        schedule.id,
+        query.limit ? parseInt(query.limit) : 50,
+        query.offset ? parseInt(query.offset) : 0
+      );
+      return reply.send(alerts);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve alerts',
+        details: (error as Error).message
+      });
+    }
+  });
+}
@@ -0,0 +1,257 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { AuthorizationAction } from '../services/authorization.service';
+import { getWebhookConfig } from '../config/webhook.config';
+import { Webhook, WebhookDeliveryStatus } from '../models/webhook.model';
+import { validateWebhook } from '../validators/webhook.validator';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'sending', 'succeeded', 'failed'];
+
+// The signing secret is only shown when it is created or rotated
+const withoutSecret = ({ secret, ...webhook }: Webhook) => webhook;
+
+export default async function webhookRoutes(fastify: FastifyInstance) {
+  const { allowPrivateUrls } = getWebhookConfig();
+
+  // Loads a webhook the authenticated user may act on, replying with the error if there is none
+  const loadWebhook = async (request: FastifyRequest, reply: FastifyReply, action: AuthorizationAction) => {
+    const { id } = request.params as { id: string };
+    const webhook = await fastify.db.getWebhookRepository().findById(id);
+
+    if (!webhook) {
+      reply.code(404).send({ error: 'Webhook not found' });
+      return null;
+    }
+
+    if (!(await fastify.authorization.can(request.user!.userId, action, webhook))) {
+      reply.code(403).send({ error: 'Access denied' });
+      return null;
+    }
+
+    return webhook;
+  };
+
+  // List the authenticated user's webhooks
+  fastify.get('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const webhooks = await fastify.db.getWebhookRepository().findByUserId(request.user.userId);
+      return reply.send(webhooks.map(withoutSecret));
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve webhooks',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Register an endpoint; the response contains the signing secret
+  fastify.post('/', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateWebhook(request.body, { partial: false, allowPrivateUrls });
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid webhook', details: validation.errors });
+    }
+
+    try {
+      const webhook = await fastify.webhooks.create(request.user.userId, validation.value);
+      return reply.code(201).send(webhook);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to create webhook',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  fastify.get('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const webhook = await loadWebhook(request, reply, 'read');
+      if (!webhook) {
+        return reply;
+      }
+
+      return reply.send(withoutSecret(webhook));
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve webhook',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Change the URL, events or description, or pause/resume with `enabled`
+  fastify.put('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    const validation = validateWebhook(request.body, { partial: true, allowPrivateUrls });
+    if (!validation.valid) {
+      return reply
+        .code(400)
+        .send({ error: 'Invalid webhook', details: validation.errors });
+    }
+
+    try {
+      const webhook = await loadWebhook(request, reply, 'write');
+      if (!webhook) {
+        return reply;
+      }
+
+      const updated = await fastify.db.getWebhookRepository().update(webhook.id, validation.value);
+      return reply.send(updated && withoutSecret(updated));
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to update webhook',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Delete a webhook together with its delivery log
+  fastify.delete('/:id', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const webhook = await loadWebhook(request, reply, 'delete');
+      if (!webhook) {
+        return reply;
+      }
+
+      await fastify.db.getWebhookRepository().delete(webhook.id);
+      return reply.code(204).send();
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to delete webhook',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Replace the signing secret; the old one stops working immediately
+  fastify.post('/:id/rotate-secret', async (request, reply) => {
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const webhook = await loadWebhook(request, reply, 'write');
+      if (!webhook) {
+        return reply;
+      }
+
+      const updated = await fastify.webhooks.rotateSecret(webhook);
+      return reply.send(updated);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to rotate webhook secret',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Delivery log of a webhook, newest first
+  fastify.get('/:id/deliveries', async (request, reply) => {
+    const query = request.query as any;
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    if (query.status && !DELIVERY_STATUSES.includes(query.status)) {
+      return reply
+        .code(400)
+        .send({ error: `Invalid status. Expected one of: ${DELIVERY_STATUSES.join(', ')}` });
+    }
+
+    try {
+      const webhook = await loadWebhook(request, reply, 'read');
+      if (!webhook) {
+        return reply;
+      }
+
+      const deliveries = await fastify.db.getWebhookDeliveryRepository().findByWebhookId(webhook.id, {
+        status: query.status,
+        limit: query.limit ? parseInt(query.limit) : 50,
+        offset: query.offset ? parseInt(query.offset) : 0,
+      });
+      return reply.send(deliveries);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to retrieve webhook deliveries',
+        details: (error as Error).message
+      });
+    }
+  });
+
+  // Send a finished delivery again, e.g. after fixing the receiving endpoint
+  fastify.post('/:id/deliveries/:deliveryId/redeliver', async (request, reply) => {
+    const { deliveryId } = request.params as { deliveryId: string };
+
+    // Check if user is authenticated
+    if (!request.user) {
+      return reply
+        .code(401)
+        .send({ error: 'Authentication required' });
+    }
+
+    try {
+      const webhook = await loadWebhook(request, reply, 'write');
+      if (!webhook) {
+        return reply;
+      }
+
+      const delivery = await fastify.db.getWebhookDeliveryRepository().findById(deliveryId);
+      if (!delivery || delivery.webhookId !== webhook.id) {
+        return reply.code(404).send({ error: 'Delivery not found' });
+      }
+
+      if (delivery.status === 'pending' || delivery.status === 'sending') {
+        return reply.code(409).send({ error: 'Delivery is still in progress' });
+      }
+
+      const requeued = await fastify.webhooks.redeliver(delivery);
+      return reply.code(202).send(requeued);
+    } catch (error) {
+      return reply.code(500).send({
+        error: 'Failed to redeliver webhook',
+        details: (error as Error).message
+      });
+    }
+  });
+}
@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { AuthConfig, getAuthConfig } from '../config/auth.config';
+import { MailConfig, getMailConfig } from '../config/mail.config';
+import { User } from '../models/user.model';
+import { UserTokenPurpose } from '../models/user-token.model';
+import { Mailer } from '../providers/mail/mailer';
+import { SessionRepository } from '../repositories/session.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { UserTokenRepository } from '../repositories/user-token.repository';
+
+export interface AccountService {
+  sendVerificationEmail(user: User): Promise<void>;
+  verifyEmail(token: string): Promise<User | null>;
+  requestPasswordReset(email: string): Promise<void>;
+  resetPassword(token: string, newPassword: string): Promise<User | null>;
+  forcePasswordReset(user: User): Promise<void>;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Email verification and password reset. Both send a link with a random
+ * single-use token; the database keeps its SHA-256 hash, and sending a new
+ * link invalidates the previous one.
+ */
+export class AccountServiceImpl implements AccountService {
+  private userRepository: UserRepository;
+  private userTokenRepository: UserTokenRepository;
+  private sessionRepository: SessionRepository;
+  private mailer: Mailer;
+  private config: AuthConfig;
+  private mailConfig: MailConfig;
+
+  constructor(
+    userRepository: UserRepository,
+    userTokenRepository: UserTokenRepository,
+    sessionRepository: SessionRepository,
+    mailer: Mailer,
+    config: AuthConfig = getAuthConfig(),
+    mailConfig: MailConfig = getMailConfig()
+  ) {
+    this.userRepository = userRepository;
+    this.userTokenRepository = userTokenRepository;
+    this.sessionRepository = sessionRepository;
+    this.mailer = mailer;
+    this.config = config;
+    this.mailConfig = mailConfig;
+  }
+
+  async sendVerificationEmail(user: User): Promise<void> {
+    const token = await this.issueToken(user.id, 'email_verification', this.config.emailVerificationTtlHours * 60);
+    const link = `${this.mailConfig.appUrl}/verify-email?token=${token}`;
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Confirm your email address',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        'Please confirm your email address by opening this link:',
+        link,
+        '',
+        `The link expires in ${this.config.emailVerificationTtlHours} hours.`,
+      ].join('\n'),
+    });
+  }
+
+  // Returns null when the token is unknown, expired or already used
+  async verifyEmail(token: string): Promise<User | null> {
+    const userId = await this.consumeToken(token, 'email_verification');
+    if (!userId) return null;
+
+    await this.userRepository.markEmailVerified(userId);
+    return this.userRepository.findById(userId);
+  }
+
+  // Does nothing for unknown addresses, so the response can't reveal which accounts exist
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.userRepository.findByEmail(email);
+    if (!user || !user.isActive) return;
+
+    await this.sendPasswordReset(user, 'Someone asked to reset the password of your account.');
+  }
+
+  // Replaces the password with a random one, signs the user out and sends a reset link
+  async forcePasswordReset(user: User): Promise<void> {
+    await this.userRepository.changePassword(user.id, crypto.randomBytes(32).toString('hex'));
+    await this.sessionRepository.revokeAllForUser(user.id, 'password_reset_forced');
+
+    await this.sendPasswordReset(user, 'An administrator has reset the password of your account.');
+  }
+
+  // Signs the user out everywhere and lifts a lockout; the reset link also proves the email address
+  async resetPassword(token: string, newPassword: string): Promise<User | null> {
+    const userId = await this.consumeToken(token, 'password_reset');
+    if (!userId) return null;
+
+    await this.userRepository.changePassword(userId, newPassword);
+    await this.userRepository.markEmailVerified(userId);
+    await this.userRepository.unlock(userId);
+    await this.sessionRepository.revokeAllForUser(userId, 'password_reset');
+
+    return this.userRepository.findById(userId);
+  }
+
+  private async sendPasswordReset(user: User, reason: string): Promise<void> {
+    const token = await this.issueToken(user.id, 'password_reset', this.config.passwordResetTtlMinutes);
+    const link = `${this.mailConfig.appUrl}/reset-password?token=${token}`;
+
+    await this.mailer.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.firstName},`,
+        '',
+        `${reason} To choose a new password, open this link:`,
+        link,
+        '',
+        `The link expires in ${this.config.passwordResetTtlMinutes} minutes. If you did not ask for it, you can ignore this email.`,
+      ].join('\n'),
+    });
+  }
+
+  private async issueToken(userId: string, purpose: UserTokenPurpose, ttlMinutes: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    await this.userTokenRepository.deleteUnused(userId, purpose);
+    await this.userTokenRepository.create(
+      userId,
+      purpose,
+      hashToken(token),
+      new Date(Date.now() + ttlMinutes * 60 * 1000)
+    );
+
+    return token;
+  }
+
+  private async consumeToken(token: string, purpose: UserTokenPurpose): Promise<string | null> {
+    const stored = await this.userTokenRepository.findByTokenHash(hashToken(token), purpose);
+    if (!stored || stored.usedAt || stored.expiresAt <= new Date()) return null;
+
+    const claimed = await this.userTokenRepository.markUsed(stored.id);
+    return claimed ? stored.userId : null;
+  }
+}
@@ -0,0 +1,324 @@
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+import { CROCategory, CROFinding, CROFindingSeverity, PageModel } from '../../types/cro.types';
+import { AnalysisRecord } from '../models/analysis.model';
+import { FindingRecord } from '../models/finding.model';
+import { FindingRepository } from '../repositories/finding.repository';
+import { ArtifactStore } from '../providers/storage/artifact-store';
+import { CRO_CATEGORIES } from '../validators/cro-result.validator';
+
+export interface ScoreDelta {
+  base: number | null;
+  head: number | null;
+  delta: number | null;
+}
+
+export interface PersistingFinding {
+  base: FindingRecord;
+  head: FindingRecord;
+  severityChange: 'improved' | 'worsened' | 'unchanged';
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface TextDiff extends ListDiff {
+  unchanged: number;
+  // Only the first lines of each side are listed; counts are always complete
+  addedCount: number;
+  removedCount: number;
+}
+
+export interface ScreenshotDiffResult {
+  width: number;
+  height: number;
+  diffPixels: number;
+  mismatchRatio: number;
+  image: Buffer;
+}
+
+export interface AnalysisComparison {
+  base: { id: string; url: string; createdAt: Date };
+  head: { id: string; url: string; createdAt: Date };
+  sameUrl: boolean;
+  scores: {
+    overall: ScoreDelta;
+    categories: Record<CROCategory, ScoreDelta>;
+  };
+  findings: {
+    resolved: FindingRecord[];
+    new: FindingRecord[];
+    persisting: PersistingFinding[];
+  };
+  text: TextDiff | null;
+  structure: {
+    headings: ListDiff;
+    ctas: ListDiff;
+  } | null;
+  screenshotDiff: Omit<ScreenshotDiffResult, 'image'> | null;
+}
+
+export interface AnalysisComparisonService {
+  compare(base: AnalysisRecord, head: AnalysisRecord, device?: string): Promise<AnalysisComparison>;
+  getScreenshotDiff(base: AnalysisRecord, head: AnalysisRecord, device?: string): Promise<ScreenshotDiffResult | null>;
+}
+
+const SEVERITY_RANK: Record<CROFindingSeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+// Findings in the same category whose titles share this many words are treated as the same issue
+const FINDING_SIMILARITY_THRESHOLD = 0.6;
+// Keeps the LCS table of the text diff bounded on very long pages
+const MAX_DIFF_LINES = 2000;
+const MAX_LISTED_LINES = 200;
+// Taller full-page screenshots are cropped before diffing
+const MAX_DIFF_HEIGHT = 16384;
+
+const scoreDelta = (base?: number, head?: number): ScoreDelta => ({
+  base: base ?? null,
+  head: head ?? null,
+  delta: base !== undefined && head !== undefined ? Math.round((head - base) * 10) / 10 : null,
+});
+
+const words = (value: string): Set<string> =>
+  new Set(value.toLowerCase().replace(/\([^)]*\)/g, ' ').split(/[^a-z0-9]+/).filter((word) => word.length > 2));
+
+const similarity = (a: CROFinding, b: CROFinding): number => {
+  if (a.category !== b.category) return 0;
+  if (a.title.trim().toLowerCase() === b.title.trim().toLowerCase()) return 1;
+
+  const left = words(a.title);
+  const right = words(b.title);
+  const shared = [...left].filter((word) => right.has(word)).length;
+  const union = new Set([...left, ...right]).size;
+  return union === 0 ? 0 : shared / union;
+};
+
+/**
+ * Pairs each head finding with the most similar unmatched base finding.
+ * Unpaired base findings are resolved, unpaired head findings are new.
+ */
+export function diffFindings(base: FindingRecord[], head: FindingRecord[]): AnalysisComparison['findings'] {
+  const unmatchedBase = new Set(base);
+  const persisting: PersistingFinding[] = [];
+  const added: FindingRecord[] = [];
+
+  for (const finding of head) {
+    let best: FindingRecord | undefined;
+    let bestScore = 0;
+    for (const candidate of unmatchedBase) {
+      const score = similarity(candidate, finding);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    if (best && bestScore >= FINDING_SIMILARITY_THRESHOLD) {
+      unmatchedBase.delete(best);
+      const change = SEVERITY_RANK[finding.severity] - SEVERITY_RANK[best.severity];
+      persisting.push({
+        base: best,
+        head: finding,
+        severityChange: change > 0 ? 'improved' : change < 0 ? 'worsened' : 'unchanged',
+      });
+    } else {
+      added.push(finding);
+    }
+  }
+
+  return { resolved: [...unmatchedBase], new: added, persisting };
+}
+
+/**
+ * Line diff based on the longest common subsequence of the two texts.
+ */
+export function diffLines(baseText: string, headText: string): TextDiff {
+  const normalize = (text: string) => text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .slice(0, MAX_DIFF_LINES);
+
+  const a = normalize(baseText);
+  const b = normalize(headText);
+  const columns = b.length + 1;
+  const table = new Uint32Array((a.length + 1) * columns);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * columns + j] = a[i] === b[j]
+        ? table[(i + 1) * columns + j + 1] + 1
+        : Math.max(table[(i + 1) * columns + j], table[i * columns + j + 1]);
+    }
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  let unchanged = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      unchanged++;
+      i++;
+      j++;
+    } else if (table[(i + 1) * columns + j] >= table[i * columns + j + 1]) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  removed.push(...a.slice(i));
+  added.push(...b.slice(j));
+
+  return {
+    added: added.slice(0, MAX_LISTED_LINES),
+    removed: removed.slice(0, MAX_LISTED_LINES),
+    addedCount: added.length,
+    removedCount: removed.length,
+    unchanged,
+  };
+}
+
+const diffList = (base: string[], head: string[]): ListDiff => {
+  const baseSet = new Set(base);
+  const headSet = new Set(head);
+  return {
+    added: [...headSet].filter((item) => !baseSet.has(item)),
+    removed: [...baseSet].filter((item) => !headSet.has(item)),
+  };
+};
+
+const diffStructure = (base?: PageModel, head?: PageModel): AnalysisComparison['structure'] => {
+  if (!base || !head) return null;
+
+  return {
+    headings: diffList(
+      base.headings.map((h) => `H${h.level}: ${h.text}`),
+      head.headings.map((h) => `H${h.level}: ${h.text}`)
+    ),
+    ctas: diffList(base.ctas.map((c) => c.text), head.ctas.map((c) => c.text)),
+  };
+};
+
+// Older analyses only stored HTML, so text is recovered from the markup
+const htmlToText = (html: string): string => html
+  .replace(/<(script|style|noscript)[\s\S]*?<\/\1>/gi, ' ')
+  .replace(/<(br|\/p|\/div|\/h[1-6]|\/li|\/tr)[^>]*>/gi, '\n')
+  .replace(/<[^>]+>/g, ' ')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&');
+
+export class AnalysisComparisonServiceImpl implements AnalysisComparisonService {
+  private findingRepository: FindingRepository;
+  private artifactStore: ArtifactStore;
+
+  constructor(findingRepository: FindingRepository, artifactStore: ArtifactStore) {
+    this.findingRepository = findingRepository;
+    this.artifactStore = artifactStore;
+  }
+
+  async compare(base: AnalysisRecord, head: AnalysisRecord, device?: string): Promise<AnalysisComparison> {
+    const [baseFindings, headFindings, baseText, headText, screenshotDiff] = await Promise.all([
+      this.findingRepository.findByAnalysisId(base.id),
+      this.findingRepository.findByAnalysisId(head.id),
+      this.loadText(base, device),
+      this.loadText(head, device),
+      this.getScreenshotDiff(base, head, device),
+    ]);
+
+    const categories = Object.fromEntries(
+      CRO_CATEGORIES.map((category) => [
+        category,
+        scoreDelta(base.categoryScores?.[category], head.categoryScores?.[category]),
+      ])
+    ) as Record<CROCategory, ScoreDelta>;
+
+    return {
+      base: { id: base.id, url: base.url, createdAt: base.createdAt },
+      head: { id: head.id, url: head.url, createdAt: head.createdAt },
+      sameUrl: base.url === head.url,
+      scores: {
+        overall: scoreDelta(base.overallScore, head.overallScore),
+        categories,
+      },
+      findings: diffFindings(baseFindings, headFindings),
+      text: baseText !== null && headText !== null ? diffLines(baseText, headText) : null,
+      structure: diffStructure(base.pageModel, head.pageModel),
+      screenshotDiff: screenshotDiff
+        ? {
+          width: screenshotDiff.width,
+          height: screenshotDiff.height,
+          diffPixels: screenshotDiff.diffPixels,
+          mismatchRatio: screenshotDiff.mismatchRatio,
+        }
+        : null,
+    };
+  }
+
+  /**
+   * Pixel diff of the two full-page screenshots. Pages of different size are
+   * compared on a white canvas of the larger size, so added or removed
+   * sections show up as differences.
+   */
+  async getScreenshotDiff(base: AnalysisRecord, head: AnalysisRecord, device?: string): Promise<ScreenshotDiffResult | null> {
+    const basePath = this.devicePath(base, 'screenshotPath', device);
+    const headPath = this.devicePath(head, 'screenshotPath', device);
+    if (!basePath || !headPath) return null;
+
+    const [baseImage, headImage] = await Promise.all([
+      this.artifactStore.get(basePath),
+      this.artifactStore.get(headPath),
+    ]);
+    if (!baseImage || !headImage) return null;
+
+    const left = PNG.sync.read(baseImage);
+    const right = PNG.sync.read(headImage);
+    const width = Math.max(left.width, right.width);
+    const height = Math.min(Math.max(left.height, right.height), MAX_DIFF_HEIGHT);
+
+    const canvas = (image: PNG): Buffer => {
+      const data = Buffer.alloc(width * height * 4, 0xff);
+      const rows = Math.min(image.height, height);
+      for (let y = 0; y < rows; y++) {
+        image.data.copy(data, y * width * 4, y * image.width * 4, (y + 1) * image.width * 4);
+      }
+      return data;
+    };
+
+    const diff = new PNG({ width, height });
+    const diffPixels = pixelmatch(canvas(left), canvas(right), diff.data, width, height, { threshold: 0.1 });
+
+    return {
+      width,
+      height,
+      diffPixels,
+      mismatchRatio: Math.round((diffPixels / (width * height)) * 10000) / 10000,
+      image: PNG.sync.write(diff),
+    };
+  }
+
+  private devicePath(analysis: AnalysisRecord, field: 'screenshotPath' | 'htmlPath' | 'textPath', device?: string): string | undefined {
+    return device
+      ? analysis.metadata.devices?.find((d) => d.device === device)?.[field]
+      : analysis.metadata[field];
+  }
+
+  private async loadText(analysis: AnalysisRecord, device?: string): Promise<string | null> {
+    const textPath = this.devicePath(analysis, 'textPath', device);
+    const text = textPath ? await this.artifactStore.get(textPath) : null;
+    if (text) return text.toString('utf-8');
+
+    const htmlPath = this.devicePath(analysis, 'htmlPath', device);
+    const html = htmlPath ? await this.artifactStore.get(htmlPath) : null;
+    return html ? htmlToText(html.toString('utf-8')) : null;
+  }
+}
@@ -0,0 +1,99 @@
+import { EventEmitter } from 'events';
+import {
+  AnalysisEvent,
+  AnalysisProgressEvent,
+  AnalysisProgressStage,
+  ProgressReporter,
+} from '../../types/cro.types';
+
+export type AnalysisEventListener = (event: AnalysisEvent) => void;
+
+// Progress is kept until the analysis finishes here. Runs that end elsewhere
+// (another instance took over, or the analysis was deleted) never report it,
+// so entries are also dropped once they are this old.
+const PROGRESS_TTL_MS = 60 * 60 * 1000;
+
+export interface AnalysisEventsService {
+  publish(event: AnalysisEvent): void;
+  subscribe(analysisId: string, listener: AnalysisEventListener): () => void;
+  subscribeAll(listener: AnalysisEventListener): () => void;
+  getLastProgress(analysisId: string): AnalysisProgressEvent | undefined;
+  forget(analysisId: string): void;
+  createReporter(analysisId: string): ProgressReporter;
+}
+
+/**
+ * In-process pub/sub for analysis lifecycle events. Workers run in the same
+ * process as the HTTP server, so an EventEmitter is enough to fan events out
+ * to SSE subscribers.
+ */
+export class AnalysisEventsServiceImpl implements AnalysisEventsService {
+  private emitter = new EventEmitter();
+  private lastProgress = new Map<string, { event: AnalysisProgressEvent; receivedAt: number }>();
+  private lastPrunedAt = Date.now();
+
+  constructor() {
+    // Every open SSE connection adds a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: AnalysisEvent): void {
+    this.pruneProgress();
+    if (event.type === 'progress') {
+      this.lastProgress.set(event.analysisId, { event, receivedAt: Date.now() });
+    } else {
+      this.lastProgress.delete(event.analysisId);
+    }
+
+    this.emitter.emit(`analysis:${event.analysisId}`, event);
+    this.emitter.emit('analysis:*', event);
+  }
+
+  subscribe(analysisId: string, listener: AnalysisEventListener): () => void {
+    const eventName = `analysis:${analysisId}`;
+    this.emitter.on(eventName, listener);
+    return () => {
+      this.emitter.off(eventName, listener);
+    };
+  }
+
+  subscribeAll(listener: AnalysisEventListener): () => void {
+    this.emitter.on('analysis:*', listener);
+    return () => {
+      this.emitter.off('analysis:*', listener);
+    };
+  }
+
+  getLastProgress(analysisId: string): AnalysisProgressEvent | undefined {
+    const entry = this.lastProgress.get(analysisId);
+    return entry && Date.now() - entry.receivedAt < PROGRESS_TTL_MS ? entry.event : undefined;
+  }
+
+  forget(analysisId: string): void {
+    this.lastProgress.delete(analysisId);
+  }
+
+  createReporter(analysisId: string): ProgressReporter {
+    return (stage: AnalysisProgressStage, message?: string) => {
+      this.publish({
+        type: 'progress',
+        analysisId,
+        stage,
+        message,
+        timestamp: new Date().toISOString(),
+      });
+    };
+  }
+
+  private pruneProgress(): void {
+    const now = Date.now();
+    if (now - this.lastPrunedAt < PROGRESS_TTL_MS) return;
+
+    this.lastPrunedAt = now;
+    for (const [analysisId, entry] of this.lastProgress) {
+      if (now - entry.receivedAt >= PROGRESS_TTL_MS) {
+        this.lastProgress.delete(analysisId);
+      }
+    }
+  }
+}
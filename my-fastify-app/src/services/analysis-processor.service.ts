@@ -0,0 +1,167 @@
+import { AnalysisRepository } from '../repositories/analysis.repository';
+import { FindingRepository } from '../repositories/finding.repository';
+import { AnalysisJob } from '../models/job.model';
+import { AnalyzeWithGPTResult, CROService, LLMCallUsage } from '../../types/cro.types';
+import { AnalysisEventsService } from './analysis-events.service';
+import { ArtifactStore, analysisArtifactKey } from '../providers/storage/artifact-store';
+import { detectDeviceIssues, deviceIssuesToFindings } from './device-comparison.service';
+import { UsageService } from './usage.service';
+import { PromptTemplateService } from './prompt-template.service';
+
+export interface AnalysisProcessor {
+  process(job: AnalysisJob): Promise<void>;
+}
+
+/**
+ * Runs the scrape → analyze → report pipeline for a single queued job.
+ * Status bookkeeping for 'processing' / 'failed' lives in the job queue;
+ * the processor only records results and throws on failure.
+ */
+export class AnalysisProcessorImpl implements AnalysisProcessor {
+  private analysisRepository: AnalysisRepository;
+  private findingRepository: FindingRepository;
+  private croService: CROService;
+  private analysisEvents: AnalysisEventsService;
+  private artifactStore: ArtifactStore;
+  private usageService: UsageService;
+  private promptTemplateService: PromptTemplateService;
+
+  constructor(
+    analysisRepository: AnalysisRepository,
+    findingRepository: FindingRepository,
+    croService: CROService,
+    analysisEvents: AnalysisEventsService,
+    artifactStore: ArtifactStore,
+    usageService: UsageService,
+    promptTemplateService: PromptTemplateService
+  ) {
+    this.analysisRepository = analysisRepository;
+    this.findingRepository = findingRepository;
+    this.croService = croService;
+    this.analysisEvents = analysisEvents;
+    this.artifactStore = artifactStore;
+    this.usageService = usageService;
+    this.promptTemplateService = promptTemplateService;
+  }
+
+  async process(job: AnalysisJob): Promise<void> {
+    const { url, devices, scrapeOptions, promptTemplateId, blockPrivateUrls } = job.payload;
+    const onProgress = this.analysisEvents.createReporter(job.analysisId);
+
+    // Scrape the page
+    const pageData = await this.croService.scrapePage({ url, devices, options: scrapeOptions, blockPrivateUrls, onProgress });
+    if (!pageData.html && !pageData.text) {
+      throw new Error(`Failed to scrape page: ${url}`);
+    }
+
+    // Persist captured artifacts under per-analysis keys; the primary
+    // (first) device keeps the unsuffixed names
+    const deviceMetadata = [];
+    for (const [index, capture] of pageData.captures.entries()) {
+      const suffix = index === 0 ? '' : `-${capture.device}`;
+
+      const htmlPath = analysisArtifactKey(job.analysisId, `page${suffix}.html`);
+      await this.artifactStore.put(htmlPath, capture.html, 'text/html; charset=utf-8');
+
+      let screenshotPath: string | undefined;
+      if (capture.screenshot) {
+        screenshotPath = analysisArtifactKey(job.analysisId, `screenshot${suffix}.png`);
+        await this.artifactStore.put(screenshotPath, capture.screenshot, 'image/png');
+      }
+
+      // Rendered text is kept so later runs of the same URL can be diffed against it
+      const textPath = analysisArtifactKey(job.analysisId, `page${suffix}.txt`);
+      await this.artifactStore.put(textPath, capture.text, 'text/plain; charset=utf-8');
+
+      deviceMetadata.push({ device: capture.device, screenshotPath, htmlPath, textPath, layout: capture.layout });
+    }
+
+    const devicesSummary = pageData.captures.map(({ device, kind, layout }) => ({ device, kind, layout }));
+    const deviceIssues = detectDeviceIssues(devicesSummary);
+
+    // Update metadata with page information
+    await this.analysisRepository.update(job.analysisId, {
+      pageTitle: pageData.pageModel?.title || undefined,
+      pageModel: pageData.pageModel,
+      metadata: {
+        wordCount: pageData.text.split(' ').length,
+        pageSize: pageData.html.length,
+        screenshotPath: deviceMetadata[0]?.screenshotPath,
+        htmlPath: deviceMetadata[0]?.htmlPath,
+        textPath: deviceMetadata[0]?.textPath,
+        devices: deviceMetadata,
+        deviceIssues,
+      }
+    });
+
+    // Jobs enqueued before playbooks existed fall back to the active default template
+    const template = (promptTemplateId && await this.promptTemplateService.getById(promptTemplateId))
+      || await this.promptTemplateService.resolve();
+
+    // Analyze with GPT; every completion is billed, even when the analysis fails afterwards
+    const llmCalls: LLMCallUsage[] = [];
+    let analysis: AnalyzeWithGPTResult;
+    try {
+      analysis = await this.croService.analyzeWithGPT({
+        text: pageData.text,
+        html: pageData.html,
+        url,
+        pageModel: pageData.pageModel,
+        promptTemplate: template,
+        devices: devicesSummary,
+        deviceIssues,
+        onProgress,
+        onUsage: (usage) => llmCalls.push(usage),
+      });
+    } catch (error) {
+      await this.usageService.recordCalls(job.userId, job.analysisId, llmCalls);
+      throw error;
+    }
+    const usage = await this.usageService.recordCalls(job.userId, job.analysisId, llmCalls);
+    const { result, promptStats } = analysis;
+
+    // Measured device issues are findings in their own right
+    result.findings.push(...deviceIssuesToFindings(deviceIssues));
+
+    // Generate PDF report
+    const pdf = await this.croService.generateCROReportPDF({
+      analysisId: job.analysisId,
+      url,
+      result,
+      screenshot: pageData.screenshot,
+      onProgress,
+    });
+
+    let pdfPath: string | undefined;
+    if (pdf) {
+      pdfPath = analysisArtifactKey(job.analysisId, 'report.pdf');
+      await this.artifactStore.put(pdfPath, pdf, 'application/pdf');
+    }
+
+    // Store findings in their own table, scores on the analysis record
+    await this.findingRepository.replaceForAnalysis(job.analysisId, result.findings);
+
+    // Update analysis record with results
+    await this.analysisRepository.update(job.analysisId, {
+      analysis: result.summary,
+      overallScore: result.overallScore,
+      categoryScores: result.categoryScores,
+      pdfPath,
+      status: 'completed',
+      errorMessage: null,
+      metadata: {
+        analysisTokens: usage.totalTokens,
+        costUsd: usage.costUsd,
+        pdfGenerated: Boolean(pdf),
+        promptStats,
+        promptTemplate: { id: template.id, playbook: template.playbook, version: template.version },
+      }
+    });
+
+    this.analysisEvents.publish({
+      type: 'completed',
+      analysisId: job.analysisId,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { ApiKeyConfig, getApiKeyConfig } from '../config/api-key.config';
+import { ApiKey, ApiKeyScope, CreateApiKeyRequest } from '../models/api-key.model';
+import { ApiKeyRepository } from '../repositories/api-key.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { AuthenticatedUser } from './auth.service';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'analyze', 'write', 'admin'];
+
+// Every key starts with this, which is how the auth hook tells keys from JWTs
+export const API_KEY_PREFIX = 'cro_';
+
+// Scopes implied by each scope
+const SCOPE_GRANTS: Record<ApiKeyScope, ApiKeyScope[]> = {
+  read: ['read'],
+  analyze: ['read', 'analyze'],
+  write: ['read', 'analyze', 'write'],
+  admin: ['read', 'analyze', 'write', 'admin'],
+};
+
+// Routes that start or stop analyses, as `METHOD pattern` without a trailing slash
+const ANALYZE_ROUTES = new Set([
+  'POST /api/cro/analyze',
+  'POST /api/cro/analysis/:id/rerun',
+  'POST /api/batches',
+  'POST /api/batches/:id/cancel',
+  'POST /api/schedules/:id/run',
+]);
+
+// Account and key management needs the admin scope, whatever the method
+const ADMIN_ROUTE_PREFIXES = ['/api/auth/', '/api/api-keys'];
+
+// Changes made as an administrator need the admin scope as well
+const ADMIN_WRITE_ROUTE_PREFIXES = ['/api/admin/'];
+
+// The scope a request needs, from the pattern of the route it matched (`request.routeOptions.url`)
+// rather than the raw url, so encoded or duplicated slashes cannot change it
+export const requiredApiKeyScope = (method: string, route: string | undefined): ApiKeyScope => {
+  if (route === undefined) return 'read';
+  if (ADMIN_ROUTE_PREFIXES.some((prefix) => route.startsWith(prefix))) return 'admin';
+  if (['GET', 'HEAD', 'OPTIONS'].includes(method)) return 'read';
+  if (ADMIN_WRITE_ROUTE_PREFIXES.some((prefix) => route.startsWith(prefix))) return 'admin';
+  if (ANALYZE_ROUTES.has(`${method} ${route.replace(/(.)\/$/, '$1')}`)) return 'analyze';
+  return 'write';
+};
+
+export const apiKeyAllows = (apiKey: ApiKey, scope: ApiKeyScope): boolean =>
+  apiKey.scopes.some((granted) => SCOPE_GRANTS[granted]?.includes(scope));
+
+export interface ApiKeyService {
+  create(userId: string, request: CreateApiKeyRequest): Promise<{ apiKey: ApiKey; key: string }>;
+  authenticate(key: string): Promise<{ apiKey: ApiKey; user: AuthenticatedUser } | null>;
+}
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+// last_used_at is only written when it is older than this, not on every request
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * API keys authenticate scripts as the user who created them, limited to the
+ * key's scopes. A key is returned once when it is created; the database keeps
+ * its SHA-256 hash.
+ */
+export class ApiKeyServiceImpl implements ApiKeyService {
+  private apiKeyRepository: ApiKeyRepository;
+  private userRepository: UserRepository;
+  private config: ApiKeyConfig;
+
+  constructor(
+    apiKeyRepository: ApiKeyRepository,
+    userRepository: UserRepository,
+    config: ApiKeyConfig = getApiKeyConfig()
+  ) {
+    this.apiKeyRepository = apiKeyRepository;
+    this.userRepository = userRepository;
+    this.config = config;
+  }
+
+  get maxKeysPerUser(): number {
+    return this.config.maxKeysPerUser;
+  }
+
+  async create(userId: string, request: CreateApiKeyRequest): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+
+    const apiKey = await this.apiKeyRepository.create(
+      userId,
+      { ...request, rateLimitPerMinute: request.rateLimitPerMinute || this.config.defaultRateLimitPerMinute },
+      key.slice(0, API_KEY_PREFIX.length + 6),
+      hashKey(key)
+    );
+
+    return { apiKey, key };
+  }
+
+  // Returns null for unknown, revoked and expired keys, and keys of inactive users
+  async authenticate(key: string): Promise<{ apiKey: ApiKey; user: AuthenticatedUser } | null> {
+    const apiKey = await this.apiKeyRepository.findByKeyHash(hashKey(key));
+    if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+      return null;
+    }
+
+    const user = await this.userRepository.findById(apiKey.userId);
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > TOUCH_INTERVAL_MS) {
+      await this.apiKeyRepository.touch(apiKey.id);
+    }
+
+    return {
+      apiKey,
+      user: {
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        emailVerified: Boolean(user.emailVerifiedAt),
+        apiKeyId: apiKey.id,
+      },
+    };
+  }
+}
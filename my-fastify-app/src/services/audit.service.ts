@@ -0,0 +1,92 @@
+import { AnalysisEvent } from '../../types/cro.types';
+import { AuditChanges, AuditEvent, AuditEventFilters, CreateAuditEventRequest } from '../models/audit-event.model';
+import { AuditEventRepository } from '../repositories/audit-event.repository';
+import { AnalysisEventsService } from './analysis-events.service';
+
+const CSV_COLUMNS: Array<keyof AuditEvent> = [
+  'createdAt', 'action', 'actorType', 'actorId', 'apiKeyId', 'impersonatorId',
+  'targetType', 'targetId', 'ipAddress', 'userAgent', 'changes', 'metadata',
+];
+
+// The fields whose value differs between the two records, or undefined if none does
+export function auditChanges<T extends object>(before: T, after: T, fields: Array<keyof T>): AuditChanges | undefined {
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field as string] = { from: before[field] ?? null, to: after[field] ?? null };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : undefined;
+}
+
+// RFC 4180 CSV with a header row; changes and metadata are JSON. Cells that a
+// spreadsheet would run as a formula, such as a user agent of `=HYPERLINK(...)`,
+// are prefixed with an apostrophe so they open as text.
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const cell = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    const raw = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const rows = events.map((event) => CSV_COLUMNS.map((column) => cell(event[column])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+export interface AuditService {
+  start(): void;
+  stop(): void;
+  record(event: CreateAuditEventRequest): Promise<void>;
+  find(filters: AuditEventFilters): Promise<AuditEvent[]>;
+}
+
+/**
+ * Records who did what to which record. Routes record the actions of
+ * requests; analysis completions and failures come from analysis events.
+ */
+export class AuditServiceImpl implements AuditService {
+  private auditEventRepository: AuditEventRepository;
+  private analysisEvents: AnalysisEventsService;
+  private unsubscribe = () => {};
+
+  constructor(auditEventRepository: AuditEventRepository, analysisEvents: AnalysisEventsService) {
+    this.auditEventRepository = auditEventRepository;
+    this.analysisEvents = analysisEvents;
+  }
+
+  start(): void {
+    this.unsubscribe = this.analysisEvents.subscribeAll((event) => this.handleAnalysisEvent(event));
+  }
+
+  stop(): void {
+    this.unsubscribe();
+  }
+
+  // The action already happened, so a failure to record it is logged rather than thrown
+  async record(event: CreateAuditEventRequest): Promise<void> {
+    try {
+      await this.auditEventRepository.create(event);
+    } catch (error) {
+      console.error(`❌ Failed to record audit event ${event.action}:`, (error as Error).message);
+    }
+  }
+
+  async find(filters: AuditEventFilters): Promise<AuditEvent[]> {
+    return this.auditEventRepository.find(filters);
+  }
+
+  private handleAnalysisEvent(event: AnalysisEvent): void {
+    if (event.type === 'progress') return;
+
+    void this.record({
+      action: `analysis.${event.type}`,
+      actorType: 'system',
+      targetType: 'analysis',
+      targetId: event.analysisId,
+      metadata: event.type === 'failed' ? { error: event.error } : undefined,
+    });
+  }
+}
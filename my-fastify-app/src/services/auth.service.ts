@@ -1,71 +1,128 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
+import { AuthConfig, getAuthConfig } from '../config/auth.config';
 import { UserRepository } from '../repositories/user.repository';
+import { SessionRepository } from '../repositories/session.repository';
+import { RefreshTokenRepository } from '../repositories/refresh-token.repository';
 import { User, LoginRequest, LoginResponse, CreateUserRequest } from '../models/user.model';
+import { Session, SessionClient, SessionRevocationReason, TokenPair } from '../models/session.model';
 
 export interface JWTPayload {
   userId: string;
   email: string;
   role: User['role'];
+  // The session the token was issued for; revoking it invalidates the token
+  sessionId: string;
+  // Read from the user on every request rather than from the token
+  emailVerified: boolean;
+  // Read from the session, like emailVerified
+  impersonatorId?: string;
   iat: number;
   exp: number;
 }
 
+// The caller of a request, signed in with a JWT or an API key
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  role: User['role'];
+  emailVerified: boolean;
+  // Set when signed in with a JWT
+  sessionId?: string;
+  // Set when signed in with an API key
+  apiKeyId?: string;
+  // Set when an admin acts as the user
+  impersonatorId?: string;
+}
+
 export interface AuthService {
-  login(credentials: LoginRequest): Promise<LoginResponse>;
-  register(userData: CreateUserRequest): Promise<LoginResponse>;
+  login(credentials: LoginRequest, client?: SessionClient): Promise<LoginResponse>;
+  register(userData: CreateUserRequest, client?: SessionClient): Promise<LoginResponse>;
   verifyToken(token: string): Promise<JWTPayload>;
-  refreshToken(userId: string): Promise<string>;
+  refresh(refreshToken: string, client?: SessionClient): Promise<TokenPair>;
+  impersonate(user: User, adminId: string, client?: SessionClient): Promise<TokenPair>;
+  listSessions(userId: string): Promise<Session[]>;
+  revokeSession(userId: string, sessionId: string, reason?: SessionRevocationReason): Promise<boolean>;
+  revokeAllSessions(userId: string, reason: SessionRevocationReason, exceptSessionId?: string): Promise<number>;
 }
 
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Signing in opens a session and returns a short-lived access token (JWT)
+ * with a refresh token. Refresh tokens are stored hashed and rotate on every
+ * use; presenting one that was already exchanged means it leaked, so the
+ * whole session is revoked.
+ */
 export class AuthServiceImpl implements AuthService {
   //Inject User repository into the class
   //We dont care about the implementation of the user repository, we just need to inject it
   private userRepository: UserRepository;
-  private jwtSecret: string;
-  private jwtExpiresIn: string;
+  private sessionRepository: SessionRepository;
+  private refreshTokenRepository: RefreshTokenRepository;
+  private config: AuthConfig;
 
-  constructor(userRepository: UserRepository) {
+  constructor(
+    userRepository: UserRepository,
+    sessionRepository: SessionRepository,
+    refreshTokenRepository: RefreshTokenRepository,
+    config: AuthConfig = getAuthConfig()
+  ) {
     this.userRepository = userRepository;
-    this.jwtSecret = String(process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production');
-    this.jwtExpiresIn = process.env.JWT_EXPIRES_IN || '24h';
+    this.sessionRepository = sessionRepository;
+    this.refreshTokenRepository = refreshTokenRepository;
+    this.config = config;
   }
 
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
+  async login(credentials: LoginRequest, client: SessionClient = {}): Promise<LoginResponse> {
     const user = await this.userRepository.findByEmail(credentials.email);
-    
+
+    // Hashed for unknown emails and locked accounts too, so the response time
+    // does not tell which emails exist
+    const isValidPassword = await this.userRepository.verifyPassword(user, credentials.password);
+
     if (!user) {
       throw new Error('Invalid email or password');
     }
 
-    if (!user.isActive) {
-      throw new Error('Account is deactivated');
+    // Rejected whatever the password, so guessing while locked gains nothing
+    if (user.lockedUntil && user.lockedUntil > new Date()) {
+      throw new Error('Account is temporarily locked');
     }
 
-    const isValidPassword = await this.userRepository.verifyPassword(user, credentials.password);
-    
     if (!isValidPassword) {
+      const attempts = await this.userRepository.recordFailedLogin(user.id);
+      if (this.config.maxFailedLogins > 0 && attempts >= this.config.maxFailedLogins) {
+        await this.userRepository.lock(user.id, new Date(Date.now() + this.config.lockoutMinutes * 60 * 1000));
+        console.warn(`⚠️ Locked account ${user.id} after ${attempts} failed logins`);
+      }
       throw new Error('Invalid email or password');
     }
 
+    // Only told to someone who knows the password
+    if (!user.isActive) {
+      throw new Error('Account is deactivated');
+    }
+
     // Update last login
     await this.userRepository.updateLastLogin(user.id);
 
-    // Generate JWT token
-    const token = this.generateToken(user);
+    const tokens = await this.openSession(user, client);
 
     return {
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
+        emailVerified: Boolean(user.emailVerifiedAt),
       },
     };
   }
 
-  async register(userData: CreateUserRequest): Promise<LoginResponse> {
+  async register(userData: CreateUserRequest, client: SessionClient = {}): Promise<LoginResponse> {
     // Check if user already exists
     const existingUser = await this.userRepository.findByEmail(userData.email);
     if (existingUser) {
@@ -75,24 +132,24 @@ export class AuthServiceImpl implements AuthService {
     // Create new user
     const user = await this.userRepository.create(userData);
 
-    // Generate JWT token
-    const token = this.generateToken(user);
+    const tokens = await this.openSession(user, client);
 
     return {
-      token,
+      ...tokens,
       user: {
         id: user.id,
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
+        emailVerified: Boolean(user.emailVerifiedAt),
       },
     };
   }
 
   async verifyToken(token: string): Promise<JWTPayload> {
     try {
-      const decoded = jwt.verify(token, this.jwtSecret) as JWTPayload;
+      const decoded = jwt.verify(token, this.config.jwtSecret) as JWTPayload;
       
       // Verify user still exists and is active
       const user = await this.userRepository.findById(decoded.userId);
@@ -100,7 +157,18 @@ export class AuthServiceImpl implements AuthService {
         throw new Error('User not found or inactive');
       }
 
-      return decoded;
+      // Verify the session has not been logged out
+      const session = decoded.sessionId ? await this.sessionRepository.findById(decoded.sessionId) : null;
+      if (!session || session.userId !== user.id || session.revokedAt) {
+        throw new Error('Session revoked');
+      }
+
+      return {
+        ...decoded,
+        role: user.role,
+        emailVerified: Boolean(user.emailVerifiedAt),
+        impersonatorId: session.impersonatedBy,
+      };
     } catch (error) {
       if (error instanceof jwt.JsonWebTokenError) {
         throw new Error('Invalid token');
@@ -112,24 +180,105 @@ export class AuthServiceImpl implements AuthService {
     }
   }
 
-  async refreshToken(userId: string): Promise<string> {
-    const user = await this.userRepository.findById(userId);
+  async refresh(refreshToken: string, client: SessionClient = {}): Promise<TokenPair> {
+    const stored = await this.refreshTokenRepository.findByTokenHash(hashToken(refreshToken));
+    if (!stored) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const session = await this.sessionRepository.findById(stored.sessionId);
+    if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+      throw new Error('Session expired or revoked');
+    }
+
+    // A second exchange of the same token means someone else holds a copy
+    const claimed = !stored.usedAt && (await this.refreshTokenRepository.markUsed(stored.id));
+    if (!claimed) {
+      await this.sessionRepository.revoke(session.id, 'refresh_token_reuse');
+      console.warn(`⚠️ Refresh token reuse detected, revoked session ${session.id} of user ${session.userId}`);
+      throw new Error('Refresh token reuse detected');
+    }
+
+    const user = await this.userRepository.findById(session.userId);
     if (!user || !user.isActive) {
       throw new Error('User not found or inactive');
     }
 
-    return this.generateToken(user);
+    await this.sessionRepository.touch(session.id, this.sessionExpiry(), client);
+
+    return this.issueTokens(user, session.id);
   }
 
-  private generateToken(user: User): string {
-    const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
+  // A session of the user opened by an admin, marked as impersonated
+  async impersonate(user: User, adminId: string, client: SessionClient = {}): Promise<TokenPair> {
+    const session = await this.sessionRepository.create({
+      userId: user.id,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: this.sessionExpiry(),
+      impersonatedBy: adminId,
+    });
+
+    console.warn(`⚠️ Admin ${adminId} is impersonating user ${user.id} (session ${session.id})`);
+
+    return this.issueTokens(user, session.id);
+  }
+
+  async listSessions(userId: string): Promise<Session[]> {
+    return this.sessionRepository.findActiveByUserId(userId);
+  }
+
+  // Returns false when the session does not exist or belongs to someone else
+  async revokeSession(userId: string, sessionId: string, reason: SessionRevocationReason = 'logout'): Promise<boolean> {
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.userId !== userId) {
+      return false;
+    }
+
+    return this.sessionRepository.revoke(session.id, reason);
+  }
+
+  async revokeAllSessions(userId: string, reason: SessionRevocationReason, exceptSessionId?: string): Promise<number> {
+    return this.sessionRepository.revokeAllForUser(userId, reason, exceptSessionId);
+  }
+
+  private async openSession(user: User, client: SessionClient): Promise<TokenPair> {
+    await this.sessionRepository.deleteInactive(user.id);
+
+    const session = await this.sessionRepository.create({
+      userId: user.id,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+      expiresAt: this.sessionExpiry(),
+    });
+
+    return this.issueTokens(user, session.id);
+  }
+
+  private async issueTokens(user: User, sessionId: string): Promise<TokenPair> {
+    const refreshToken = crypto.randomBytes(32).toString('hex');
+    await this.refreshTokenRepository.create(sessionId, hashToken(refreshToken));
+
+    return {
+      token: this.generateToken(user, sessionId),
+      refreshToken,
+    };
+  }
+
+  private sessionExpiry(): Date {
+    return new Date(Date.now() + this.config.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+  }
+
+  private generateToken(user: User, sessionId: string): string {
+    const payload: Omit<JWTPayload, 'iat' | 'exp' | 'emailVerified' | 'impersonatorId'> = {
       userId: user.id,
       email: user.email,
       role: user.role,
+      sessionId,
     };
 
-    return jwt.sign(payload as object, this.jwtSecret as string, {
-      expiresIn: this.jwtExpiresIn,
+    return jwt.sign(payload as object, this.config.jwtSecret as string, {
+      expiresIn: this.config.accessTokenExpiresIn,
     } as jwt.SignOptions);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,65 @@
+import { OrganizationRole } from '../models/organization.model';
+import { OrganizationMemberRepository } from '../repositories/organization-member.repository';
+
+/**
+ * - `read`: view a resource and everything derived from it
+ * - `write`: create or change resources, start analyses
+ * - `delete`: remove resources
+ * - `manage`: organization settings, members and invitations
+ */
+export type AuthorizationAction = 'read' | 'write' | 'delete' | 'manage';
+
+// Anything owned by a user and optionally shared through an organization
+export interface OwnedResource {
+  userId: string;
+  organizationId?: string;
+}
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, AuthorizationAction[]> = {
+  owner: ['read', 'write', 'delete', 'manage'],
+  editor: ['read', 'write', 'delete'],
+  viewer: ['read'],
+};
+
+export const ORGANIZATION_ROLES = Object.keys(ROLE_PERMISSIONS) as OrganizationRole[];
+
+export function roleAllows(role: OrganizationRole, action: AuthorizationAction): boolean {
+  return ROLE_PERMISSIONS[role].includes(action);
+}
+
+export interface AuthorizationService {
+  can(userId: string, action: AuthorizationAction, resource: OwnedResource): Promise<boolean>;
+  canInOrganization(userId: string, action: AuthorizationAction, organizationId: string): Promise<boolean>;
+  getRole(userId: string, organizationId: string): Promise<OrganizationRole | null>;
+}
+
+/**
+ * The one place that decides who may do what. Personal resources are only
+ * accessible to their owner. Organization resources are governed by the
+ * member's role alone, so someone who leaves an organization loses access
+ * to what they created there.
+ */
+export class AuthorizationServiceImpl implements AuthorizationService {
+  private memberRepository: OrganizationMemberRepository;
+
+  constructor(memberRepository: OrganizationMemberRepository) {
+    this.memberRepository = memberRepository;
+  }
+
+  async can(userId: string, action: AuthorizationAction, resource: OwnedResource): Promise<boolean> {
+    if (resource.organizationId) {
+      return this.canInOrganization(userId, action, resource.organizationId);
+    }
+
+    return resource.userId === userId;
+  }
+
+  async canInOrganization(userId: string, action: AuthorizationAction, organizationId: string): Promise<boolean> {
+    const role = await this.getRole(userId, organizationId);
+    return role !== null && roleAllows(role, action);
+  }
+
+  async getRole(userId: string, organizationId: string): Promise<OrganizationRole | null> {
+    return this.memberRepository.getRole(organizationId, userId);
+  }
+}
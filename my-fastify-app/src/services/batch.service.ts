@@ -0,0 +1,316 @@
+import { AnalysisEvent, CROCategory, CROFindingSeverity } from '../../types/cro.types';
+import { BatchConfig, getBatchConfig } from '../config/batch.config';
+import { DEFAULT_DEVICES } from '../config/devices.config';
+import { DEFAULT_PLAYBOOK } from '../config/playbooks.config';
+import { mergeScrapeOptions } from '../config/scrape.config';
+import { Batch, BatchSummary } from '../models/batch.model';
+import { AnalysisRepository } from '../repositories/analysis.repository';
+import { BatchRepository } from '../repositories/batch.repository';
+import { FindingRepository } from '../repositories/finding.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { BatchInput } from '../validators/batch.validator';
+import { CRO_CATEGORIES } from '../validators/cro-result.validator';
+import { AnalysisEventsService } from './analysis-events.service';
+import { JobQueueService } from './job-queue.service';
+import { PromptTemplateService } from './prompt-template.service';
+import { crawlSameOrigin, discoverSitemapUrls } from './url-discovery.service';
+
+export interface BatchService {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  create(userId: string, input: BatchInput): Promise<Batch>;
+  cancel(batch: Batch): Promise<Batch | null>;
+  getSummary(batch: Batch): Promise<BatchSummary>;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Runs a batch of pages as child analyses. URLs from a sitemap or crawl are
+ * discovered in the background; then at most `concurrency` children are in
+ * the job queue at a time, and each finished child lets the next one in.
+ * Children that are not queued yet carry no job, so a restart simply
+ * resumes filling the free slots.
+ */
+export class BatchServiceImpl implements BatchService {
+  private batchRepository: BatchRepository;
+  private analysisRepository: AnalysisRepository;
+  private findingRepository: FindingRepository;
+  private projectRepository: ProjectRepository;
+  private userRepository: UserRepository;
+  private jobQueue: JobQueueService;
+  private promptTemplateService: PromptTemplateService;
+  private analysisEvents: AnalysisEventsService;
+  private config: BatchConfig;
+  private discoveries = new Set<Promise<void>>();
+  // Serializes slot filling per batch so two finishing children cannot overfill it
+  private locks = new Map<string, Promise<void>>();
+  private unsubscribe = () => {};
+
+  constructor(
+    batchRepository: BatchRepository,
+    analysisRepository: AnalysisRepository,
+    findingRepository: FindingRepository,
+    projectRepository: ProjectRepository,
+    userRepository: UserRepository,
+    jobQueue: JobQueueService,
+    promptTemplateService: PromptTemplateService,
+    analysisEvents: AnalysisEventsService,
+    config: BatchConfig = getBatchConfig()
+  ) {
+    this.batchRepository = batchRepository;
+    this.analysisRepository = analysisRepository;
+    this.findingRepository = findingRepository;
+    this.projectRepository = projectRepository;
+    this.userRepository = userRepository;
+    this.jobQueue = jobQueue;
+    this.promptTemplateService = promptTemplateService;
+    this.analysisEvents = analysisEvents;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    this.unsubscribe = this.analysisEvents.subscribeAll((event) => {
+      this.handleAnalysisEvent(event).catch((error) => {
+        console.error(`❌ Failed to advance batch for analysis ${event.analysisId}:`, (error as Error).message);
+      });
+    });
+
+    // Discovery is not resumable; those batches are failed so the user can resubmit
+    for (const batch of await this.batchRepository.findByStatus('discovering')) {
+      await this.batchRepository.update(batch.id, {
+        status: 'failed',
+        errorMessage: 'URL discovery was interrupted by a restart',
+        completedAt: new Date(),
+      });
+    }
+
+    const processing = await this.batchRepository.findByStatus('processing');
+    for (const batch of processing) {
+      await this.advance(batch.id);
+    }
+
+    if (processing.length > 0) {
+      console.log(`🔄 Resumed ${processing.length} batch(es)`);
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.unsubscribe();
+    await Promise.all([...this.discoveries]);
+    await Promise.all([...this.locks.values()]);
+  }
+
+  async create(userId: string, input: BatchInput): Promise<Batch> {
+    const playbook = input.playbook || DEFAULT_PLAYBOOK;
+    const template = await this.promptTemplateService.resolve(playbook);
+
+    const batch = await this.batchRepository.create({
+      name: input.name,
+      source: input.source,
+      sourceUrl: input.sourceUrl,
+      status: input.source === 'urls' ? 'processing' : 'discovering',
+      options: {
+        devices: input.devices || DEFAULT_DEVICES,
+        scrapeOptions: input.scrapeOptions || {},
+        playbook,
+        promptTemplateId: template.id,
+        concurrency: input.concurrency,
+        maxPages: input.maxPages,
+        crawlDepth: input.crawlDepth,
+      },
+    }, userId);
+
+    if (input.urls) {
+      await this.addPages(batch, input.urls.slice(0, input.maxPages));
+      return (await this.batchRepository.findById(batch.id))!;
+    }
+
+    const discovery = this.discover(batch).finally(() => this.discoveries.delete(discovery));
+    this.discoveries.add(discovery);
+    return batch;
+  }
+
+  async cancel(batch: Batch): Promise<Batch | null> {
+    await this.withLock(batch.id, async () => {
+      // Children already in the job queue finish; the rest never start
+      const unqueued = await this.batchRepository.findUnqueuedAnalysisIds(batch.id, batch.total || this.config.maxUrls);
+      for (const analysisId of unqueued) {
+        await this.analysisRepository.update(analysisId, { status: 'failed', errorMessage: 'Batch cancelled' });
+      }
+
+      await this.batchRepository.update(batch.id, { status: 'cancelled', completedAt: new Date() });
+    });
+
+    return this.batchRepository.findById(batch.id);
+  }
+
+  async getSummary(batch: Batch): Promise<BatchSummary> {
+    const progress = await this.batchRepository.getProgress(batch.id);
+    const analyses = await this.analysisRepository.find({ batchId: batch.id, status: 'completed' });
+    const scored = analyses.filter((analysis) => analysis.overallScore !== undefined && analysis.overallScore !== null);
+
+    const average = (values: number[]) => (values.length > 0 ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null);
+
+    const categoryAverages: BatchSummary['categoryAverages'] = {};
+    for (const category of CRO_CATEGORIES) {
+      const value = average(scored.map((a) => a.categoryScores?.[category]).filter((v): v is number => typeof v === 'number'));
+      if (value !== null) {
+        categoryAverages[category] = value;
+      }
+    }
+
+    const severityCounts: Record<CROFindingSeverity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+    const findingGroups = new Map<string, { category: CROCategory; title: string; severity: CROFindingSeverity; pages: Set<string> }>();
+    const severityRank: Record<CROFindingSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+    for (const analysis of analyses) {
+      for (const finding of await this.findingRepository.findByAnalysisId(analysis.id)) {
+        severityCounts[finding.severity]++;
+
+        const key = `${finding.category}:${finding.title.trim().toLowerCase()}`;
+        const group = findingGroups.get(key)
+          || { category: finding.category, title: finding.title, severity: finding.severity, pages: new Set<string>() };
+        group.pages.add(analysis.id);
+        // A group is as severe as its worst occurrence
+        if (severityRank[finding.severity] < severityRank[group.severity]) {
+          group.severity = finding.severity;
+        }
+        findingGroups.set(key, group);
+      }
+    }
+
+    return {
+      ...progress,
+      averageScore: average(scored.map((a) => a.overallScore!)),
+      categoryAverages,
+      lowestScoring: scored
+        .sort((a, b) => a.overallScore! - b.overallScore!)
+        .slice(0, 5)
+        .map((a) => ({ analysisId: a.id, url: a.url, overallScore: a.overallScore! })),
+      severityCounts,
+      commonFindings: [...findingGroups.values()]
+        .filter((group) => group.pages.size > 1)
+        .sort((a, b) => b.pages.size - a.pages.size || severityRank[a.severity] - severityRank[b.severity])
+        .slice(0, 10)
+        .map(({ pages, ...group }) => ({ ...group, pages: pages.size })),
+    };
+  }
+
+  private async discover(batch: Batch): Promise<void> {
+    const options = {
+      maxPages: batch.options.maxPages,
+      timeoutMs: this.config.discoveryTimeoutMs,
+      allowPrivateUrls: this.config.allowPrivateUrls,
+    };
+
+    try {
+      const urls = batch.source === 'sitemap'
+        ? await discoverSitemapUrls(batch.sourceUrl!, options)
+        : await crawlSameOrigin(batch.sourceUrl!, batch.options.crawlDepth ?? 1, options);
+
+      if (urls.length === 0) {
+        throw new Error(`No pages found at ${batch.sourceUrl}`);
+      }
+
+      // The batch may have been cancelled while its pages were being discovered
+      const current = await this.batchRepository.findById(batch.id);
+      if (current?.status !== 'discovering') return;
+
+      console.log(`🔎 Batch ${batch.id}: discovered ${urls.length} page(s) from ${batch.sourceUrl}`);
+      await this.batchRepository.update(batch.id, { status: 'processing' });
+      await this.addPages(batch, urls);
+    } catch (error) {
+      console.error(`❌ Batch ${batch.id} discovery failed:`, (error as Error).message);
+      await this.batchRepository.update(batch.id, {
+        status: 'failed',
+        errorMessage: `URL discovery failed: ${(error as Error).message}`,
+        completedAt: new Date(),
+      });
+    }
+  }
+
+  private async addPages(batch: Batch, urls: string[]): Promise<void> {
+    for (const url of urls) {
+      const project = await this.projectRepository.findForUrl({ userId: batch.userId }, url);
+      await this.analysisRepository.create({ url, batchId: batch.id, projectId: project?.id, status: 'pending' }, batch.userId);
+    }
+
+    await this.batchRepository.update(batch.id, { total: urls.length });
+    await this.advance(batch.id);
+  }
+
+  private async handleAnalysisEvent(event: AnalysisEvent): Promise<void> {
+    if (event.type === 'progress') return;
+
+    const analysis = await this.analysisRepository.findById(event.analysisId);
+    if (analysis?.batchId) {
+      await this.advance(analysis.batchId);
+    }
+  }
+
+  /**
+   * Queues children until `concurrency` are in flight, and closes the batch
+   * once no child is left to run.
+   */
+  private advance(batchId: string): Promise<void> {
+    return this.withLock(batchId, async () => {
+      const batch = await this.batchRepository.findById(batchId);
+      if (!batch || batch.status !== 'processing') return;
+
+      const user = await this.userRepository.findById(batch.userId);
+      const scrapeOptions = mergeScrapeOptions(user?.scrapeDefaults || {}, batch.options.scrapeOptions);
+
+      // Pages failed on quota free their slot again, so keep going until the slots are full
+      let free = batch.options.concurrency - (await this.batchRepository.countInFlight(batchId));
+      while (free > 0) {
+        const next = await this.batchRepository.findUnqueuedAnalysisIds(batchId, free);
+        if (next.length === 0) break;
+
+        for (const analysisId of next) {
+          // Reserved per page, so a batch stops spending once the quota is used up
+          const analysis = await this.analysisRepository.findById(analysisId);
+          const { quota } = await this.jobQueue.enqueue(analysisId, batch.userId, {
+            url: analysis!.url,
+            devices: batch.options.devices,
+            scrapeOptions,
+            promptTemplateId: batch.options.promptTemplateId,
+            blockPrivateUrls: !this.config.allowPrivateUrls,
+          });
+
+          if (!quota.allowed) {
+            await this.analysisRepository.update(analysisId, {
+              status: 'failed',
+              errorMessage: `Usage quota exceeded: ${quota.reason}`,
+            });
+            continue;
+          }
+          free--;
+        }
+      }
+
+      const progress = await this.batchRepository.getProgress(batchId);
+      if (progress.pending === 0 && progress.processing === 0) {
+        await this.batchRepository.update(batchId, {
+          status: progress.completed > 0 ? 'completed' : 'failed',
+          errorMessage: progress.completed > 0 ? undefined : 'No page could be analysed',
+          completedAt: new Date(),
+        });
+        console.log(`✅ Batch ${batchId} finished: ${progress.completed} completed, ${progress.failed} failed`);
+      }
+    });
+  }
+
+  private withLock(batchId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.locks.get(batchId) || Promise.resolve();
+    const current = previous.then(task, task);
+    const tracked = current.catch(() => {}).finally(() => {
+      if (this.locks.get(batchId) === tracked) {
+        this.locks.delete(batchId);
+      }
+    });
+    this.locks.set(batchId, tracked);
+    return current;
+  }
+}
@@ -0,0 +1,67 @@
+import { Frame, Page } from 'playwright';
+
+// "Accept" buttons of the consent management platforms we see most often
+const CONSENT_SELECTORS = [
+  '#onetrust-accept-btn-handler',
+  '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+  '#CybotCookiebotDialogBodyButtonAccept',
+  '#didomi-notice-agree-button',
+  '.qc-cmp2-summary-buttons button[mode="primary"]',
+  '#truste-consent-button',
+  '#axeptio_btn_acceptAll',
+  '[data-testid="uc-accept-all-button"]',
+  '.fc-cta-consent',
+  '.iubenda-cs-accept-btn',
+  '#cookie_action_close_header',
+  '.cky-btn-accept',
+  '.cmplz-accept',
+  '.cc-allow',
+  '.cc-btn.cc-dismiss',
+];
+
+// Fallback for hand-rolled banners, matched against the full button label
+const CONSENT_BUTTON_TEXT = /^\s*(accept( all)?( cookies)?|allow( all)?( cookies)?|agree|i agree|got it|ok|aceitar( todos)?( os cookies)?|concordo|aceptar( todo)?|accepter( tout)?|tout accepter|alle akzeptieren|akzeptieren|accetta( tutti)?)\s*$/i;
+
+/**
+ * Clicks the first visible consent "accept" button in the page or any of its
+ * frames (several CMPs render inside an iframe). Returns whether a banner was
+ * dismissed. Never throws: a banner we cannot close is not worth failing the
+ * capture for.
+ */
+export async function dismissConsentBanners(page: Page, timeoutMs = 3000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (const frame of page.frames()) {
+    if (Date.now() > deadline) break;
+
+    if (await clickFirstVisible(frame)) {
+      // Give the banner's close animation a moment before capturing
+      await page.waitForTimeout(500);
+      return true;
+    }
+  }
+
+  return false;
+}
+
+async function clickFirstVisible(frame: Frame): Promise<boolean> {
+  try {
+    for (const selector of CONSENT_SELECTORS) {
+      const button = frame.locator(selector).first();
+      if (await button.isVisible().catch(() => false)) {
+        await button.click({ timeout: 1000 });
+        return true;
+      }
+    }
+
+    const textButton = frame.getByRole('button', { name: CONSENT_BUTTON_TEXT }).first();
+    if (await textButton.isVisible().catch(() => false)) {
+      await textButton.click({ timeout: 1000 });
+      return true;
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to dismiss consent banner:', (error as Error).message);
+  }
+
+  return false;
+}
@@ -1,76 +1,258 @@
-import { chromium } from 'playwright';
-import OpenAI from 'openai';
-//import generatePDFfromHTML from './pdf-conversion.js';
-import fs from 'fs/promises';
-import { encoding_for_model } from 'tiktoken';
+import { Browser, Page, chromium } from 'playwright';
 import {
   AnalyzeWithGPTParams,
+  AnalyzeWithGPTResult,
+  CROAnalysisResult,
   CROService,
+  DeviceCapture,
+  DeviceLayoutMetrics,
   GeneratePDFParams,
+  LLMCallPurpose,
+  LLMCallUsage,
+  ProgressReporter,
   ScrapePageParams,
   ScrapePageResult,
+  WaitStrategy,
 } from '../../types/cro.types';
+import {
+  ValidationResult,
+  validateCROAnalysisResult,
+} from '../validators/cro-result.validator';
+import { LLMConfig, getLLMConfig } from '../config/llm.config';
+import { LLMMessage, LLMProvider } from '../providers/llm/llm.provider';
+import { createLLMProvider } from '../providers/llm/llm-provider.factory';
+import { ReportRenderer, ReportRendererImpl } from './report.service';
+import { DEFAULT_DEVICES, DeviceProfile, getDeviceProfile } from '../config/devices.config';
+import { MIN_TAP_TARGET_SIZE } from './device-comparison.service';
+import { dismissConsentBanners } from './consent-banner.service';
+import { resolvesToPrivateNetwork } from './network.service';
+import { PAGE_MODEL_LIMITS, extractPageModel, mergePageModels } from './page-model.service';
+import { PromptBuilder, PromptBuilderImpl, mergePartialResults } from './prompt-builder.service';
+import { ResolvedScrapeOptions, getScrapeDefaults, mergeScrapeOptions } from '../config/scrape.config';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+/**
+ * Runs inside the page. Must stay self-contained: Playwright serializes the
+ * function source, so it cannot reference anything from this module.
+ */
+function measureLayout(minTapSize: number): DeviceLayoutMetrics {
+  const viewportWidth = window.innerWidth;
+  const viewportHeight = window.innerHeight;
+
+  const isVisible = (el: Element) => {
+    const style = window.getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    return style.visibility !== 'hidden' && style.display !== 'none' && rect.width > 0 && rect.height > 0;
+  };
+
+  const ctaSelector = 'button, input[type="submit"], input[type="button"], a[role="button"], '
+    + 'a[class*="btn"], a[class*="button"], a[class*="cta"], [class*="cta"] a';
+  const ctas = Array.from(document.querySelectorAll(ctaSelector)).filter(isVisible);
+  const ctaTops = ctas.map((el) => el.getBoundingClientRect().top + window.scrollY);
+
+  const interactive = Array.from(document.querySelectorAll('a[href], button, input, select, textarea, [role="button"]'))
+    .filter(isVisible);
+  const smallTapTargets = interactive
+    .map((el) => {
+      const rect = el.getBoundingClientRect();
+      const text = ((el as HTMLElement).innerText || el.getAttribute('aria-label') || el.getAttribute('value') || '')
+        .trim()
+        .slice(0, 60);
+      return { text, width: rect.width, height: rect.height };
+    })
+    .filter((target) => target.width < minTapSize || target.height < minTapSize)
+    .slice(0, 25);
+
+  return {
+    viewportWidth,
+    viewportHeight,
+    pageHeight: document.documentElement.scrollHeight,
+    ctaCount: ctas.length,
+    ctasAboveFold: ctaTops.filter((top) => top < viewportHeight).length,
+    firstCtaTop: ctaTops.length > 0 ? Math.min(...ctaTops) : undefined,
+    smallTapTargets,
+    horizontalOverflow: document.documentElement.scrollWidth > viewportWidth + 1,
+  };
+}
+
 export class CROServiceImpl implements CROService {
-  private readonly openai: OpenAI;
-  private readonly enc: ReturnType<typeof encoding_for_model>;
+  private readonly llm: LLMProvider;
+  private readonly llmConfig: LLMConfig;
+  private readonly reportRenderer: ReportRenderer;
+  private readonly promptBuilder: PromptBuilder;
 
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-    this.enc = encoding_for_model('gpt-4-turbo');
+  constructor(
+    llmConfig: LLMConfig = getLLMConfig(),
+    llm: LLMProvider = createLLMProvider(llmConfig),
+    reportRenderer: ReportRenderer = new ReportRendererImpl(),
+    promptBuilder: PromptBuilder = new PromptBuilderImpl(llmConfig, (text) => llm.countTokens(text))
+  ) {
+    this.llmConfig = llmConfig;
+    this.llm = llm;
+    this.reportRenderer = reportRenderer;
+    this.promptBuilder = promptBuilder;
   }
 
   public async scrapePage({
     url,
+    devices = DEFAULT_DEVICES,
+    options,
+    blockPrivateUrls = false,
+    onProgress,
   }: ScrapePageParams): Promise<ScrapePageResult> {
+    if (blockPrivateUrls && await resolvesToPrivateNetwork(new URL(url).hostname)) {
+      throw new Error(`${url} points at a private network`);
+    }
+
+    const resolved = mergeScrapeOptions(getScrapeDefaults(), options);
+    const deadline = Date.now() + resolved.maxTimeMs;
+
+    const profiles = devices
+      .map((id) => getDeviceProfile(id))
+      .filter((profile): profile is DeviceProfile => Boolean(profile));
+
     const browser = await chromium.launch({ headless: true });
+    const captures: DeviceCapture[] = [];
+
+    try {
+      for (const profile of profiles) {
+        try {
+          captures.push(await this.captureDevice(browser, url, profile, resolved, deadline, blockPrivateUrls, onProgress));
+        } catch (err) {
+          console.error(`❌ Failed to scrape page on ${profile.id}:`, (err as Error).message);
+        }
+      }
+    } finally {
+      await browser.close();
+    }
+
+    // The first requested device is the primary capture used for the analysis text
+    const primary = captures[0];
+    if (!primary) {
+      return { html: '', text: '', captures };
+    }
 
+    return {
+      html: primary.html,
+      text: primary.text,
+      screenshot: primary.screenshot,
+      captures,
+      pageModel: mergePageModels(captures.map((capture) => capture.pageModel)),
+    };
+  }
+
+  private async captureDevice(
+    browser: Browser,
+    url: string,
+    profile: DeviceProfile,
+    options: ResolvedScrapeOptions,
+    deadline: number,
+    blockPrivateUrls: boolean,
+    onProgress?: ProgressReporter
+  ): Promise<DeviceCapture> {
+    const remaining = () => {
+      const ms = deadline - Date.now();
+      if (ms <= 0) {
+        throw new Error(`Scrape time budget of ${options.maxTimeMs}ms exceeded`);
+      }
+      return ms;
+    };
+
+    const language = options.locale.split('-')[0];
     const context = await browser.newContext({
-      userAgent:
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/136.0.0.0 Safari/537.36',
-      locale: 'pt-PT',
+      userAgent: profile.userAgent,
+      viewport: profile.viewport,
+      deviceScaleFactor: profile.deviceScaleFactor,
+      isMobile: profile.isMobile,
+      hasTouch: profile.hasTouch,
+      locale: options.locale,
+      timezoneId: options.timezoneId,
+      httpCredentials: options.basicAuth,
       extraHTTPHeaders: {
         accept:
           'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-        'accept-language': 'pt-PT,pt;q=0.9,en;q=0.8',
+        'accept-language': `${options.locale},${language};q=0.9,en;q=0.8`,
         'cache-control': 'max-age=0',
         'upgrade-insecure-requests': '1',
         'sec-fetch-dest': 'document',
         'sec-fetch-mode': 'navigate',
         'sec-fetch-site': 'none',
         'sec-fetch-user': '?1',
+        ...options.extraHeaders,
       },
     });
 
-    const page = await context.newPage();
-
     try {
-      await page.goto(url, { waitUntil: 'domcontentloaded' });
-      await page.waitForTimeout(7000);
+      if (options.cookies.length > 0) {
+        // Cookies without an explicit domain are scoped to the analysed URL
+        await context.addCookies(options.cookies.map((cookie) => (
+          cookie.domain
+            ? { ...cookie, domain: cookie.domain, path: cookie.path || '/' }
+            : { name: cookie.name, value: cookie.value, url, secure: cookie.secure, httpOnly: cookie.httpOnly, sameSite: cookie.sameSite }
+        )));
+      }
 
-      await page.screenshot({
-        path: 'landing-page-snapshot.png',
+      const page = await context.newPage();
+
+      onProgress?.('navigation', `Loading ${url} (${profile.label})`);
+      await page.goto(url, { waitUntil: 'domcontentloaded', timeout: remaining() });
+      // The browser follows redirects on its own, so check where it ended up
+      if (blockPrivateUrls && await resolvesToPrivateNetwork(new URL(page.url()).hostname)) {
+        throw new Error(`${url} redirected to a private network`);
+      }
+      await this.waitForPage(page, options.waitStrategy, remaining());
+
+      if (options.dismissConsent && await dismissConsentBanners(page, Math.min(3000, remaining()))) {
+        console.log(`🍪 Dismissed consent banner on ${profile.id}`);
+      }
+
+      remaining();
+
+      onProgress?.('screenshot', profile.label);
+      const screenshot = await page.screenshot({
         fullPage: true,
       });
 
-      console.log('📸 Screenshot saved as landing-page-snapshot.png');
+      console.log(`📸 Screenshot captured on ${profile.id} (${screenshot.length} bytes)`);
 
+      onProgress?.('text_extraction', profile.label);
       const html = await page.content();
       const text = await page.evaluate(() => document.body.innerText);
+      const layout = await page.evaluate(measureLayout, MIN_TAP_TARGET_SIZE);
+      const pageModel = await page.evaluate(extractPageModel, { device: profile.id, limits: PAGE_MODEL_LIMITS });
 
-      await fs.writeFile('landing-page.html', html);
-
-      return { html, text };
-    } catch (err) {
-      console.error('❌ Failed to scrape page:', (err as Error).message);
-      return { html: '', text: '' };
+      return {
+        device: profile.id,
+        kind: profile.kind,
+        html,
+        text,
+        screenshot,
+        layout,
+        pageModel,
+      };
     } finally {
-      await browser.close();
+      await context.close();
+    }
+  }
+
+  private async waitForPage(page: Page, strategy: WaitStrategy, budgetMs: number): Promise<void> {
+    switch (strategy.type) {
+      case 'networkidle':
+        await page.waitForLoadState('networkidle', {
+          timeout: Math.min(strategy.timeoutMs ?? budgetMs, budgetMs),
+        });
+        break;
+      case 'selector':
+        await page.waitForSelector(strategy.selector, {
+          state: 'visible',
+          timeout: Math.min(strategy.timeoutMs ?? budgetMs, budgetMs),
+        });
+        break;
+      case 'delay':
+        await page.waitForTimeout(Math.min(strategy.delayMs, budgetMs));
+        break;
     }
   }
 
@@ -78,51 +260,146 @@ export class CROServiceImpl implements CROService {
     text,
     html,
     url,
-  }: AnalyzeWithGPTParams): Promise<string> {
-    const sampledText = this.getTrimmedText(text);
-    const sampledHtml = this.getTrimmedText(html);
+    pageModel,
+    promptTemplate,
+    devices = [],
+    deviceIssues = [],
+    onProgress,
+    onUsage,
+  }: AnalyzeWithGPTParams): Promise<AnalyzeWithGPTResult> {
+    onProgress?.('prompt_building');
+    const { prompts, stats } = this.promptBuilder.buildAnalysisPrompts({
+      url,
+      text,
+      html,
+      pageModel,
+      template: promptTemplate,
+      devices,
+      deviceIssues,
+    });
 
-    const prompt = `
-Act as a senior CRO (Conversion Rate Optimization) expert with over 20 years of experience optimizing high-converting landing pages.
-...
-Page URL: ${url}
+    console.log(`🧮 Prompt plan: ${stats.strategy}, ${prompts.length} prompt(s), ${stats.totalPromptTokens} tokens (${this.llm.name}/${this.llm.model})`);
+    stats.truncations.forEach((note) => console.warn(`⚠️ Prompt truncated: ${note}`));
 
-Page text (sampled): 
-${sampledText}
+    if (prompts.length === 1) {
+      const result = await this.completeAnalysis(prompts[0], 'analysis', onProgress, onUsage);
+      return { result, promptStats: stats };
+    }
 
-Page HTML (sampled): 
-${sampledHtml}
-`;
+    // Map: analyse each chunk on its own
+    const partials: CROAnalysisResult[] = [];
+    for (const [index, prompt] of prompts.entries()) {
+      partials.push(await this.completeAnalysis(prompt, 'chunk', onProgress, onUsage, `part ${index + 1} of ${prompts.length}`));
+    }
 
-    const promptTokens = this.enc.encode(prompt).length;
-    console.log(`🧮 Prompt tokens: ${promptTokens}`);
+    // Reduce: let the model consolidate the partial analyses when they fit in the budget
+    const mergePrompt = this.promptBuilder.buildMergePrompt(url, partials);
+    stats.mergePromptTokens = this.promptBuilder.countTokens(mergePrompt);
 
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4-turbo',
-      messages: [{ role: 'user', content: prompt }],
-      temperature: 0.7,
-    });
+    if (stats.mergePromptTokens > stats.budgetTokens) {
+      stats.mergeStrategy = 'deterministic';
+      stats.truncations.push(`merge: ${stats.mergePromptTokens} tokens exceed the budget, merged without the model`);
+      return { result: mergePartialResults(partials), promptStats: stats };
+    }
 
-    const reply = response.choices[0].message.content ?? '';
-    const replyTokens = this.enc.encode(reply).length;
+    stats.mergeStrategy = 'llm';
+    stats.totalPromptTokens += stats.mergePromptTokens;
+    const result = await this.completeAnalysis(mergePrompt, 'merge', onProgress, onUsage, 'merging partial analyses');
+    return { result, promptStats: stats };
+  }
+
+  private async completeAnalysis(
+    prompt: string,
+    purpose: LLMCallPurpose,
+    onProgress?: ProgressReporter,
+    onUsage?: (usage: LLMCallUsage) => void,
+    label?: string
+  ): Promise<CROAnalysisResult> {
+    const promptTokens = this.promptBuilder.countTokens(prompt);
+    const messages: LLMMessage[] = [
+      { role: 'user', content: prompt },
+    ];
+    let errors: string[] = [];
 
-    console.log(`🧾 Response tokens: ${replyTokens}`);
-    console.log(`📊 Total tokens: ${promptTokens + replyTokens}`);
+    const { maxRepairAttempts } = this.llmConfig;
 
-    return reply;
+    for (let attempt = 1; attempt <= maxRepairAttempts; attempt++) {
+      onProgress?.('llm_call', attempt === 1
+        ? `Sending ${promptTokens} prompt tokens${label ? ` (${label})` : ''}`
+        : `Repairing invalid response (attempt ${attempt})`);
+
+      const response = await this.llm.complete({
+        messages,
+        temperature: this.llmConfig.temperature,
+        maxTokens: this.llmConfig.maxOutputTokens,
+        responseFormat: 'json',
+      });
+
+      const reply = response.content;
+
+      console.log(`🧾 Response tokens: ${response.usage.completionTokens}`);
+      console.log(`📊 Total tokens: ${response.usage.totalTokens}`);
+      onUsage?.({
+        provider: this.llm.name,
+        model: response.model,
+        purpose,
+        attempt,
+        ...response.usage,
+      });
+
+      const validation = this.parseAnalysisResult(reply);
+      if (validation.valid) {
+        return validation.value;
+      }
+
+      errors = validation.errors;
+      console.warn(`⚠️ Invalid analysis JSON (attempt ${attempt}): ${errors.join('; ')}`);
+
+      // Ask the model to fix its own output instead of starting over
+      messages.push(
+        { role: 'assistant', content: reply },
+        {
+          role: 'user',
+          content: `Your response did not match the required JSON shape:\n- ${errors.join('\n- ')}\nReturn the corrected JSON object only.`,
+        }
+      );
+    }
+
+    throw new Error(`LLM returned an invalid analysis after ${maxRepairAttempts} attempt(s): ${errors.join('; ')}`);
   }
 
   public async generateCROReportPDF({
-    htmlString,
-    outputPath,
-  }: GeneratePDFParams): Promise<void> {
-    //await generatePDFfromHTML(htmlString, outputPath);
-    console.log(`✅ PDF saved as ${outputPath}`);
+    analysisId,
+    url,
+    result,
+    screenshot,
+    onProgress,
+  }: GeneratePDFParams): Promise<Buffer | null> {
+    onProgress?.('report_generation');
+
+    try {
+      const html = this.reportRenderer.renderHTML({ analysisId, url, result, screenshot });
+      const pdf = await this.reportRenderer.renderPDF(html);
+
+      console.log(`✅ PDF generated (${pdf.length} bytes)`);
+      return pdf;
+    } catch (err) {
+      // A missing report should not throw away a finished analysis
+      console.error('❌ Failed to generate PDF report:', (err as Error).message);
+      return null;
+    }
   }
 
-  private getTrimmedText(text: string, maxChars = 8000): string {
-    if (text.length <= maxChars) return text;
-    const half = Math.floor(maxChars / 2);
-    return text.slice(0, half) + '\n...\n' + text.slice(-half);
+  private parseAnalysisResult(reply: string): ValidationResult<CROAnalysisResult> {
+    // Models without a JSON mode like to wrap their answer in a code fence
+    const json = reply.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      return { valid: false, errors: [`Response is not valid JSON: ${(error as Error).message}`] };
+    }
+    return validateCROAnalysisResult(parsed);
   }
 }
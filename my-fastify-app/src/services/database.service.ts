@@ -1,12 +1,55 @@
 import { DatabaseConfig, getDatabaseConfig } from '../config/database.config';
 import { AnalysisRepository } from '../repositories/analysis.repository';
 import { UserRepository } from '../repositories/user.repository';
+import { JobRepository } from '../repositories/job.repository';
+import { FindingRepository } from '../repositories/finding.repository';
+import { UsageRepository } from '../repositories/usage.repository';
+import { PromptTemplateRepository } from '../repositories/prompt-template.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { ScheduleAlertRepository } from '../repositories/schedule-alert.repository';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { WebhookDeliveryRepository } from '../repositories/webhook-delivery.repository';
+import { BatchRepository } from '../repositories/batch.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { OrganizationRepository } from '../repositories/organization.repository';
+import { OrganizationMemberRepository } from '../repositories/organization-member.repository';
+import { OrganizationInvitationRepository } from '../repositories/organization-invitation.repository';
+import { SessionRepository } from '../repositories/session.repository';
+import { RefreshTokenRepository } from '../repositories/refresh-token.repository';
+import { UserTokenRepository } from '../repositories/user-token.repository';
+import { ApiKeyRepository } from '../repositories/api-key.repository';
+import { RateLimitRepository } from '../repositories/rate-limit.repository';
+import { SystemStatsRepository } from '../repositories/system-stats.repository';
+import { AuditEventRepository } from '../repositories/audit-event.repository';
+import { runInTransaction } from '../repositories/base.repository';
+import { normalizeUrl } from './url-normalization.service';
 import sqlite3 from 'sqlite3';
 import { Pool, PoolClient } from 'pg';
 
 export interface DatabaseService {
   getAnalysisRepository(): AnalysisRepository;
   getUserRepository(): UserRepository;
+  getJobRepository(): JobRepository;
+  getFindingRepository(): FindingRepository;
+  getUsageRepository(): UsageRepository;
+  getPromptTemplateRepository(): PromptTemplateRepository;
+  getScheduleRepository(): ScheduleRepository;
+  getScheduleAlertRepository(): ScheduleAlertRepository;
+  getWebhookRepository(): WebhookRepository;
+  getWebhookDeliveryRepository(): WebhookDeliveryRepository;
+  getBatchRepository(): BatchRepository;
+  getProjectRepository(): ProjectRepository;
+  getOrganizationRepository(): OrganizationRepository;
+  getOrganizationMemberRepository(): OrganizationMemberRepository;
+  getOrganizationInvitationRepository(): OrganizationInvitationRepository;
+  getSessionRepository(): SessionRepository;
+  getRefreshTokenRepository(): RefreshTokenRepository;
+  getUserTokenRepository(): UserTokenRepository;
+  getApiKeyRepository(): ApiKeyRepository;
+  getRateLimitRepository(): RateLimitRepository;
+  getSystemStatsRepository(): SystemStatsRepository;
+  getAuditEventRepository(): AuditEventRepository;
+  transaction<T>(callback: () => Promise<T>): Promise<T>;
   healthCheck(): Promise<boolean>;
   close(): Promise<void>;
 }
@@ -16,6 +59,26 @@ export class DatabaseServiceImpl implements DatabaseService {
   public config: DatabaseConfig;
   private analysisRepository!: AnalysisRepository;
   private userRepository!: UserRepository;
+  private jobRepository!: JobRepository;
+  private findingRepository!: FindingRepository;
+  private usageRepository!: UsageRepository;
+  private promptTemplateRepository!: PromptTemplateRepository;
+  private scheduleRepository!: ScheduleRepository;
+  private scheduleAlertRepository!: ScheduleAlertRepository;
+  private webhookRepository!: WebhookRepository;
+  private webhookDeliveryRepository!: WebhookDeliveryRepository;
+  private batchRepository!: BatchRepository;
+  private projectRepository!: ProjectRepository;
+  private organizationRepository!: OrganizationRepository;
+  private organizationMemberRepository!: OrganizationMemberRepository;
+  private organizationInvitationRepository!: OrganizationInvitationRepository;
+  private sessionRepository!: SessionRepository;
+  private refreshTokenRepository!: RefreshTokenRepository;
+  private userTokenRepository!: UserTokenRepository;
+  private apiKeyRepository!: ApiKeyRepository;
+  private rateLimitRepository!: RateLimitRepository;
+  private systemStatsRepository!: SystemStatsRepository;
+  private auditEventRepository!: AuditEventRepository;
 
   constructor() {
     this.config = getDatabaseConfig();
@@ -60,6 +123,26 @@ export class DatabaseServiceImpl implements DatabaseService {
       
       this.analysisRepository = new AnalysisRepository(this.db, this.config);
       this.userRepository = new UserRepository(this.db, this.config);
+      this.jobRepository = new JobRepository(this.db, this.config);
+      this.findingRepository = new FindingRepository(this.db, this.config);
+      this.usageRepository = new UsageRepository(this.db, this.config);
+      this.promptTemplateRepository = new PromptTemplateRepository(this.db, this.config);
+      this.scheduleRepository = new ScheduleRepository(this.db, this.config);
+      this.scheduleAlertRepository = new ScheduleAlertRepository(this.db, this.config);
+      this.webhookRepository = new WebhookRepository(this.db, this.config);
+      this.webhookDeliveryRepository = new WebhookDeliveryRepository(this.db, this.config);
+      this.batchRepository = new BatchRepository(this.db, this.config);
+      this.projectRepository = new ProjectRepository(this.db, this.config);
+      this.organizationRepository = new OrganizationRepository(this.db, this.config);
+      this.organizationMemberRepository = new OrganizationMemberRepository(this.db, this.config);
+      this.organizationInvitationRepository = new OrganizationInvitationRepository(this.db, this.config);
+      this.sessionRepository = new SessionRepository(this.db, this.config);
+      this.refreshTokenRepository = new RefreshTokenRepository(this.db, this.config);
+      this.userTokenRepository = new UserTokenRepository(this.db, this.config);
+      this.apiKeyRepository = new ApiKeyRepository(this.db, this.config);
+      this.rateLimitRepository = new RateLimitRepository(this.db, this.config);
+      this.systemStatsRepository = new SystemStatsRepository(this.db, this.config);
+      this.auditEventRepository = new AuditEventRepository(this.db, this.config);
       
     } catch (error) {
       console.error('❌ Database initialization failed:', error);
@@ -81,6 +164,151 @@ export class DatabaseServiceImpl implements DatabaseService {
     return this.userRepository;
   }
 
+  getJobRepository(): JobRepository {
+    if (!this.jobRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.jobRepository;
+  }
+
+  getFindingRepository(): FindingRepository {
+    if (!this.findingRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.findingRepository;
+  }
+
+  getUsageRepository(): UsageRepository {
+    if (!this.usageRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.usageRepository;
+  }
+
+  getPromptTemplateRepository(): PromptTemplateRepository {
+    if (!this.promptTemplateRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.promptTemplateRepository;
+  }
+
+  getScheduleRepository(): ScheduleRepository {
+    if (!this.scheduleRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.scheduleRepository;
+  }
+
+  getScheduleAlertRepository(): ScheduleAlertRepository {
+    if (!this.scheduleAlertRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.scheduleAlertRepository;
+  }
+
+  getWebhookRepository(): WebhookRepository {
+    if (!this.webhookRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.webhookRepository;
+  }
+
+  getWebhookDeliveryRepository(): WebhookDeliveryRepository {
+    if (!this.webhookDeliveryRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.webhookDeliveryRepository;
+  }
+
+  getBatchRepository(): BatchRepository {
+    if (!this.batchRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.batchRepository;
+  }
+
+  getProjectRepository(): ProjectRepository {
+    if (!this.projectRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.projectRepository;
+  }
+
+  getOrganizationRepository(): OrganizationRepository {
+    if (!this.organizationRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.organizationRepository;
+  }
+
+  getOrganizationMemberRepository(): OrganizationMemberRepository {
+    if (!this.organizationMemberRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.organizationMemberRepository;
+  }
+
+  getOrganizationInvitationRepository(): OrganizationInvitationRepository {
+    if (!this.organizationInvitationRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.organizationInvitationRepository;
+  }
+
+  getSessionRepository(): SessionRepository {
+    if (!this.sessionRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.sessionRepository;
+  }
+
+  getRefreshTokenRepository(): RefreshTokenRepository {
+    if (!this.refreshTokenRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.refreshTokenRepository;
+  }
+
+  getUserTokenRepository(): UserTokenRepository {
+    if (!this.userTokenRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.userTokenRepository;
+  }
+
+  getApiKeyRepository(): ApiKeyRepository {
+    if (!this.apiKeyRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.apiKeyRepository;
+  }
+
+  getRateLimitRepository(): RateLimitRepository {
+    if (!this.rateLimitRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.rateLimitRepository;
+  }
+
+  getSystemStatsRepository(): SystemStatsRepository {
+    if (!this.systemStatsRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.systemStatsRepository;
+  }
+
+  getAuditEventRepository(): AuditEventRepository {
+    if (!this.auditEventRepository) {
+      throw new Error('Database not initialized. Call initialize() first.');
+    }
+    return this.auditEventRepository;
+  }
+
+  // Repository calls made in the callback share one transaction
+  transaction<T>(callback: () => Promise<T>): Promise<T> {
+    return runInTransaction(this.db, this.config, callback);
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       if (this.config.type === 'sqlite') {
@@ -176,6 +404,266 @@ export class DatabaseServiceImpl implements DatabaseService {
       `
         CREATE INDEX IF NOT EXISTS idx_users_is_active 
         ON users(is_active)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+          id TEXT PRIMARY KEY,
+          playbook TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          version INTEGER NOT NULL,
+          body TEXT NOT NULL,
+          variables TEXT NOT NULL DEFAULT '[]',
+          is_active BOOLEAN NOT NULL DEFAULT false,
+          created_by TEXT,
+          created_at TEXT NOT NULL,
+          UNIQUE (playbook, version)
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_prompt_templates_playbook_active 
+        ON prompt_templates(playbook, is_active)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS webhooks (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          url TEXT NOT NULL,
+          description TEXT,
+          events TEXT NOT NULL DEFAULT '[]',
+          secret TEXT NOT NULL,
+          enabled BOOLEAN NOT NULL DEFAULT true,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_webhooks_user_id 
+        ON webhooks(user_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS webhook_deliveries (
+          id TEXT PRIMARY KEY,
+          webhook_id TEXT NOT NULL,
+          event TEXT NOT NULL,
+          payload TEXT NOT NULL,
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 6,
+          next_attempt_at TEXT NOT NULL,
+          response_status INTEGER,
+          response_body TEXT,
+          duration_ms INTEGER,
+          last_error TEXT,
+          delivered_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status_next_attempt 
+        ON webhook_deliveries(status, next_attempt_at)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id 
+        ON webhook_deliveries(webhook_id, created_at)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS batches (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT,
+          source TEXT NOT NULL,
+          source_url TEXT,
+          options TEXT NOT NULL DEFAULT '{}',
+          status TEXT NOT NULL DEFAULT 'discovering',
+          total INTEGER NOT NULL DEFAULT 0,
+          error_message TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          completed_at TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_batches_user_id 
+        ON batches(user_id, created_at)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_batches_status 
+        ON batches(status)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS projects (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          description TEXT,
+          domains TEXT NOT NULL DEFAULT '[]',
+          scrape_options TEXT NOT NULL DEFAULT '{}',
+          playbook TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_projects_user_id 
+        ON projects(user_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS organizations (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_by TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS organization_members (
+          organization_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'viewer',
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          PRIMARY KEY (organization_id, user_id),
+          FOREIGN KEY (organization_id) REFERENCES organizations(id) ON DELETE CASCADE,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_organization_members_user_id 
+        ON organization_members(user_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS organization_invitations (
+          id TEXT PRIMARY KEY,
+          organization_id TEXT NOT NULL,
+          email TEXT NOT NULL,
+          role TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          invited_by TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          accepted_at TEXT,
+          accepted_by TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (organization_id) REFERENCES organizations(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_organization_invitations_organization_id 
+        ON organization_invitations(organization_id, email)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS sessions (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          user_agent TEXT,
+          ip_address TEXT,
+          created_at TEXT NOT NULL,
+          last_used_at TEXT NOT NULL,
+          expires_at TEXT NOT NULL,
+          revoked_at TEXT,
+          revoked_reason TEXT,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_sessions_user_id 
+        ON sessions(user_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS refresh_tokens (
+          id TEXT PRIMARY KEY,
+          session_id TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          created_at TEXT NOT NULL,
+          used_at TEXT,
+          FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_refresh_tokens_session_id 
+        ON refresh_tokens(session_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS user_tokens (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          purpose TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          expires_at TEXT NOT NULL,
+          used_at TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_user_tokens_user_id 
+        ON user_tokens(user_id, purpose)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          prefix TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          scopes TEXT NOT NULL,
+          rate_limit_per_minute INTEGER NOT NULL,
+          expires_at TEXT,
+          last_used_at TEXT,
+          revoked_at TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_api_keys_user_id 
+        ON api_keys(user_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+          bucket_key TEXT PRIMARY KEY,
+          tokens REAL NOT NULL,
+          updated_at BIGINT NOT NULL
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at 
+        ON rate_limit_buckets(updated_at)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS audit_events (
+          id TEXT PRIMARY KEY,
+          action TEXT NOT NULL,
+          actor_type TEXT NOT NULL,
+          actor_id TEXT,
+          api_key_id TEXT,
+          impersonator_id TEXT,
+          target_type TEXT,
+          target_id TEXT,
+          ip_address TEXT,
+          user_agent TEXT,
+          changes TEXT,
+          metadata TEXT,
+          created_at TEXT NOT NULL
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_audit_events_created_at 
+        ON audit_events(created_at)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id 
+        ON audit_events(actor_id, created_at)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_audit_events_target 
+        ON audit_events(target_type, target_id, created_at)
       `
     ];
 
@@ -184,9 +672,172 @@ export class DatabaseServiceImpl implements DatabaseService {
       await this.execute(migration);
     }
 
+    await this.makeAuditEventsAppendOnly();
+
     // Handle analyses table with proper migration logic
     await this.migrateAnalysesTable();
 
+    // Tables that reference analyses
+    const analysisMigrations = [
+      `
+        CREATE TABLE IF NOT EXISTS analysis_jobs (
+          id TEXT PRIMARY KEY,
+          analysis_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          payload TEXT NOT NULL DEFAULT '{}',
+          status TEXT NOT NULL DEFAULT 'pending',
+          attempts INTEGER NOT NULL DEFAULT 0,
+          max_attempts INTEGER NOT NULL DEFAULT 3,
+          run_at TEXT NOT NULL,
+          locked_at TEXT,
+          locked_by TEXT,
+          last_error TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (analysis_id) REFERENCES analyses(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status_run_at 
+        ON analysis_jobs(status, run_at)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_analysis_jobs_analysis_id 
+        ON analysis_jobs(analysis_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS analysis_findings (
+          id TEXT PRIMARY KEY,
+          analysis_id TEXT NOT NULL,
+          category TEXT NOT NULL,
+          severity TEXT NOT NULL,
+          title TEXT NOT NULL,
+          evidence TEXT NOT NULL,
+          recommendation TEXT NOT NULL,
+          expected_impact TEXT NOT NULL,
+          position INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (analysis_id) REFERENCES analyses(id) ON DELETE CASCADE
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_analysis_findings_analysis_id 
+        ON analysis_findings(analysis_id)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_analysis_findings_severity 
+        ON analysis_findings(severity)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS llm_usage (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          analysis_id TEXT,
+          provider TEXT NOT NULL,
+          model TEXT NOT NULL,
+          purpose TEXT NOT NULL,
+          prompt_tokens INTEGER NOT NULL DEFAULT 0,
+          completion_tokens INTEGER NOT NULL DEFAULT 0,
+          total_tokens INTEGER NOT NULL DEFAULT 0,
+          cost_usd REAL NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (analysis_id) REFERENCES analyses(id) ON DELETE SET NULL
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created_at 
+        ON llm_usage(user_id, created_at)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_llm_usage_analysis_id 
+        ON llm_usage(analysis_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS analysis_usage (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          analysis_id TEXT,
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (analysis_id) REFERENCES analyses(id) ON DELETE SET NULL
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_analysis_usage_user_created_at 
+        ON analysis_usage(user_id, created_at)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_analysis_usage_analysis_id 
+        ON analysis_usage(analysis_id)
+      `,
+      // Analyses queued before the ledger existed count as used
+      `
+        INSERT INTO analysis_usage (id, user_id, analysis_id, created_at)
+        SELECT a.id, a.user_id, a.id, a.created_at FROM analyses a
+        WHERE EXISTS (SELECT 1 FROM analysis_jobs j WHERE j.analysis_id = a.id)
+          AND NOT EXISTS (SELECT 1 FROM analysis_usage u WHERE u.analysis_id = a.id OR u.id = a.id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS schedules (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          url TEXT NOT NULL,
+          frequency TEXT NOT NULL,
+          cron_expression TEXT NOT NULL,
+          timezone TEXT NOT NULL DEFAULT 'UTC',
+          devices TEXT NOT NULL DEFAULT '[]',
+          scrape_options TEXT NOT NULL DEFAULT '{}',
+          playbook TEXT NOT NULL,
+          score_drop_threshold REAL NOT NULL DEFAULT 0,
+          content_change_threshold REAL NOT NULL DEFAULT 0,
+          enabled BOOLEAN NOT NULL DEFAULT true,
+          next_run_at TEXT NOT NULL,
+          last_run_at TEXT,
+          last_analysis_id TEXT,
+          last_completed_analysis_id TEXT,
+          last_error TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (last_analysis_id) REFERENCES analyses(id) ON DELETE SET NULL,
+          FOREIGN KEY (last_completed_analysis_id) REFERENCES analyses(id) ON DELETE SET NULL
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_schedules_enabled_next_run_at 
+        ON schedules(enabled, next_run_at)
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_schedules_user_id 
+        ON schedules(user_id)
+      `,
+      `
+        CREATE TABLE IF NOT EXISTS schedule_alerts (
+          id TEXT PRIMARY KEY,
+          schedule_id TEXT NOT NULL,
+          user_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          message TEXT NOT NULL,
+          analysis_id TEXT,
+          base_analysis_id TEXT,
+          details TEXT NOT NULL DEFAULT '{}',
+          created_at TEXT NOT NULL,
+          FOREIGN KEY (schedule_id) REFERENCES schedules(id) ON DELETE CASCADE,
+          FOREIGN KEY (analysis_id) REFERENCES analyses(id) ON DELETE SET NULL,
+          FOREIGN KEY (base_analysis_id) REFERENCES analyses(id) ON DELETE SET NULL
+        )
+      `,
+      `
+        CREATE INDEX IF NOT EXISTS idx_schedule_alerts_schedule_id 
+        ON schedule_alerts(schedule_id, created_at)
+      `
+    ];
+
+    for (const migration of analysisMigrations) {
+      await this.execute(migration);
+    }
+
     console.log('✅ Database migrations completed');
   }
 
@@ -239,6 +890,87 @@ export class DatabaseServiceImpl implements DatabaseService {
         console.log('✅ Successfully added user_id column to analyses table');
       }
     }
+
+    // Columns added after the table was first introduced
+    await this.addColumnIfMissing('analyses', 'overall_score', 'REAL');
+    await this.addColumnIfMissing('analyses', 'category_scores', 'TEXT');
+    await this.addColumnIfMissing('analyses', 'page_model', 'TEXT');
+    await this.addColumnIfMissing('users', 'scrape_defaults', 'TEXT');
+    await this.addColumnIfMissing('users', 'quota_overrides', 'TEXT');
+    await this.addColumnIfMissing('analyses', 'batch_id', 'TEXT REFERENCES batches(id) ON DELETE SET NULL');
+    await this.execute('CREATE INDEX IF NOT EXISTS idx_analyses_batch_id ON analyses(batch_id)');
+    await this.addColumnIfMissing('analyses', 'project_id', 'TEXT REFERENCES projects(id) ON DELETE SET NULL');
+
+    const hasNormalizedUrl = await this.checkColumnExists('analyses', 'normalized_url');
+    await this.addColumnIfMissing('analyses', 'normalized_url', 'TEXT');
+    if (!hasNormalizedUrl) {
+      await this.backfillNormalizedUrls();
+    }
+    await this.execute('CREATE INDEX IF NOT EXISTS idx_analyses_user_normalized_url ON analyses(user_id, normalized_url)');
+    await this.execute('CREATE INDEX IF NOT EXISTS idx_analyses_project_id ON analyses(project_id, normalized_url)');
+    await this.addColumnIfMissing('analyses', 'organization_id', 'TEXT REFERENCES organizations(id) ON DELETE SET NULL');
+    await this.execute('CREATE INDEX IF NOT EXISTS idx_analyses_organization_id ON analyses(organization_id, created_at)');
+    await this.addColumnIfMissing('projects', 'organization_id', 'TEXT REFERENCES organizations(id) ON DELETE SET NULL');
+    await this.execute('CREATE INDEX IF NOT EXISTS idx_projects_organization_id ON projects(organization_id)');
+
+    // Accounts created before email verification existed count as verified
+    const hasEmailVerifiedAt = await this.checkColumnExists('users', 'email_verified_at');
+    await this.addColumnIfMissing('users', 'email_verified_at', 'TEXT');
+    if (!hasEmailVerifiedAt) {
+      await this.execute('UPDATE users SET email_verified_at = created_at WHERE email_verified_at IS NULL');
+    }
+    await this.addColumnIfMissing('users', 'failed_login_attempts', 'INTEGER NOT NULL DEFAULT 0');
+    await this.addColumnIfMissing('users', 'locked_until', 'TEXT');
+    await this.addColumnIfMissing('sessions', 'impersonated_by', 'TEXT');
+  }
+
+  // The database itself rejects changes to recorded audit events, whoever connects to it
+  private async makeAuditEventsAppendOnly(): Promise<void> {
+    if (this.config.type === 'sqlite') {
+      for (const operation of ['UPDATE', 'DELETE']) {
+        await this.execute(`
+          CREATE TRIGGER IF NOT EXISTS audit_events_no_${operation.toLowerCase()}
+          BEFORE ${operation} ON audit_events
+          BEGIN
+            SELECT RAISE(ABORT, 'audit_events is append-only');
+          END
+        `);
+      }
+    } else {
+      await this.execute(`
+        CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+        BEGIN
+          RAISE EXCEPTION 'audit_events is append-only';
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+      await this.execute('DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events');
+      await this.execute(`
+        CREATE TRIGGER audit_events_append_only
+        BEFORE UPDATE OR DELETE ON audit_events
+        FOR EACH ROW EXECUTE FUNCTION audit_events_append_only()
+      `);
+    }
+  }
+
+  // Analyses created before URLs were normalized
+  private async backfillNormalizedUrls(): Promise<void> {
+    const rows = await this.query('SELECT id, url FROM analyses WHERE normalized_url IS NULL');
+    for (const row of rows) {
+      await this.execute('UPDATE analyses SET normalized_url = ? WHERE id = ?', [normalizeUrl(row.url), row.id]);
+    }
+
+    if (rows.length > 0) {
+      console.log(`✅ Normalized the URLs of ${rows.length} existing analyses`);
+    }
+  }
+
+  private async addColumnIfMissing(tableName: string, columnName: string, definition: string): Promise<void> {
+    const hasColumn = await this.checkColumnExists(tableName, columnName);
+    if (!hasColumn) {
+      await this.execute(`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${definition}`);
+      console.log(`✅ Added ${columnName} column to ${tableName} table`);
+    }
   }
 
   private async checkTableExists(tableName: string): Promise<boolean> {
@@ -0,0 +1,88 @@
+import {
+  CROFinding,
+  DeviceIssue,
+  DeviceSummary,
+} from '../../types/cro.types';
+
+// Apple HIG and WCAG 2.5.5 both use 44 CSS px as the minimum comfortable tap target
+export const MIN_TAP_TARGET_SIZE = 44;
+
+/**
+ * Measured (not LLM-judged) layout problems per device. Desktop is used as
+ * the baseline so a CTA that is visible on desktop but pushed below the fold
+ * on a phone is reported as a regression for that device.
+ */
+export function detectDeviceIssues(devices: DeviceSummary[]): DeviceIssue[] {
+  const issues: DeviceIssue[] = [];
+  const desktop = devices.find((d) => d.kind === 'desktop');
+
+  for (const { device, kind, layout } of devices) {
+    if (kind === 'desktop') continue;
+
+    if (layout.ctaCount > 0 && layout.ctasAboveFold === 0) {
+      const desktopHasCta = desktop ? desktop.layout.ctasAboveFold > 0 : false;
+      issues.push({
+        device,
+        type: 'cta_below_fold',
+        severity: desktopHasCta ? 'high' : 'medium',
+        message: `No call to action is visible above the fold on ${device} (${layout.viewportWidth}×${layout.viewportHeight})`
+          + (layout.firstCtaTop !== undefined ? `; the first one starts at ${Math.round(layout.firstCtaTop)}px` : '')
+          + (desktopHasCta ? ', while desktop shows one immediately' : '')
+          + '.',
+      });
+    }
+
+    if (layout.smallTapTargets.length > 0) {
+      const examples = layout.smallTapTargets
+        .slice(0, 3)
+        .map((t) => `"${t.text || 'unlabelled'}" (${Math.round(t.width)}×${Math.round(t.height)})`)
+        .join(', ');
+      issues.push({
+        device,
+        type: 'small_tap_targets',
+        severity: layout.smallTapTargets.length >= 5 ? 'medium' : 'low',
+        message: `${layout.smallTapTargets.length} tap target(s) on ${device} are smaller than ${MIN_TAP_TARGET_SIZE}×${MIN_TAP_TARGET_SIZE}px, e.g. ${examples}.`,
+      });
+    }
+
+    if (layout.horizontalOverflow) {
+      issues.push({
+        device,
+        type: 'horizontal_overflow',
+        severity: 'medium',
+        message: `The page is wider than the ${layout.viewportWidth}px viewport on ${device}, causing horizontal scrolling.`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+export function deviceIssuesToFindings(issues: DeviceIssue[]): CROFinding[] {
+  const recommendations: Record<DeviceIssue['type'], { title: string; recommendation: string; expectedImpact: string }> = {
+    cta_below_fold: {
+      title: 'Primary CTA below the fold',
+      recommendation: 'Shorten or restack the hero on small screens so the primary CTA is visible without scrolling.',
+      expectedImpact: 'More visitors on small screens see and use the primary CTA.',
+    },
+    small_tap_targets: {
+      title: 'Tap targets too small',
+      recommendation: `Increase padding on links and buttons to at least ${MIN_TAP_TARGET_SIZE}×${MIN_TAP_TARGET_SIZE}px and space them apart.`,
+      expectedImpact: 'Fewer mis-taps and less frustration on touch devices.',
+    },
+    horizontal_overflow: {
+      title: 'Horizontal scrolling',
+      recommendation: 'Find the element exceeding the viewport width (often fixed-width images, tables or carousels) and constrain it.',
+      expectedImpact: 'A stable layout that does not feel broken on mobile.',
+    },
+  };
+
+  return issues.map((issue) => ({
+    category: 'mobile',
+    severity: issue.severity,
+    title: `${recommendations[issue.type].title} (${issue.device})`,
+    evidence: issue.message,
+    recommendation: recommendations[issue.type].recommendation,
+    expectedImpact: recommendations[issue.type].expectedImpact,
+  }));
+}
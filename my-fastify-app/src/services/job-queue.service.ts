@@ -0,0 +1,278 @@
+import os from 'os';
+import { QueueConfig, getQueueConfig } from '../config/queue.config';
+import { withoutScrapeSecrets } from '../config/scrape.config';
+import { JobRepository } from '../repositories/job.repository';
+import { AnalysisRepository } from '../repositories/analysis.repository';
+import { TransactionRunner } from '../repositories/base.repository';
+import { AnalysisJob, AnalysisJobPayload } from '../models/job.model';
+import { CreateAnalysisRequest } from '../models/analysis.model';
+import { AnalysisProcessor } from './analysis-processor.service';
+import { AnalysisEventsService } from './analysis-events.service';
+import { AnalysisReservation, UsageService } from './usage.service';
+
+export interface JobQueueService {
+  submit(userId: string, analysis: CreateAnalysisRequest, payload: AnalysisJobPayload): Promise<AnalysisReservation>;
+  enqueue(analysisId: string, userId: string, payload: AnalysisJobPayload): Promise<AnalysisReservation>;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export class JobQueueServiceImpl implements JobQueueService {
+  private jobRepository: JobRepository;
+  private analysisRepository: AnalysisRepository;
+  private processor: AnalysisProcessor;
+  private analysisEvents: AnalysisEventsService;
+  private usageService: UsageService;
+  private transaction: TransactionRunner;
+  private config: QueueConfig;
+  private running = false;
+  private workers: Promise<void>[] = [];
+  private sleepers = new Set<() => void>();
+  private recoveryTimer?: NodeJS.Timeout;
+
+  constructor(
+    jobRepository: JobRepository,
+    analysisRepository: AnalysisRepository,
+    processor: AnalysisProcessor,
+    analysisEvents: AnalysisEventsService,
+    usageService: UsageService,
+    transaction: TransactionRunner,
+    config: QueueConfig = getQueueConfig()
+  ) {
+    this.jobRepository = jobRepository;
+    this.analysisRepository = analysisRepository;
+    this.processor = processor;
+    this.analysisEvents = analysisEvents;
+    this.usageService = usageService;
+    this.transaction = transaction;
+    this.config = config;
+  }
+
+  /**
+   * Creates the analysis and its job if the user's quota allows it. The quota
+   * check, the analysis, its job and the usage ledger entry are written in one
+   * transaction, so a failure leaves none of them behind.
+   */
+  async submit(userId: string, analysis: CreateAnalysisRequest, payload: AnalysisJobPayload): Promise<AnalysisReservation> {
+    const reservation = await this.transaction(() =>
+      this.usageService.reserveAnalysis(userId, async () => {
+        const created = await this.analysisRepository.create({ ...analysis, status: 'pending' }, userId);
+        await this.createJob(created.id, userId, payload);
+        return created;
+      })
+    );
+
+    if (reservation.analysis) {
+      this.notifyQueued(reservation.analysis.id);
+    }
+    return reservation;
+  }
+
+  // Queues a job for an analysis that already exists, such as a batch page, if the quota allows it
+  async enqueue(analysisId: string, userId: string, payload: AnalysisJobPayload): Promise<AnalysisReservation> {
+    const reservation = await this.transaction(() =>
+      this.usageService.reserveAnalysis(userId, async () => {
+        const existing = await this.analysisRepository.findById(analysisId);
+        if (!existing) {
+          throw new Error(`Analysis ${analysisId} not found`);
+        }
+
+        await this.createJob(analysisId, userId, payload);
+        return existing;
+      })
+    );
+
+    if (reservation.analysis) {
+      this.notifyQueued(analysisId);
+    }
+    return reservation;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    await this.recoverExpiredJobs();
+
+    this.running = true;
+    for (let i = 0; i < this.config.concurrency; i++) {
+      const workerId = `${os.hostname()}:${process.pid}:${i}`;
+      this.workers.push(this.runWorker(workerId));
+    }
+
+    this.recoveryTimer = setInterval(() => {
+      this.recoverExpiredJobs().catch((error) => {
+        console.error('❌ Failed to recover analysis jobs:', (error as Error).message);
+      });
+    }, this.config.leaseMs);
+
+    console.log(`✅ Job queue started with ${this.config.concurrency} worker(s)`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+
+    this.running = false;
+    clearInterval(this.recoveryTimer);
+    this.wake();
+    await Promise.all(this.workers);
+    this.workers = [];
+
+    console.log('✅ Job queue stopped');
+  }
+
+  /**
+   * Workers renew the lease on their job while running it. A job whose lease
+   * ran out was interrupted by a crash or restart of whichever instance held
+   * it, so it goes back to 'pending' along with its analysis, or fails if that
+   * was its last attempt. Jobs held by live workers, on this instance or
+   * another, are left alone.
+   */
+  private async recoverExpiredJobs(): Promise<void> {
+    const lockedBefore = new Date(Date.now() - this.config.leaseMs);
+    const expired = await this.jobRepository.findExpired(lockedBefore);
+    let recovered = 0;
+
+    for (const job of expired) {
+      if (job.attempts >= job.maxAttempts) {
+        const message = `Worker stopped responding on attempt ${job.attempts}/${job.maxAttempts}`;
+        if (await this.jobRepository.failExpired(job.id, lockedBefore, message, this.finishedPayload(job))) {
+          await this.failAnalysis(job.analysisId, message);
+          console.error(`❌ Analysis ${job.analysisId} failed after ${job.attempts} attempt(s): ${message}`);
+        }
+      } else if (await this.jobRepository.requeueExpired(job.id, lockedBefore)) {
+        await this.analysisRepository.update(job.analysisId, { status: 'pending' });
+        recovered++;
+      }
+    }
+
+    if (recovered > 0) {
+      console.log(`🔄 Recovered ${recovered} interrupted analysis job(s)`);
+      this.wake();
+    }
+  }
+
+  private async runWorker(workerId: string): Promise<void> {
+    while (this.running) {
+      let job: AnalysisJob | null = null;
+
+      try {
+        job = await this.jobRepository.claimNext(workerId);
+      } catch (error) {
+        console.error('❌ Failed to claim analysis job:', (error as Error).message);
+      }
+
+      if (!job) {
+        await this.sleep(this.config.pollIntervalMs);
+        continue;
+      }
+
+      await this.runJob(job);
+    }
+  }
+
+  private async runJob(job: AnalysisJob): Promise<void> {
+    const workerId = job.lockedBy!;
+    const heartbeat = setInterval(() => {
+      this.jobRepository.renewLease(job.id, workerId).catch((error) => {
+        console.error(`❌ Failed to renew lease on analysis job ${job.id}:`, (error as Error).message);
+      });
+    }, Math.max(1000, Math.floor(this.config.leaseMs / 3)));
+
+    try {
+      // A run that finished the analysis but lost its lease before recording it
+      // must not be repeated, or the analysis would be billed twice
+      const analysis = await this.analysisRepository.findById(job.analysisId);
+      if (analysis?.status === 'completed') {
+        await this.jobRepository.markCompleted(job.id, workerId, this.finishedPayload(job));
+        return;
+      }
+
+      await this.analysisRepository.update(job.analysisId, { status: 'processing' });
+      await this.processor.process(job);
+      if (!(await this.jobRepository.markCompleted(job.id, workerId, this.finishedPayload(job)))) {
+        console.warn(`⚠️ Lease on analysis job ${job.id} expired before it completed`);
+      }
+    } catch (error) {
+      const message = (error as Error).message;
+
+      try {
+        if (job.attempts < job.maxAttempts) {
+          const delay = this.config.retryBaseDelayMs * Math.pow(2, job.attempts - 1);
+          if (!(await this.jobRepository.scheduleRetry(job.id, workerId, message, new Date(Date.now() + delay)))) {
+            console.warn(`⚠️ Lease on analysis job ${job.id} expired before it failed; leaving it to its new worker`);
+            return;
+          }
+          await this.analysisRepository.update(job.analysisId, {
+            status: 'pending',
+            errorMessage: message,
+          });
+          this.analysisEvents.createReporter(job.analysisId)('queued', `Retrying in ${delay}ms after error: ${message}`);
+          console.warn(`🔁 Analysis ${job.analysisId} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delay}ms: ${message}`);
+        } else {
+          if (!(await this.jobRepository.markFailed(job.id, workerId, message, this.finishedPayload(job)))) {
+            console.warn(`⚠️ Lease on analysis job ${job.id} expired before it failed; leaving it to its new worker`);
+            return;
+          }
+          await this.failAnalysis(job.analysisId, message);
+          console.error(`❌ Analysis ${job.analysisId} failed after ${job.attempts} attempt(s): ${message}`);
+        }
+      } catch (bookkeepingError) {
+        console.error('❌ Failed to record analysis job failure:', (bookkeepingError as Error).message);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private async failAnalysis(analysisId: string, message: string): Promise<void> {
+    await this.analysisRepository.update(analysisId, {
+      status: 'failed',
+      errorMessage: message,
+    });
+    this.analysisEvents.publish({
+      type: 'failed',
+      analysisId,
+      error: message,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  private createJob(analysisId: string, userId: string, payload: AnalysisJobPayload): Promise<AnalysisJob> {
+    return this.jobRepository.create({
+      analysisId,
+      userId,
+      payload,
+      maxAttempts: this.config.maxAttempts,
+    });
+  }
+
+  // Credentials are only needed while the job can still run
+  private finishedPayload(job: AnalysisJob): AnalysisJobPayload {
+    return job.payload.scrapeOptions
+      ? { ...job.payload, scrapeOptions: withoutScrapeSecrets(job.payload.scrapeOptions) }
+      : job.payload;
+  }
+
+  private notifyQueued(analysisId: string): void {
+    this.analysisEvents.createReporter(analysisId)('queued');
+    this.wake();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      this.sleepers.add(done);
+    });
+  }
+
+  private wake(): void {
+    for (const sleeper of [...this.sleepers]) {
+      sleeper();
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+/**
+ * Hostnames and IP addresses that point at this machine or a private
+ * network. Checked by name only; use `resolvesToPrivateNetwork` before
+ * fetching a URL.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || host.endsWith('.local')) {
+    return true;
+  }
+
+  if (isIP(host) === 4) {
+    const [a, b] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+  }
+
+  if (isIP(host) === 6) {
+    return host === '::1' || host === '::' || /^f[cd]/.test(host) || host.startsWith('fe80') || host.startsWith('::ffff:');
+  }
+
+  return false;
+}
+
+/**
+ * Whether the hostname, or any address it resolves to, is private. A
+ * hostname that does not resolve is not private; fetching it fails anyway.
+ */
+export async function resolvesToPrivateNetwork(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (isPrivateHost(host)) return true;
+  if (isIP(host)) return false;
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(host, { all: true });
+  } catch {
+    return false;
+  }
+
+  return addresses.some(({ address }) => isPrivateHost(address));
+}
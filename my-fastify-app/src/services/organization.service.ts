@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import { MailConfig, getMailConfig } from '../config/mail.config';
+import { OrganizationConfig, getOrganizationConfig } from '../config/organization.config';
+import { Organization, OrganizationInvitation, OrganizationMember, OrganizationRole } from '../models/organization.model';
+import { User } from '../models/user.model';
+import { Mailer } from '../providers/mail/mailer';
+import { OrganizationInvitationRepository } from '../repositories/organization-invitation.repository';
+import { OrganizationMemberRepository } from '../repositories/organization-member.repository';
+
+export interface OrganizationService {
+  invite(organization: Organization, email: string, role: OrganizationRole, inviter: User): Promise<OrganizationInvitation>;
+  findInvitationByToken(token: string): Promise<OrganizationInvitation | null>;
+  acceptInvitation(invitation: OrganizationInvitation, userId: string): Promise<OrganizationMember | null>;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Invitations are accepted with a random token that is only sent to the
+ * invited email address; the database keeps its SHA-256 hash.
+ */
+export class OrganizationServiceImpl implements OrganizationService {
+  private memberRepository: OrganizationMemberRepository;
+  private invitationRepository: OrganizationInvitationRepository;
+  private mailer: Mailer;
+  private config: OrganizationConfig;
+  private mailConfig: MailConfig;
+
+  constructor(
+    memberRepository: OrganizationMemberRepository,
+    invitationRepository: OrganizationInvitationRepository,
+    mailer: Mailer,
+    config: OrganizationConfig = getOrganizationConfig(),
+    mailConfig: MailConfig = getMailConfig()
+  ) {
+    this.memberRepository = memberRepository;
+    this.invitationRepository = invitationRepository;
+    this.mailer = mailer;
+    this.config = config;
+    this.mailConfig = mailConfig;
+  }
+
+  // The invitation is withdrawn again when the email cannot be sent, so it can be retried
+  async invite(
+    organization: Organization,
+    email: string,
+    role: OrganizationRole,
+    inviter: User
+  ): Promise<OrganizationInvitation> {
+    const token = crypto.randomBytes(32).toString('hex');
+
+    const invitation = await this.invitationRepository.create({
+      organizationId: organization.id,
+      email: email.toLowerCase(),
+      role,
+      tokenHash: hashToken(token),
+      invitedBy: inviter.id,
+      expiresAt: new Date(Date.now() + this.config.invitationTtlHours * 60 * 60 * 1000),
+    });
+
+    try {
+      await this.mailer.send({
+        to: invitation.email,
+        subject: `Join ${organization.name} on CRO Analyzer`,
+        text: [
+          'Hi,',
+          '',
+          `${inviter.firstName} ${inviter.lastName} invited you to join ${organization.name} as ${role}.`,
+          'Sign in or create an account with this email address, then open this link to accept:',
+          `${this.mailConfig.appUrl}/accept-invitation?token=${token}`,
+          '',
+          `The invitation expires in ${this.config.invitationTtlHours} hours.`,
+        ].join('\n'),
+      });
+    } catch (error) {
+      await this.invitationRepository.delete(invitation.id);
+      throw error;
+    }
+
+    return invitation;
+  }
+
+  async findInvitationByToken(token: string): Promise<OrganizationInvitation | null> {
+    return this.invitationRepository.findByTokenHash(hashToken(token));
+  }
+
+  // Returns null when the invitation was accepted in the meantime
+  async acceptInvitation(invitation: OrganizationInvitation, userId: string): Promise<OrganizationMember | null> {
+    const claimed = await this.invitationRepository.markAccepted(invitation.id, userId);
+    if (!claimed) return null;
+
+    return this.memberRepository.add(invitation.organizationId, userId, invitation.role);
+  }
+}
@@ -0,0 +1,230 @@
+import { PageModel } from '../../types/cro.types';
+
+// Upper bounds per list so a huge page cannot blow up storage or the prompt
+export const PAGE_MODEL_LIMITS = {
+  headings: 60,
+  ctas: 60,
+  forms: 10,
+  images: 40,
+  trustElements: 20,
+};
+
+/**
+ * Runs inside the page. Must stay self-contained: Playwright serializes the
+ * function source, so it cannot reference anything from this module.
+ * Coordinates are relative to the top of the document, not the viewport.
+ */
+export function extractPageModel({ device, limits }: { device: string; limits: typeof PAGE_MODEL_LIMITS }): PageModel {
+  const viewportHeight = window.innerHeight;
+  const clean = (value: string | null | undefined, max = 120) =>
+    (value || '').replace(/\s+/g, ' ').trim().slice(0, max);
+
+  const isVisible = (el: Element) => {
+    const style = window.getComputedStyle(el);
+    const rect = el.getBoundingClientRect();
+    return style.visibility !== 'hidden' && style.display !== 'none' && rect.width > 0 && rect.height > 0;
+  };
+  const boxOf = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    return {
+      x: Math.round(rect.left + window.scrollX),
+      y: Math.round(rect.top + window.scrollY),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+    };
+  };
+  const fold = (el: Element) => (el.getBoundingClientRect().top + window.scrollY < viewportHeight ? [device] : []);
+  const visible = (selector: string) => Array.from(document.querySelectorAll(selector)).filter(isVisible);
+
+  const headings = visible('h1, h2, h3, h4')
+    .map((el) => ({ level: Number(el.tagName.slice(1)), text: clean((el as HTMLElement).innerText), aboveFold: fold(el) }))
+    .filter((heading) => heading.text)
+    .slice(0, limits.headings);
+
+  const ctaSelector = 'button, input[type="submit"], input[type="button"], a[role="button"], '
+    + 'a[class*="btn"], a[class*="button"], a[class*="cta"], [class*="cta"] a';
+  const ctas = visible(ctaSelector)
+    .map((el) => {
+      const tag = el.tagName.toLowerCase();
+      const text = clean((el as HTMLElement).innerText || el.getAttribute('aria-label') || el.getAttribute('value'));
+      return {
+        text,
+        element: (tag === 'a' ? 'link' : tag === 'input' ? 'input' : 'button') as 'button' | 'link' | 'input',
+        href: el.getAttribute('href') || undefined,
+        box: boxOf(el),
+        aboveFold: fold(el),
+      };
+    })
+    .filter((cta) => cta.text)
+    .slice(0, limits.ctas);
+
+  const forms = visible('form')
+    .map((form) => {
+      const fields = Array.from(form.querySelectorAll('input, select, textarea'))
+        .filter((field) => !['hidden', 'submit', 'button', 'image', 'reset'].includes((field as HTMLInputElement).type));
+      const submit = form.querySelector('button[type="submit"], input[type="submit"], button:not([type])');
+      return {
+        name: form.getAttribute('name') || form.getAttribute('id') || undefined,
+        action: form.getAttribute('action') || undefined,
+        method: (form.getAttribute('method') || 'get').toLowerCase(),
+        fieldCount: fields.length,
+        requiredFieldCount: fields.filter((field) => field.hasAttribute('required') || field.getAttribute('aria-required') === 'true').length,
+        fieldTypes: fields.map((field) => (field as HTMLInputElement).type || field.tagName.toLowerCase()),
+        submitText: submit ? clean((submit as HTMLElement).innerText || submit.getAttribute('value')) || undefined : undefined,
+        box: boxOf(form),
+        aboveFold: fold(form),
+      };
+    })
+    .filter((form) => form.fieldCount > 0)
+    .slice(0, limits.forms);
+
+  const images = visible('img')
+    .filter((img) => img.getBoundingClientRect().width >= 48)
+    .map((img) => ({
+      src: clean((img as HTMLImageElement).currentSrc || img.getAttribute('src'), 200),
+      alt: img.hasAttribute('alt') ? clean(img.getAttribute('alt')) : undefined,
+      box: boxOf(img),
+      aboveFold: fold(img),
+    }))
+    .slice(0, limits.images);
+
+  // Trust signals are recognised by class/id/schema naming first, then by badge image alt text
+  const trustPatterns: Array<[PageModel['trustElements'][number]['type'], RegExp]> = [
+    ['rating', /rating|stars|aggregaterating|\d(\.\d)?\s*\/\s*5|★/i],
+    ['reviews', /review|trustpilot|feefo|yotpo|avis|avalia/i],
+    ['testimonial', /testimonial|quote|depoimento|customer-story/i],
+    ['guarantee', /guarantee|money-back|refund|garantia/i],
+    ['security', /secure|ssl|norton|mcafee|pci|encrypted|seguro/i],
+    ['client_logos', /logos|clients|partners|customers|brands|as-seen/i],
+    ['badge', /badge|award|certif|verified|trust/i],
+  ];
+  const classify = (descriptor: string) => trustPatterns.find(([, pattern]) => pattern.test(descriptor))?.[0];
+
+  const trustCandidates = visible([
+    '[class*="review" i]', '[class*="rating" i]', '[class*="testimonial" i]', '[class*="trust" i]',
+    '[class*="badge" i]', '[class*="guarantee" i]', '[class*="secure" i]', '[class*="award" i]',
+    '[class*="logos" i]', '[class*="clients" i]', '[class*="partners" i]', '[itemtype*="Review"]',
+    '[itemtype*="AggregateRating"]', 'blockquote',
+  ].join(', '));
+  const included: Element[] = [];
+  const trustElements: PageModel['trustElements'] = [];
+
+  for (const el of trustCandidates) {
+    if (trustElements.length >= limits.trustElements) break;
+    if (included.some((parent) => parent.contains(el))) continue;
+
+    const descriptor = `${el.getAttribute('class') || ''} ${el.id} ${el.getAttribute('itemtype') || ''}`;
+    const type = classify(descriptor) || (el.tagName === 'BLOCKQUOTE' ? 'testimonial' : undefined);
+    if (!type) continue;
+
+    const text = clean((el as HTMLElement).innerText, 160)
+      || clean(Array.from(el.querySelectorAll('img[alt]')).map((img) => img.getAttribute('alt')).join(', '), 160);
+    if (!text) continue;
+
+    included.push(el);
+    trustElements.push({ type, text, aboveFold: fold(el) });
+  }
+
+  for (const img of visible('img[alt]')) {
+    if (trustElements.length >= limits.trustElements) break;
+    if (included.some((parent) => parent.contains(img))) continue;
+
+    const alt = clean(img.getAttribute('alt'));
+    const type = /trustpilot|verified|secure|ssl|norton|mcafee|award|certified|guarantee|rating/i.test(alt)
+      ? classify(alt) || 'badge'
+      : undefined;
+    if (type) {
+      trustElements.push({ type, text: alt, aboveFold: fold(img) });
+    }
+  }
+
+  return {
+    title: clean(document.title, 200),
+    metaDescription: clean(document.querySelector('meta[name="description"]')?.getAttribute('content'), 300) || undefined,
+    language: document.documentElement.lang || undefined,
+    headings,
+    ctas,
+    forms,
+    images,
+    trustElements,
+    viewports: [{
+      device,
+      width: window.innerWidth,
+      height: viewportHeight,
+      pageHeight: document.documentElement.scrollHeight,
+    }],
+  };
+}
+
+/**
+ * Combines the per-device models into one. The first model is the base (its
+ * boxes are kept); matching elements from the other devices only add their
+ * device to `aboveFold`, and elements that exist on just one device (a
+ * mobile-only sticky CTA, say) are appended.
+ */
+export function mergePageModels(models: PageModel[]): PageModel | undefined {
+  const [base, ...others] = models;
+  if (!base) return undefined;
+
+  const merged: PageModel = JSON.parse(JSON.stringify(base));
+
+  const mergeList = <T extends { aboveFold: string[] }>(target: T[], source: T[], key: (item: T) => string) => {
+    const index = new Map(target.map((item) => [key(item), item]));
+    for (const item of source) {
+      const existing = index.get(key(item));
+      if (existing) {
+        existing.aboveFold = [...new Set([...existing.aboveFold, ...item.aboveFold])];
+      } else {
+        const copy = { ...item, aboveFold: [...item.aboveFold] };
+        target.push(copy);
+        index.set(key(item), copy);
+      }
+    }
+  };
+
+  for (const model of others) {
+    mergeList(merged.headings, model.headings, (h) => `${h.level}:${h.text}`);
+    mergeList(merged.ctas, model.ctas, (c) => `${c.element}:${c.text}:${c.href || ''}`);
+    mergeList(merged.forms, model.forms, (f) => `${f.action || ''}:${f.name || ''}:${f.fieldCount}`);
+    mergeList(merged.images, model.images, (i) => i.src);
+    mergeList(merged.trustElements, model.trustElements, (t) => `${t.type}:${t.text}`);
+    merged.viewports.push(...model.viewports);
+  }
+
+  return merged;
+}
+
+/**
+ * Compact plain-text rendering of the page model for the LLM prompt.
+ */
+export function formatPageModelForPrompt(model: PageModel): string {
+  const foldNote = (devices: string[]) => (devices.length > 0 ? ` [above fold: ${devices.join(', ')}]` : '');
+  const box = ({ x, y, width, height }: PageModel['ctas'][number]['box']) => `at ${x},${y} ${width}×${height}`;
+  const imagesWithoutAlt = model.images.filter((image) => image.alt === undefined).length;
+  const altText = (alt?: string) => (alt === undefined ? '(missing alt)' : alt === '' ? '(decorative, empty alt)' : `"${alt}"`);
+
+  const lines = [
+    `Title: ${model.title || '(none)'}`,
+    `Meta description: ${model.metaDescription || '(none)'}`,
+    `Language: ${model.language || '(not declared)'}`,
+    `Viewports: ${model.viewports.map((v) => `${v.device} ${v.width}×${v.height} (page height ${v.pageHeight}px)`).join('; ')}`,
+    '',
+    `Heading outline (${model.headings.length}):`,
+    ...model.headings.map((h) => `${'  '.repeat(Math.max(0, h.level - 1))}- H${h.level}: ${h.text}${foldNote(h.aboveFold)}`),
+    '',
+    `Calls to action (${model.ctas.length}):`,
+    ...model.ctas.map((c) => `- "${c.text}" (${c.element}${c.href ? ` → ${c.href}` : ''}) ${box(c.box)}${foldNote(c.aboveFold)}`),
+    '',
+    `Forms (${model.forms.length}):`,
+    ...model.forms.map((f) => `- ${f.name || f.action || 'form'} (${f.method.toUpperCase()}): ${f.fieldCount} fields, ${f.requiredFieldCount} required [${f.fieldTypes.join(', ')}]`
+      + `${f.submitText ? `, submit "${f.submitText}"` : ''}${foldNote(f.aboveFold)}`),
+    '',
+    `Images (${model.images.length}, ${imagesWithoutAlt} without alt text):`,
+    ...model.images.map((i) => `- ${altText(i.alt)} ${box(i.box)}${foldNote(i.aboveFold)}`),
+    '',
+    `Trust elements (${model.trustElements.length}):`,
+    ...model.trustElements.map((t) => `- ${t.type}: ${t.text}${foldNote(t.aboveFold)}`),
+  ];
+
+  return lines.join('\n');
+}
@@ -0,0 +1,338 @@
+import {
+  CROAnalysisResult,
+  CROCategory,
+  CROFinding,
+  DeviceIssue,
+  DeviceSummary,
+  PageModel,
+  PromptSectionStats,
+  PromptTemplateRef,
+  PromptStats,
+} from '../../types/cro.types';
+import { CRO_CATEGORIES, CRO_RESULT_SCHEMA_DESCRIPTION } from '../validators/cro-result.validator';
+import { formatPageModelForPrompt } from './page-model.service';
+import { DEFAULT_PLAYBOOK, DEFAULT_PLAYBOOKS } from '../config/playbooks.config';
+
+export interface PromptBudget {
+  maxPromptTokens: number;
+  maxChunks: number;
+}
+
+export interface AnalysisPromptInput {
+  url: string;
+  text: string;
+  html: string;
+  pageModel?: PageModel;
+  template?: PromptTemplateRef;
+  devices?: DeviceSummary[];
+  deviceIssues?: DeviceIssue[];
+}
+
+export interface AnalysisPromptPlan {
+  prompts: string[];
+  stats: PromptStats;
+}
+
+export interface PromptBuilder {
+  buildAnalysisPrompts(input: AnalysisPromptInput): AnalysisPromptPlan;
+  buildMergePrompt(url: string, partials: CROAnalysisResult[]): string;
+  countTokens(text: string): number;
+}
+
+// Share of the space left after the instructions that the page structure may use;
+// whatever it does not need goes to the page text
+const STRUCTURE_SHARE = 0.4;
+// Below this many tokens for page content an analysis is not worth running
+const MIN_CONTENT_TOKENS = 500;
+
+const FALLBACK_TEMPLATE: PromptTemplateRef = DEFAULT_PLAYBOOKS.find((p) => p.playbook === DEFAULT_PLAYBOOK)!;
+
+export const renderPromptTemplate = (body: string, variables: Record<string, string>): string =>
+  body.replace(/\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g, (match, name: string) => variables[name] ?? match);
+
+const SEVERITY_RANK: Record<CROFinding['severity'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+/**
+ * Splits the prompt budget (LLM_MAX_PROMPT_TOKENS) between the fixed
+ * instructions, the page structure and the page text. Structure that does not
+ * fit is cut at a line boundary; text that does not fit is split into chunks
+ * that are analysed separately and merged afterwards (map-reduce).
+ */
+export class PromptBuilderImpl implements PromptBuilder {
+  private readonly budget: PromptBudget;
+  private readonly tokenCounter: (text: string) => number;
+
+  constructor(budget: PromptBudget, tokenCounter: (text: string) => number) {
+    this.budget = budget;
+    this.tokenCounter = tokenCounter;
+  }
+
+  countTokens(text: string): number {
+    return this.tokenCounter(text);
+  }
+
+  buildAnalysisPrompts({
+    url,
+    text,
+    html,
+    pageModel,
+    template = FALLBACK_TEMPLATE,
+    devices = [],
+    deviceIssues = [],
+  }: AnalysisPromptInput): AnalysisPromptPlan {
+    const truncations: string[] = [];
+    const sections: PromptSectionStats[] = [];
+
+    // The chunk note is the longest variant of the header, so budgeting with it is safe for every chunk
+    const instructions = this.buildInstructions(template, url, devices, deviceIssues);
+    const instructionTokens = this.countTokens(instructions + this.chunkNote(this.budget.maxChunks, this.budget.maxChunks));
+    sections.push({ name: 'instructions', originalTokens: instructionTokens, budgetTokens: instructionTokens, tokens: instructionTokens, truncated: false });
+
+    const available = this.budget.maxPromptTokens - instructionTokens;
+    if (available < MIN_CONTENT_TOKENS) {
+      throw new Error(`Prompt budget of ${this.budget.maxPromptTokens} tokens leaves only ${available} tokens for page content`);
+    }
+
+    // The extracted page model replaces raw HTML; HTML is only a fallback for older callers
+    const structureTitle = pageModel
+      ? 'Page structure (extracted from the rendered page; coordinates are CSS px from the top of the document):'
+      : 'Page HTML:';
+    const structureBody = pageModel ? formatPageModelForPrompt(pageModel) : html;
+    const structureBudget = Math.floor(available * STRUCTURE_SHARE);
+    const structure = this.fitSection('structure', `${structureTitle}\n${structureBody}`, structureBudget, sections, truncations);
+
+    const textBudget = available - sections[sections.length - 1].tokens;
+    const textTokens = this.countTokens(text);
+
+    if (textTokens <= textBudget) {
+      sections.push({ name: 'text', originalTokens: textTokens, budgetTokens: textBudget, tokens: textTokens, truncated: false });
+      const prompt = `${instructions}\n${structure}\n\nPage text:\n${text}\n`;
+      const promptTokens = this.countTokens(prompt);
+
+      return {
+        prompts: [prompt],
+        stats: {
+          budgetTokens: this.budget.maxPromptTokens,
+          strategy: 'single',
+          sections,
+          chunks: [{ index: 0, textTokens, promptTokens }],
+          totalPromptTokens: promptTokens,
+          truncations,
+        },
+      };
+    }
+
+    let chunks = this.splitToTokenBudget(text, textBudget);
+    const droppedChunks = chunks.length > this.budget.maxChunks;
+    if (droppedChunks) {
+      const dropped = chunks.slice(this.budget.maxChunks).reduce((sum, chunk) => sum + this.countTokens(chunk), 0);
+      truncations.push(`text: dropped the last ${chunks.length - this.budget.maxChunks} chunk(s) (~${dropped} tokens) beyond LLM_MAX_CHUNKS=${this.budget.maxChunks}`);
+      chunks = chunks.slice(0, this.budget.maxChunks);
+    }
+
+    const chunkStats = chunks.map((chunk, index) => ({ index, textTokens: this.countTokens(chunk), promptTokens: 0 }));
+    const sentTextTokens = chunkStats.reduce((sum, chunk) => sum + chunk.textTokens, 0);
+    sections.push({
+      name: 'text',
+      originalTokens: textTokens,
+      budgetTokens: textBudget,
+      tokens: sentTextTokens,
+      truncated: droppedChunks,
+    });
+
+    const prompts = chunks.map((chunk, index) =>
+      `${instructions}${this.chunkNote(index + 1, chunks.length)}\n${structure}\n\nPage text (part ${index + 1} of ${chunks.length}):\n${chunk}\n`
+    );
+    prompts.forEach((prompt, index) => {
+      chunkStats[index].promptTokens = this.countTokens(prompt);
+    });
+
+    return {
+      prompts,
+      stats: {
+        budgetTokens: this.budget.maxPromptTokens,
+        strategy: chunks.length > 1 ? 'map_reduce' : 'single',
+        sections,
+        chunks: chunkStats,
+        totalPromptTokens: chunkStats.reduce((sum, chunk) => sum + chunk.promptTokens, 0),
+        truncations,
+      },
+    };
+  }
+
+  buildMergePrompt(url: string, partials: CROAnalysisResult[]): string {
+    return `
+Act as a senior CRO (Conversion Rate Optimization) expert.
+A long landing page (${url}) was analysed in ${partials.length} parts because it did not fit in a single request.
+Each part saw the full page structure but only a slice of the page text.
+
+Merge the partial analyses below into one consolidated analysis of the whole page:
+- Merge findings that describe the same issue, keeping the most severe rating and the most specific evidence.
+- Keep findings that only one part noticed; do not invent new ones.
+- Score the page as a whole (0 to 100, overall and per category) rather than averaging blindly.
+- Write one summary for the whole page.
+
+Respond with a single JSON object and nothing else, using exactly this shape:
+${CRO_RESULT_SCHEMA_DESCRIPTION}
+
+Partial analyses:
+${partials.map((partial, index) => `Part ${index + 1}:\n${JSON.stringify(partial)}`).join('\n\n')}
+`;
+  }
+
+  private buildInstructions(
+    template: PromptTemplateRef,
+    url: string,
+    devices: DeviceSummary[],
+    deviceIssues: DeviceIssue[]
+  ): string {
+    const deviceSection = devices.length > 1 ? `
+Device comparison (measured layout per viewport):
+${devices.map(({ device, layout }) => `- ${device}: ${layout.viewportWidth}×${layout.viewportHeight} viewport, page height ${layout.pageHeight}px, ${layout.ctasAboveFold}/${layout.ctaCount} CTAs above the fold, ${layout.smallTapTargets.length} small tap targets${layout.horizontalOverflow ? ', horizontal overflow' : ''}`).join('\n')}
+
+Issues already detected automatically (do not repeat them as findings, but reflect them in the mobile score):
+${deviceIssues.length > 0 ? deviceIssues.map((issue) => `- ${issue.message}`).join('\n') : '- none'}
+` : '';
+
+    return renderPromptTemplate(template.body, {
+      url,
+      schema: CRO_RESULT_SCHEMA_DESCRIPTION,
+      device_comparison: deviceSection,
+      playbook: template.playbook,
+    });
+  }
+
+  private chunkNote(part: number, total: number): string {
+    return `
+The page text is too long for one request and is split into ${total} parts; this is part ${part}.
+Only report findings supported by this part of the text or by the page structure.
+`;
+  }
+
+  private fitSection(
+    name: string,
+    content: string,
+    budget: number,
+    sections: PromptSectionStats[],
+    truncations: string[]
+  ): string {
+    const originalTokens = this.countTokens(content);
+    if (originalTokens <= budget) {
+      sections.push({ name, originalTokens, budgetTokens: budget, tokens: originalTokens, truncated: false });
+      return content;
+    }
+
+    // Keep whole lines so list entries are never cut mid-way; only a single
+    // oversized line (raw HTML) is cut inside the line
+    const kept: string[] = [];
+    let used = 0;
+    for (const line of content.split('\n')) {
+      const lineTokens = this.countTokens(line) + 1;
+      if (used + lineTokens > budget) {
+        if (lineTokens > budget / 2) {
+          kept.push(this.truncateToTokens(line, budget - used - 1));
+        }
+        break;
+      }
+      kept.push(line);
+      used += lineTokens;
+    }
+
+    const fitted = kept.join('\n');
+    const tokens = this.countTokens(fitted);
+    sections.push({ name, originalTokens, budgetTokens: budget, tokens, truncated: true });
+    truncations.push(`${name}: kept ${tokens} of ${originalTokens} tokens`);
+    return fitted;
+  }
+
+  /**
+   * Packs paragraphs into chunks of at most `budget` tokens. Paragraphs that
+   * are longer than a whole chunk are hard-split.
+   */
+  private splitToTokenBudget(text: string, budget: number): string[] {
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let used = 0;
+
+    const flush = () => {
+      if (current.length > 0) {
+        chunks.push(current.join('\n'));
+        current = [];
+        used = 0;
+      }
+    };
+
+    for (const paragraph of text.split(/\n+/)) {
+      if (!paragraph.trim()) continue;
+
+      const pieces = this.countTokens(paragraph) > budget ? this.hardSplit(paragraph, budget) : [paragraph];
+      for (const piece of pieces) {
+        const pieceTokens = this.countTokens(piece) + 1;
+        if (used + pieceTokens > budget) flush();
+        current.push(piece);
+        used += pieceTokens;
+      }
+    }
+    flush();
+
+    return chunks;
+  }
+
+  private hardSplit(text: string, budget: number): string[] {
+    const pieces: string[] = [];
+    let rest = text;
+    while (rest.length > 0) {
+      const piece = this.truncateToTokens(rest, budget);
+      pieces.push(piece);
+      rest = rest.slice(piece.length);
+    }
+    return pieces;
+  }
+
+  private truncateToTokens(text: string, budget: number): string {
+    const tokens = this.countTokens(text);
+    if (tokens <= budget) return text;
+
+    // Start from the average characters-per-token ratio and shrink until it fits
+    let length = Math.max(1, Math.floor(text.length * (budget / tokens)));
+    while (length > 1 && this.countTokens(text.slice(0, length)) > budget) {
+      length = Math.floor(length * 0.9);
+    }
+    return text.slice(0, length);
+  }
+}
+
+/**
+ * Deterministic fallback used when the partial results are too large to send
+ * back to the model: averages the scores and keeps the most severe copy of
+ * findings that share a category and title.
+ */
+export function mergePartialResults(partials: CROAnalysisResult[]): CROAnalysisResult {
+  const average = (values: number[]) =>
+    Math.round(values.reduce((sum, value) => sum + value, 0) / Math.max(values.length, 1));
+
+  const categoryScores = Object.fromEntries(
+    CRO_CATEGORIES.map((category) => [category, average(partials.map((p) => p.categoryScores[category]))])
+  ) as Record<CROCategory, number>;
+
+  const findings = new Map<string, CROFinding>();
+  for (const finding of partials.flatMap((p) => p.findings)) {
+    const key = `${finding.category}:${finding.title.trim().toLowerCase()}`;
+    const existing = findings.get(key);
+    if (!existing || SEVERITY_RANK[finding.severity] < SEVERITY_RANK[existing.severity]) {
+      findings.set(key, finding);
+    }
+  }
+
+  return {
+    overallScore: average(partials.map((p) => p.overallScore)),
+    categoryScores,
+    summary: partials.map((p) => p.summary).join(' '),
+    findings: [...findings.values()].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]),
+  };
+}
@@ -0,0 +1,78 @@
+import { DEFAULT_PLAYBOOK, DEFAULT_PLAYBOOKS } from '../config/playbooks.config';
+import { PromptTemplate, PromptTemplateFilters } from '../models/prompt-template.model';
+import { PromptTemplateRepository } from '../repositories/prompt-template.repository';
+import { PromptTemplateInput, extractTemplateVariables } from '../validators/prompt-template.validator';
+
+export interface PromptTemplateService {
+  ensureDefaults(): Promise<void>;
+  resolve(playbook?: string): Promise<PromptTemplate>;
+  getActive(playbook: string): Promise<PromptTemplate | null>;
+  getById(id: string): Promise<PromptTemplate | null>;
+  list(filters?: PromptTemplateFilters): Promise<PromptTemplate[]>;
+  listPlaybooks(): Promise<PromptTemplate[]>;
+  create(input: PromptTemplateInput, createdBy?: string): Promise<PromptTemplate>;
+  activate(id: string): Promise<PromptTemplate | null>;
+}
+
+export class PromptTemplateServiceImpl implements PromptTemplateService {
+  private promptTemplateRepository: PromptTemplateRepository;
+
+  constructor(promptTemplateRepository: PromptTemplateRepository) {
+    this.promptTemplateRepository = promptTemplateRepository;
+  }
+
+  // Seeds version 1 of every built-in playbook that has no templates yet
+  async ensureDefaults(): Promise<void> {
+    for (const definition of DEFAULT_PLAYBOOKS) {
+      const existing = await this.promptTemplateRepository.countByPlaybook(definition.playbook);
+      if (existing > 0) continue;
+
+      await this.promptTemplateRepository.create({
+        ...definition,
+        variables: extractTemplateVariables(definition.body),
+        isActive: true,
+      });
+      console.log(`✅ Seeded prompt playbook: ${definition.playbook}`);
+    }
+  }
+
+  async resolve(playbook: string = DEFAULT_PLAYBOOK): Promise<PromptTemplate> {
+    const template = await this.getActive(playbook);
+    if (!template) {
+      throw new Error(`No active prompt template for playbook: ${playbook}`);
+    }
+    return template;
+  }
+
+  async getActive(playbook: string): Promise<PromptTemplate | null> {
+    return this.promptTemplateRepository.findActive(playbook);
+  }
+
+  async getById(id: string): Promise<PromptTemplate | null> {
+    return this.promptTemplateRepository.findById(id);
+  }
+
+  async list(filters: PromptTemplateFilters = {}): Promise<PromptTemplate[]> {
+    return this.promptTemplateRepository.find(filters);
+  }
+
+  async listPlaybooks(): Promise<PromptTemplate[]> {
+    return this.promptTemplateRepository.find({ isActive: true });
+  }
+
+  async create(input: PromptTemplateInput, createdBy?: string): Promise<PromptTemplate> {
+    return this.promptTemplateRepository.create({
+      playbook: input.playbook,
+      name: input.name,
+      description: input.description,
+      body: input.body,
+      variables: input.variables,
+      isActive: input.activate,
+      createdBy,
+    });
+  }
+
+  async activate(id: string): Promise<PromptTemplate | null> {
+    return this.promptTemplateRepository.activate(id);
+  }
+}
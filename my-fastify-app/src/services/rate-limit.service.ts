@@ -0,0 +1,51 @@
+import { RateLimitConfig, RateLimitRule, getRateLimitConfig } from '../config/rate-limit.config';
+import { RateLimitResult } from '../models/rate-limit.model';
+import { RateLimitStore } from '../providers/rate-limit/rate-limit-store';
+
+// Who a request is counted against
+export interface RateLimitClient {
+  ip: string;
+  userId?: string;
+}
+
+export interface RateLimitService {
+  checkRoute(method: string, route: string, client: RateLimitClient): Promise<RateLimitResult | null>;
+  take(key: string, rule: Pick<RateLimitRule, 'capacity' | 'refillPerMinute'>): Promise<RateLimitResult>;
+}
+
+/**
+ * Token buckets per route and client. A route's rule comes from the
+ * configuration by method and route pattern, or the '*' rule otherwise.
+ */
+export class RateLimitServiceImpl implements RateLimitService {
+  private store: RateLimitStore;
+  private config: RateLimitConfig;
+
+  constructor(store: RateLimitStore, config: RateLimitConfig = getRateLimitConfig()) {
+    this.store = store;
+    this.config = config;
+  }
+
+  // Returns null when rate limiting is off or no rule applies
+  async checkRoute(method: string, route: string, client: RateLimitClient): Promise<RateLimitResult | null> {
+    if (!this.config.enabled) return null;
+
+    const name = `${method} ${route}`;
+    const rule = this.config.rules[name] || this.config.rules['*'];
+    if (!rule) return null;
+
+    const bucket = this.config.rules[name] ? name : '*';
+    const identity = rule.by === 'user' && client.userId ? `user:${client.userId}` : `ip:${client.ip}`;
+
+    return this.store.take(`${bucket}|${identity}`, rule);
+  }
+
+  // A bucket with its own rule, such as the limit of an API key
+  async take(key: string, rule: Pick<RateLimitRule, 'capacity' | 'refillPerMinute'>): Promise<RateLimitResult> {
+    if (!this.config.enabled) {
+      return { allowed: true, limit: rule.capacity, remaining: rule.capacity, resetAt: new Date(), retryAfterMs: 0 };
+    }
+
+    return this.store.take(key, rule);
+  }
+}
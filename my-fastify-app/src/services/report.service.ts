@@ -0,0 +1,164 @@
+import { chromium } from 'playwright';
+import {
+  CROAnalysisResult,
+  CROCategory,
+  CROFindingSeverity,
+} from '../../types/cro.types';
+
+export interface ReportData {
+  analysisId: string;
+  url: string;
+  result: CROAnalysisResult;
+  screenshot?: Buffer;
+  generatedAt?: Date;
+}
+
+export interface ReportRenderer {
+  renderHTML(data: ReportData): string;
+  renderPDF(html: string): Promise<Buffer>;
+}
+
+const CATEGORY_LABELS: Record<CROCategory, string> = {
+  headline: 'Headline',
+  cta: 'Calls to action',
+  trust_signals: 'Trust signals',
+  forms: 'Forms',
+  copy: 'Copy',
+  visual_hierarchy: 'Visual hierarchy',
+  mobile: 'Mobile',
+};
+
+const SEVERITY_COLORS: Record<CROFindingSeverity, string> = {
+  critical: '#b91c1c',
+  high: '#ea580c',
+  medium: '#ca8a04',
+  low: '#2563eb',
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const scoreColor = (score: number): string => {
+  if (score >= 75) return '#16a34a';
+  if (score >= 50) return '#ca8a04';
+  return '#dc2626';
+};
+
+export class ReportRendererImpl implements ReportRenderer {
+  renderHTML({ analysisId, url, result, screenshot, generatedAt = new Date() }: ReportData): string {
+    const categoryRows = (Object.keys(CATEGORY_LABELS) as CROCategory[])
+      .map((category) => {
+        const score = Math.round(result.categoryScores[category] ?? 0);
+        return `
+          <tr>
+            <td>${CATEGORY_LABELS[category]}</td>
+            <td class="bar-cell"><div class="bar" style="width:${score}%;background:${scoreColor(score)}"></div></td>
+            <td class="score">${score}</td>
+          </tr>`;
+      })
+      .join('');
+
+    const findings = result.findings
+      .map((finding) => `
+        <div class="finding">
+          <div class="finding-header">
+            <span class="severity" style="background:${SEVERITY_COLORS[finding.severity]}">${finding.severity}</span>
+            <span class="category">${CATEGORY_LABELS[finding.category]}</span>
+          </div>
+          <h3>${escapeHtml(finding.title)}</h3>
+          <p><strong>Evidence:</strong> ${escapeHtml(finding.evidence)}</p>
+          <p><strong>Recommendation:</strong> ${escapeHtml(finding.recommendation)}</p>
+          <p><strong>Expected impact:</strong> ${escapeHtml(finding.expectedImpact)}</p>
+        </div>`)
+      .join('');
+
+    const screenshotSection = screenshot
+      ? `
+        <section class="page-break">
+          <h2>Captured page</h2>
+          <img class="screenshot" src="data:image/png;base64,${screenshot.toString('base64')}" alt="Page screenshot" />
+        </section>`
+      : '';
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>CRO Report – ${escapeHtml(url)}</title>
+  <style>
+    * { box-sizing: border-box; }
+    body { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #111827; margin: 0; font-size: 12px; }
+    header { background: #1e1b4b; color: #fff; padding: 28px 36px; }
+    header .brand { font-size: 13px; letter-spacing: 2px; text-transform: uppercase; opacity: .8; }
+    header h1 { margin: 6px 0 4px; font-size: 24px; }
+    header .meta { font-size: 11px; opacity: .8; word-break: break-all; }
+    main { padding: 24px 36px; }
+    h2 { font-size: 16px; border-bottom: 2px solid #e5e7eb; padding-bottom: 6px; margin-top: 28px; }
+    .overview { display: flex; gap: 24px; align-items: center; }
+    .overall { width: 120px; height: 120px; border-radius: 50%; display: flex; flex-direction: column; align-items: center; justify-content: center; color: #fff; flex-shrink: 0; }
+    .overall .value { font-size: 40px; font-weight: 700; line-height: 1; }
+    .overall .label { font-size: 10px; text-transform: uppercase; letter-spacing: 1px; }
+    .summary { font-size: 13px; line-height: 1.5; }
+    table { width: 100%; border-collapse: collapse; }
+    td { padding: 6px 4px; border-bottom: 1px solid #f3f4f6; }
+    .bar-cell { width: 60%; }
+    .bar { height: 10px; border-radius: 5px; }
+    .score { text-align: right; font-weight: 600; width: 40px; }
+    .finding { border: 1px solid #e5e7eb; border-radius: 6px; padding: 10px 14px; margin-bottom: 10px; page-break-inside: avoid; }
+    .finding h3 { margin: 6px 0; font-size: 14px; }
+    .finding p { margin: 4px 0; line-height: 1.4; }
+    .finding-header { display: flex; gap: 8px; align-items: center; }
+    .severity { color: #fff; border-radius: 4px; padding: 2px 8px; font-size: 10px; text-transform: uppercase; font-weight: 600; }
+    .category { color: #6b7280; font-size: 11px; }
+    .screenshot { width: 100%; border: 1px solid #e5e7eb; }
+    .page-break { page-break-before: always; }
+    footer { color: #9ca3af; font-size: 10px; padding: 12px 36px; }
+  </style>
+</head>
+<body>
+  <header>
+    <div class="brand">CRO Analyzer</div>
+    <h1>Conversion Rate Optimization Report</h1>
+    <div class="meta">${escapeHtml(url)} · ${generatedAt.toISOString().slice(0, 10)}</div>
+  </header>
+  <main>
+    <section class="overview">
+      <div class="overall" style="background:${scoreColor(result.overallScore)}">
+        <span class="value">${Math.round(result.overallScore)}</span>
+        <span class="label">Overall score</span>
+      </div>
+      <p class="summary">${escapeHtml(result.summary)}</p>
+    </section>
+
+    <h2>Category scores</h2>
+    <table>${categoryRows}</table>
+
+    <h2>Recommendations (${result.findings.length})</h2>
+    ${findings || '<p>No findings were reported for this page.</p>'}
+    ${screenshotSection}
+  </main>
+  <footer>Analysis ${escapeHtml(analysisId)}</footer>
+</body>
+</html>`;
+  }
+
+  async renderPDF(html: string): Promise<Buffer> {
+    const browser = await chromium.launch({ headless: true });
+    try {
+      const page = await browser.newPage();
+      await page.setContent(html, { waitUntil: 'load' });
+      return await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '0', bottom: '12mm', left: '0', right: '0' },
+      });
+    } finally {
+      await browser.close();
+    }
+  }
+}
@@ -0,0 +1,344 @@
+import cronParser from 'cron-parser';
+import { AnalysisEvent } from '../../types/cro.types';
+import { DEFAULT_DEVICES } from '../config/devices.config';
+import { DEFAULT_PLAYBOOK } from '../config/playbooks.config';
+import { mergeScrapeOptions } from '../config/scrape.config';
+import { SchedulerConfig, getSchedulerConfig } from '../config/scheduler.config';
+import { AnalysisRecord } from '../models/analysis.model';
+import { CreateScheduleAlertRequest, Schedule, ScheduleAlert } from '../models/schedule.model';
+import { AnalysisRepository } from '../repositories/analysis.repository';
+import { ProjectRepository } from '../repositories/project.repository';
+import { ScheduleAlertRepository } from '../repositories/schedule-alert.repository';
+import { ScheduleRepository } from '../repositories/schedule.repository';
+import { UserRepository } from '../repositories/user.repository';
+import { ScheduleInput } from '../validators/schedule.validator';
+import { AnalysisComparisonService } from './analysis-comparison.service';
+import { AnalysisEventsService } from './analysis-events.service';
+import { JobQueueService } from './job-queue.service';
+import { PromptTemplateService } from './prompt-template.service';
+import { WebhookService } from './webhook.service';
+
+export interface ScheduleRunResult {
+  analysis?: AnalysisRecord;
+  // Why no analysis was started, e.g. the user's quota is used up
+  skipped?: string;
+}
+
+export interface SchedulerService {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  create(userId: string, input: ScheduleInput): Promise<Schedule>;
+  update(schedule: Schedule, input: ScheduleInput): Promise<Schedule | null>;
+  runNow(schedule: Schedule): Promise<ScheduleRunResult>;
+}
+
+// Upper bound when counting the runs missed during downtime; only used for logging
+const MAX_COUNTED_MISSED_RUNS = 1000;
+
+export function getNextRunAt(cronExpression: string, timezone: string, after: Date = new Date()): Date {
+  return cronParser.parseExpression(cronExpression, { currentDate: after, tz: timezone }).next().toDate();
+}
+
+/**
+ * Starts scheduled analyses and raises alerts when a run's score drops or
+ * its page content changes compared to the previous run of the schedule.
+ *
+ * Schedules live in the database, so runs that fell due while the service
+ * was down are picked up on the first tick after startup. Each schedule is
+ * caught up with a single run, however many runs it missed.
+ */
+export class SchedulerServiceImpl implements SchedulerService {
+  private scheduleRepository: ScheduleRepository;
+  private alertRepository: ScheduleAlertRepository;
+  private analysisRepository: AnalysisRepository;
+  private projectRepository: ProjectRepository;
+  private userRepository: UserRepository;
+  private jobQueue: JobQueueService;
+  private promptTemplateService: PromptTemplateService;
+  private analysisComparison: AnalysisComparisonService;
+  private analysisEvents: AnalysisEventsService;
+  private webhooks: WebhookService;
+  private config: SchedulerConfig;
+  private running = false;
+  private timer?: NodeJS.Timeout;
+  private currentTick?: Promise<void>;
+  private unsubscribe = () => {};
+
+  constructor(
+    scheduleRepository: ScheduleRepository,
+    alertRepository: ScheduleAlertRepository,
+    analysisRepository: AnalysisRepository,
+    projectRepository: ProjectRepository,
+    userRepository: UserRepository,
+    jobQueue: JobQueueService,
+    promptTemplateService: PromptTemplateService,
+    analysisComparison: AnalysisComparisonService,
+    analysisEvents: AnalysisEventsService,
+    webhooks: WebhookService,
+    config: SchedulerConfig = getSchedulerConfig()
+  ) {
+    this.scheduleRepository = scheduleRepository;
+    this.alertRepository = alertRepository;
+    this.analysisRepository = analysisRepository;
+    this.projectRepository = projectRepository;
+    this.userRepository = userRepository;
+    this.jobQueue = jobQueue;
+    this.promptTemplateService = promptTemplateService;
+    this.analysisComparison = analysisComparison;
+    this.analysisEvents = analysisEvents;
+    this.webhooks = webhooks;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    if (this.running || !this.config.enabled) return;
+
+    this.running = true;
+    this.unsubscribe = this.analysisEvents.subscribeAll((event) => {
+      this.handleAnalysisEvent(event).catch((error) => {
+        console.error(`❌ Failed to evaluate scheduled analysis ${event.analysisId}:`, (error as Error).message);
+      });
+    });
+
+    this.scheduleTick(0);
+    console.log(`✅ Scheduler started (polling every ${this.config.pollIntervalMs}ms)`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+
+    this.running = false;
+    clearTimeout(this.timer);
+    this.unsubscribe();
+    await this.currentTick;
+
+    console.log('✅ Scheduler stopped');
+  }
+
+  async create(userId: string, input: ScheduleInput): Promise<Schedule> {
+    const timezone = input.timezone || 'UTC';
+    const cronExpression = input.cronExpression!;
+
+    return this.scheduleRepository.create({
+      url: input.url!,
+      frequency: input.frequency!,
+      cronExpression,
+      timezone,
+      devices: input.devices || DEFAULT_DEVICES,
+      scrapeOptions: input.scrapeOptions || {},
+      playbook: input.playbook || DEFAULT_PLAYBOOK,
+      scoreDropThreshold: input.scoreDropThreshold ?? this.config.defaultScoreDropThreshold,
+      contentChangeThreshold: input.contentChangeThreshold ?? this.config.defaultContentChangeThreshold,
+      enabled: input.enabled ?? true,
+      nextRunAt: getNextRunAt(cronExpression, timezone),
+    }, userId);
+  }
+
+  async update(schedule: Schedule, input: ScheduleInput): Promise<Schedule | null> {
+    // The URL is fixed; runs of a schedule are only comparable if they analyse the same page
+    const { url, ...changes } = input;
+    const cronExpression = input.cronExpression || schedule.cronExpression;
+    const timezone = input.timezone || schedule.timezone;
+
+    // A new timing, or re-enabling, starts counting from now so it does not trigger a catch-up run
+    const retimed = input.cronExpression !== undefined || input.timezone !== undefined
+      || (input.enabled === true && !schedule.enabled);
+
+    return this.scheduleRepository.update(schedule.id, {
+      ...changes,
+      nextRunAt: retimed ? getNextRunAt(cronExpression, timezone) : undefined,
+    });
+  }
+
+  async runNow(schedule: Schedule): Promise<ScheduleRunResult> {
+    const result = await this.startRun(schedule);
+    await this.scheduleRepository.update(schedule.id, {
+      lastRunAt: new Date(),
+      lastAnalysisId: result.analysis?.id,
+      lastError: result.skipped || null,
+    });
+    return result;
+  }
+
+  private scheduleTick(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.currentTick = this.tick()
+        .catch((error) => console.error('❌ Scheduler tick failed:', (error as Error).message))
+        .finally(() => {
+          if (this.running) {
+            this.scheduleTick(this.config.pollIntervalMs);
+          }
+        });
+    }, delay);
+  }
+
+  private async tick(): Promise<void> {
+    const now = new Date();
+    const due = await this.scheduleRepository.findDue(now);
+
+    for (const schedule of due) {
+      if (!this.running) break;
+
+      try {
+        const nextRunAt = getNextRunAt(schedule.cronExpression, schedule.timezone, now);
+        const claimed = await this.scheduleRepository.claimRun(schedule.id, schedule.nextRunAt, nextRunAt);
+        if (!claimed) continue;
+
+        const missed = this.countMissedRuns(schedule, now);
+        if (missed > 1) {
+          console.log(`🔄 Schedule ${schedule.id} missed ${missed} run(s) while the service was down; catching up with one run`);
+        }
+
+        const result = await this.startRun(schedule);
+        await this.scheduleRepository.update(schedule.id, {
+          lastAnalysisId: result.analysis?.id,
+          lastError: result.skipped || null,
+        });
+      } catch (error) {
+        console.error(`❌ Failed to run schedule ${schedule.id}:`, (error as Error).message);
+        await this.scheduleRepository.update(schedule.id, { lastError: (error as Error).message });
+      }
+    }
+  }
+
+  // Runs that fell due since the schedule's next run, that one included
+  private countMissedRuns(schedule: Schedule, now: Date): number {
+    const interval = cronParser.parseExpression(schedule.cronExpression, {
+      currentDate: schedule.nextRunAt,
+      endDate: now,
+      tz: schedule.timezone,
+    });
+
+    let missed = 1;
+    while (interval.hasNext() && missed < MAX_COUNTED_MISSED_RUNS) {
+      interval.next();
+      missed++;
+    }
+    return missed;
+  }
+
+  private async startRun(schedule: Schedule): Promise<ScheduleRunResult> {
+    const template = await this.promptTemplateService.getActive(schedule.playbook);
+    if (!template) {
+      return { skipped: `No active prompt template for playbook: ${schedule.playbook}` };
+    }
+
+    // The user's current scrape defaults apply, overridden by the schedule's own options
+    const user = await this.userRepository.findById(schedule.userId);
+    if (!user || !user.isActive) {
+      return { skipped: 'Schedule owner is inactive' };
+    }
+
+    const project = await this.projectRepository.findForUrl({ userId: schedule.userId }, schedule.url);
+    const { analysis, quota } = await this.jobQueue.submit(schedule.userId, {
+      url: schedule.url,
+      projectId: project?.id,
+      metadata: { scheduleId: schedule.id },
+    }, {
+      url: schedule.url,
+      devices: schedule.devices,
+      scrapeOptions: mergeScrapeOptions(user.scrapeDefaults || {}, schedule.scrapeOptions),
+      promptTemplateId: template.id,
+    });
+
+    if (!analysis) {
+      console.warn(`⚠️ Skipping run of schedule ${schedule.id}: ${quota.reason}`);
+      return { skipped: quota.reason };
+    }
+
+    return { analysis };
+  }
+
+  private async handleAnalysisEvent(event: AnalysisEvent): Promise<void> {
+    if (event.type === 'progress') return;
+
+    const analysis = await this.analysisRepository.findById(event.analysisId);
+    const scheduleId = analysis?.metadata.scheduleId;
+    if (!analysis || !scheduleId) return;
+
+    const schedule = await this.scheduleRepository.findById(scheduleId);
+    if (!schedule) return;
+
+    if (event.type === 'failed') {
+      await this.scheduleRepository.update(schedule.id, { lastError: event.error });
+      return;
+    }
+
+    await this.scheduleRepository.update(schedule.id, { lastCompletedAnalysisId: analysis.id, lastError: null });
+
+    const base = schedule.lastCompletedAnalysisId
+      ? await this.analysisRepository.findById(schedule.lastCompletedAnalysisId)
+      : null;
+    if (!base || base.status !== 'completed') return;
+
+    await this.evaluateAlerts(schedule, base, analysis);
+  }
+
+  private async evaluateAlerts(schedule: Schedule, base: AnalysisRecord, head: AnalysisRecord): Promise<void> {
+    const comparison = await this.analysisComparison.compare(base, head);
+    const alerts: CreateScheduleAlertRequest[] = [];
+    const common = { scheduleId: schedule.id, userId: schedule.userId, analysisId: head.id, baseAnalysisId: base.id };
+
+    const scoreDelta = comparison.scores.overall.delta;
+    if (schedule.scoreDropThreshold > 0 && scoreDelta !== null && -scoreDelta >= schedule.scoreDropThreshold) {
+      alerts.push({
+        ...common,
+        type: 'score_drop',
+        message: `Score of ${schedule.url} dropped by ${-scoreDelta} points (${comparison.scores.overall.base} → ${comparison.scores.overall.head})`,
+        details: { scores: comparison.scores, newFindings: comparison.findings.new.length },
+      });
+    }
+
+    // Share of page text lines that changed; the screenshot diff stands in when there is no text
+    let changeRatio: number | null = null;
+    if (comparison.text) {
+      const { addedCount, removedCount, unchanged } = comparison.text;
+      const total = addedCount + removedCount + 2 * unchanged;
+      changeRatio = total === 0 ? 0 : (addedCount + removedCount) / total;
+    } else if (comparison.screenshotDiff) {
+      changeRatio = comparison.screenshotDiff.mismatchRatio;
+    }
+
+    if (schedule.contentChangeThreshold > 0 && changeRatio !== null && changeRatio >= schedule.contentChangeThreshold) {
+      alerts.push({
+        ...common,
+        type: 'content_change',
+        message: `Content of ${schedule.url} changed by ${Math.round(changeRatio * 100)}%`,
+        details: {
+          changeRatio: Math.round(changeRatio * 10000) / 10000,
+          text: comparison.text && {
+            added: comparison.text.added.slice(0, 20),
+            removed: comparison.text.removed.slice(0, 20),
+          },
+          structure: comparison.structure,
+          screenshotDiff: comparison.screenshotDiff,
+        },
+      });
+    }
+
+    for (const data of alerts) {
+      const alert = await this.alertRepository.create(data);
+      console.warn(`🔔 Schedule ${schedule.id}: ${alert.message}`);
+      await this.notify(schedule, alert);
+    }
+  }
+
+  // Alerts reach the user through their webhooks subscribed to `analysis.alert`
+  private async notify(schedule: Schedule, alert: ScheduleAlert): Promise<void> {
+    try {
+      await this.webhooks.dispatch(schedule.userId, 'analysis.alert', {
+        alertId: alert.id,
+        type: alert.type,
+        message: alert.message,
+        scheduleId: schedule.id,
+        url: schedule.url,
+        analysisId: alert.analysisId,
+        previousAnalysisId: alert.baseAnalysisId,
+        details: alert.details,
+        createdAt: alert.createdAt.toISOString(),
+      });
+    } catch (error) {
+      console.error(`❌ Failed to send alert ${alert.id} to webhooks:`, (error as Error).message);
+    }
+  }
+}
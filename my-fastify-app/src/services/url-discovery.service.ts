@@ -0,0 +1,185 @@
+import { isPrivateHost, resolvesToPrivateNetwork } from './network.service';
+
+// Sitemap indexes can nest; deeper levels are not followed
+const MAX_SITEMAP_DEPTH = 2;
+const MAX_REDIRECTS = 5;
+// Links that point at files rather than pages
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|jpe?g|png|gif|svg|webp|ico|css|js|json|xml|txt|mp4|mp3|webm|woff2?|ttf|docx?|xlsx?|pptx?)$/i;
+
+export interface DiscoveryOptions {
+  maxPages: number;
+  timeoutMs: number;
+  // Otherwise URLs on localhost and private networks are neither fetched nor returned
+  allowPrivateUrls: boolean;
+}
+
+const decodeEntities = (value: string) => value
+  .replace(/&amp;/g, '&')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'");
+
+// Whether discovery may return the URL; its addresses are checked when it is fetched
+const isAllowedUrl = (value: string, options: DiscoveryOptions): boolean => {
+  const url = new URL(value);
+  return ['http:', 'https:'].includes(url.protocol) && (options.allowPrivateUrls || !isPrivateHost(url.hostname));
+};
+
+// Redirects are followed by hand so that every hop is checked before it is requested
+async function fetchText(url: string, options: DiscoveryOptions): Promise<{ body: string; contentType: string; finalUrl: string }> {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    if (!isAllowedUrl(current, options) || (!options.allowPrivateUrls && await resolvesToPrivateNetwork(new URL(current).hostname))) {
+      throw new Error(`${current} points at a private network`);
+    }
+
+    const response = await fetch(current, {
+      headers: { 'User-Agent': 'cro-analyzer-discovery/1.0', Accept: 'text/html,application/xml;q=0.9,*/*;q=0.8' },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`${url} redirected more than ${MAX_REDIRECTS} times`);
+      }
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    if (!response.ok) {
+      throw new Error(`${current} responded with ${response.status}`);
+    }
+
+    return {
+      body: await response.text(),
+      contentType: response.headers.get('content-type') || '',
+      finalUrl: current,
+    };
+  }
+}
+
+/**
+ * Canonical form used to de-duplicate discovered pages: no fragment, no
+ * trailing slash on paths other than the root.
+ */
+export function normalizeDiscoveredUrl(value: string): string {
+  const url = new URL(value);
+  url.hash = '';
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.replace(/\/+$/, '');
+  }
+  return url.toString();
+}
+
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locations = (block: string) =>
+    [...block.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]]+?)\s*(?:\]\]>)?\s*<\/loc>/gi)].map((match) => decodeEntities(match[1]));
+
+  const sitemaps = [...xml.matchAll(/<sitemap>([\s\S]*?)<\/sitemap>/gi)].flatMap((match) => locations(match[1]));
+  const pages = [...xml.matchAll(/<url>([\s\S]*?)<\/url>/gi)].flatMap((match) => locations(match[1]));
+
+  return { pages, sitemaps };
+}
+
+// Same-origin page links of an HTML document, resolved against its URL
+export function extractSameOriginLinks(html: string, pageUrl: string): string[] {
+  const base = new URL(pageUrl);
+  const links: string[] = [];
+
+  for (const match of html.matchAll(/<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+    const href = decodeEntities((match[1] ?? match[2] ?? match[3] ?? '').trim());
+    if (!href || /^(mailto:|tel:|javascript:|#)/i.test(href)) continue;
+
+    try {
+      const url = new URL(href, base);
+      if (url.origin === base.origin && !NON_PAGE_EXTENSIONS.test(url.pathname)) {
+        links.push(normalizeDiscoveredUrl(url.toString()));
+      }
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Page URLs listed in a sitemap, following sitemap indexes. Only pages on
+ * the sitemap's own origin are kept.
+ */
+export async function discoverSitemapUrls(sitemapUrl: string, options: DiscoveryOptions): Promise<string[]> {
+  const origin = new URL(sitemapUrl).origin;
+  const found = new Set<string>();
+  const queue: Array<{ url: string; depth: number }> = [{ url: sitemapUrl, depth: 0 }];
+  const visited = new Set<string>();
+
+  while (queue.length > 0 && found.size < options.maxPages) {
+    const { url, depth } = queue.shift()!;
+    if (visited.has(url)) continue;
+    visited.add(url);
+
+    const { body } = await fetchText(url, options);
+    const { pages, sitemaps } = parseSitemap(body);
+
+    for (const page of pages) {
+      try {
+        if (new URL(page).origin === origin && isAllowedUrl(page, options)) {
+          found.add(normalizeDiscoveredUrl(page));
+        }
+      } catch {
+        // Ignore malformed entries
+      }
+      if (found.size >= options.maxPages) break;
+    }
+
+    if (depth < MAX_SITEMAP_DEPTH) {
+      queue.push(...sitemaps.map((child) => ({ url: child, depth: depth + 1 })));
+    }
+  }
+
+  return [...found];
+}
+
+/**
+ * Breadth-first crawl of the start URL's origin. Pages that fail to load
+ * are skipped, except the start page itself.
+ */
+export async function crawlSameOrigin(startUrl: string, depth: number, options: DiscoveryOptions): Promise<string[]> {
+  const start = normalizeDiscoveredUrl(startUrl);
+  const found = new Set<string>([start]);
+  let frontier = [start];
+
+  for (let level = 0; level < depth && frontier.length > 0 && found.size < options.maxPages; level++) {
+    const next: string[] = [];
+
+    for (const pageUrl of frontier) {
+      if (found.size >= options.maxPages) break;
+
+      let page: { body: string; contentType: string; finalUrl: string };
+      try {
+        page = await fetchText(pageUrl, options);
+      } catch (error) {
+        if (pageUrl === start) throw error;
+        continue;
+      }
+
+      if (!page.contentType.includes('html')) continue;
+
+      for (const link of extractSameOriginLinks(page.body, page.finalUrl)) {
+        if (found.size >= options.maxPages) break;
+        if (!found.has(link) && new URL(link).origin === new URL(start).origin && isAllowedUrl(link, options)) {
+          found.add(link);
+          next.push(link);
+        }
+      }
+    }
+
+    frontier = next;
+  }
+
+  return [...found];
+}
@@ -0,0 +1,63 @@
+// Query parameters that identify a campaign or click, not a different page
+const TRACKING_PARAMS = /^(utm_[a-z_]+|gclid|gbraid|wbraid|fbclid|msclkid|mc_cid|mc_eid|_ga|_gl)$/i;
+
+/**
+ * Key under which analyses of the same page are grouped: lower-case host,
+ * no default port, fragment or trailing slash, tracking parameters removed
+ * and the remaining query parameters sorted. Values that are not absolute
+ * URLs are returned trimmed.
+ */
+export function normalizeUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return value.trim();
+  }
+
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.replace(/\/+$/, '');
+  }
+
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(params).toString();
+
+  return url.toString();
+}
+
+/**
+ * Bare host name of a domain or URL as entered by a user:
+ * `https://www.Example.com/path` becomes `example.com`.
+ */
+export function normalizeDomain(value: string): string | null {
+  const input = value.trim().toLowerCase();
+  if (!input) return null;
+
+  try {
+    const host = new URL(input.includes('://') ? input : `http://${input}`).hostname;
+    return host.replace(/^www\./, '').replace(/\.$/, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+// A domain covers itself and its subdomains, `www` included
+export function hostMatchesDomain(hostname: string, domain: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+export function urlMatchesDomains(url: string, domains: string[]): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return domains.some((domain) => hostMatchesDomain(hostname, domain));
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,185 @@
+import { LLMCallUsage } from '../../types/cro.types';
+import { UsageConfig, UsageQuota, getModelPrice, getUsageConfig } from '../config/usage.config';
+import { AnalysisRecord } from '../models/analysis.model';
+import { UsageByModel, UsageTotals } from '../models/usage.model';
+import { UsageRepository } from '../repositories/usage.repository';
+import { UserRepository } from '../repositories/user.repository';
+
+export interface BillingPeriod {
+  start: Date;
+  end: Date;
+}
+
+export interface UsageSummary {
+  period: BillingPeriod;
+  analyses: number;
+  totals: UsageTotals;
+  byModel: UsageByModel[];
+  quota: UsageQuota;
+  // null when the corresponding quota is unlimited
+  remaining: {
+    analyses: number | null;
+    tokens: number | null;
+    costUsd: number | null;
+  };
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  // 429 when the analysis count is used up, 402 when the token or cost budget is
+  statusCode?: 402 | 429;
+  reason?: string;
+  summary: UsageSummary;
+}
+
+export interface AnalysisReservation {
+  quota: QuotaCheck;
+  // Set when the quota allowed the analysis to start
+  analysis?: AnalysisRecord;
+}
+
+export interface UsageService {
+  recordCalls(userId: string, analysisId: string | undefined, calls: LLMCallUsage[]): Promise<UsageTotals>;
+  calculateCost(model: string, promptTokens: number, completionTokens: number): number;
+  getBillingPeriod(now?: Date): BillingPeriod;
+  getUsageSummary(userId: string, now?: Date): Promise<UsageSummary>;
+  checkQuota(userId: string): Promise<QuotaCheck>;
+  reserveAnalysis(userId: string, start: () => Promise<AnalysisRecord>): Promise<AnalysisReservation>;
+}
+
+const roundCost = (value: number) => Math.round(value * 1_000_000) / 1_000_000;
+
+export class UsageServiceImpl implements UsageService {
+  private usageRepository: UsageRepository;
+  private userRepository: UserRepository;
+  private config: UsageConfig;
+
+  constructor(
+    usageRepository: UsageRepository,
+    userRepository: UserRepository,
+    config: UsageConfig = getUsageConfig()
+  ) {
+    this.usageRepository = usageRepository;
+    this.userRepository = userRepository;
+    this.config = config;
+  }
+
+  async recordCalls(userId: string, analysisId: string | undefined, calls: LLMCallUsage[]): Promise<UsageTotals> {
+    const totals: UsageTotals = { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 };
+
+    for (const call of calls) {
+      const costUsd = this.calculateCost(call.model, call.promptTokens, call.completionTokens);
+      await this.usageRepository.create({
+        userId,
+        analysisId,
+        provider: call.provider,
+        model: call.model,
+        purpose: call.purpose,
+        promptTokens: call.promptTokens,
+        completionTokens: call.completionTokens,
+        totalTokens: call.totalTokens,
+        costUsd,
+      });
+
+      totals.calls++;
+      totals.promptTokens += call.promptTokens;
+      totals.completionTokens += call.completionTokens;
+      totals.totalTokens += call.totalTokens;
+      totals.costUsd = roundCost(totals.costUsd + costUsd);
+    }
+
+    return totals;
+  }
+
+  calculateCost(model: string, promptTokens: number, completionTokens: number): number {
+    const price = getModelPrice(this.config, model);
+    return roundCost((promptTokens * price.prompt + completionTokens * price.completion) / 1_000_000);
+  }
+
+  // Billing periods are calendar months in UTC
+  getBillingPeriod(now: Date = new Date()): BillingPeriod {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+  }
+
+  async getUsageSummary(userId: string, now: Date = new Date()): Promise<UsageSummary> {
+    const period = this.getBillingPeriod(now);
+    const [analyses, totals, byModel, user] = await Promise.all([
+      this.usageRepository.countAnalyses(userId, period.start, period.end),
+      this.usageRepository.getTotals(userId, period.start, period.end),
+      this.usageRepository.getTotalsByModel(userId, period.start, period.end),
+      this.userRepository.findById(userId),
+    ]);
+
+    const quota: UsageQuota = { ...this.config.quota, ...(user?.quotaOverrides || {}) };
+    const remaining = (limit: number, used: number) => (limit > 0 ? Math.max(0, limit - used) : null);
+
+    return {
+      period,
+      analyses,
+      totals,
+      byModel,
+      quota,
+      remaining: {
+        analyses: remaining(quota.monthlyAnalyses, analyses),
+        tokens: remaining(quota.monthlyTokens, totals.totalTokens),
+        costUsd: quota.monthlyCostUsd > 0 ? roundCost(Math.max(0, quota.monthlyCostUsd - totals.costUsd)) : null,
+      },
+    };
+  }
+
+  async checkQuota(userId: string): Promise<QuotaCheck> {
+    const summary = await this.getUsageSummary(userId);
+    const { remaining, quota } = summary;
+
+    if (remaining.costUsd === 0) {
+      return {
+        allowed: false,
+        statusCode: 402,
+        reason: `Monthly LLM budget of $${quota.monthlyCostUsd} is used up`,
+        summary,
+      };
+    }
+
+    if (remaining.tokens === 0) {
+      return {
+        allowed: false,
+        statusCode: 402,
+        reason: `Monthly quota of ${quota.monthlyTokens} LLM tokens is used up`,
+        summary,
+      };
+    }
+
+    if (remaining.analyses === 0) {
+      return {
+        allowed: false,
+        statusCode: 429,
+        reason: `Monthly quota of ${quota.monthlyAnalyses} analyses is used up`,
+        summary,
+      };
+    }
+
+    return { allowed: true, summary };
+  }
+
+  /**
+   * Runs `start` if the quota allows another analysis and records the analysis
+   * it returns in the usage ledger. Must be called in the transaction that
+   * starts the analysis: the user stays locked until it ends, so concurrent
+   * requests cannot all pass the check on the same remaining quota.
+   */
+  async reserveAnalysis(userId: string, start: () => Promise<AnalysisRecord>): Promise<AnalysisReservation> {
+    await this.userRepository.lockForUpdate(userId);
+
+    const quota = await this.checkQuota(userId);
+    if (!quota.allowed) {
+      return { quota };
+    }
+
+    const analysis = await start();
+    await this.usageRepository.recordAnalysis(userId, analysis.id);
+    return { quota, analysis };
+  }
+}
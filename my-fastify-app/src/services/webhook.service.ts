@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisEvent } from '../../types/cro.types';
+import { WebhookConfig, getWebhookConfig } from '../config/webhook.config';
+import { AnalysisRecord } from '../models/analysis.model';
+import { Webhook, WebhookDelivery, WebhookDeliveryAttempt, WebhookEventType, WebhookPayload } from '../models/webhook.model';
+import { AnalysisRepository } from '../repositories/analysis.repository';
+import { WebhookDeliveryRepository } from '../repositories/webhook-delivery.repository';
+import { WebhookRepository } from '../repositories/webhook.repository';
+import { WebhookInput } from '../validators/webhook.validator';
+import { AnalysisEventsService } from './analysis-events.service';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export interface WebhookService {
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  create(userId: string, input: WebhookInput): Promise<Webhook>;
+  rotateSecret(webhook: Webhook): Promise<Webhook | null>;
+  dispatch(userId: string, type: WebhookEventType, data: Record<string, any>): Promise<WebhookDelivery[]>;
+  redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery | null>;
+}
+
+/**
+ * Signature over `<timestamp>.<body>`, sent as `t=<timestamp>,v1=<hex>`.
+ * Receivers recompute it with their secret and should reject old timestamps
+ * to prevent replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Turns analysis lifecycle events into webhook deliveries and sends them.
+ * Every delivery is persisted before it is sent, so deliveries that fail,
+ * or are interrupted by a restart, are retried with exponential backoff
+ * until `maxAttempts` is reached.
+ */
+export class WebhookServiceImpl implements WebhookService {
+  private webhookRepository: WebhookRepository;
+  private deliveryRepository: WebhookDeliveryRepository;
+  private analysisRepository: AnalysisRepository;
+  private analysisEvents: AnalysisEventsService;
+  private config: WebhookConfig;
+  private running = false;
+  private worker?: Promise<void>;
+  private sleepers = new Set<() => void>();
+  private unsubscribe = () => {};
+
+  constructor(
+    webhookRepository: WebhookRepository,
+    deliveryRepository: WebhookDeliveryRepository,
+    analysisRepository: AnalysisRepository,
+    analysisEvents: AnalysisEventsService,
+    config: WebhookConfig = getWebhookConfig()
+  ) {
+    this.webhookRepository = webhookRepository;
+    this.deliveryRepository = deliveryRepository;
+    this.analysisRepository = analysisRepository;
+    this.analysisEvents = analysisEvents;
+    this.config = config;
+  }
+
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    const interrupted = await this.deliveryRepository.findByStatus('sending');
+    for (const delivery of interrupted) {
+      await this.deliveryRepository.requeue(delivery.id);
+    }
+
+    this.running = true;
+    this.unsubscribe = this.analysisEvents.subscribeAll((event) => {
+      this.handleAnalysisEvent(event).catch((error) => {
+        console.error(`❌ Failed to queue webhooks for analysis ${event.analysisId}:`, (error as Error).message);
+      });
+    });
+    this.worker = this.runWorker();
+
+    console.log('✅ Webhook delivery started');
+  }
+
+  async stop(): Promise<void> {
+    if (!this.running) return;
+
+    this.running = false;
+    this.unsubscribe();
+    this.wake();
+    await this.worker;
+
+    console.log('✅ Webhook delivery stopped');
+  }
+
+  async create(userId: string, input: WebhookInput): Promise<Webhook> {
+    return this.webhookRepository.create({
+      url: input.url!,
+      description: input.description,
+      events: input.events!,
+      secret: this.generateSecret(),
+      enabled: input.enabled ?? true,
+    }, userId);
+  }
+
+  async rotateSecret(webhook: Webhook): Promise<Webhook | null> {
+    return this.webhookRepository.update(webhook.id, { secret: this.generateSecret() });
+  }
+
+  async dispatch(userId: string, type: WebhookEventType, data: Record<string, any>): Promise<WebhookDelivery[]> {
+    const webhooks = await this.webhookRepository.findSubscribed(userId, type);
+    const deliveries: WebhookDelivery[] = [];
+
+    // One event id for all endpoints, so receivers can deduplicate retries
+    const payload: WebhookPayload = { id: uuidv4(), type, createdAt: new Date().toISOString(), data };
+
+    for (const webhook of webhooks) {
+      deliveries.push(await this.deliveryRepository.create({
+        webhookId: webhook.id,
+        event: type,
+        payload,
+        maxAttempts: this.config.maxAttempts,
+      }));
+    }
+
+    if (deliveries.length > 0) {
+      this.wake();
+    }
+    return deliveries;
+  }
+
+  async redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+    await this.deliveryRepository.redeliver(delivery.id);
+    this.wake();
+    return this.deliveryRepository.findById(delivery.id);
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  private async handleAnalysisEvent(event: AnalysisEvent): Promise<void> {
+    if (event.type === 'progress') return;
+
+    const analysis = await this.analysisRepository.findById(event.analysisId);
+    if (!analysis) return;
+
+    if (event.type === 'failed') {
+      await this.dispatch(analysis.userId, 'analysis.failed', {
+        ...this.describeAnalysis(analysis),
+        error: event.error,
+      });
+      return;
+    }
+
+    await this.dispatch(analysis.userId, 'analysis.completed', this.describeAnalysis(analysis));
+
+    // Compared with the user's previous completed analysis of the same URL
+    const previous = await this.analysisRepository.findPreviousCompleted(analysis.userId, analysis.url, analysis.createdAt);
+    if (
+      previous
+      && previous.overallScore !== undefined
+      && analysis.overallScore !== undefined
+      && previous.overallScore !== analysis.overallScore
+    ) {
+      await this.dispatch(analysis.userId, 'analysis.score_changed', {
+        ...this.describeAnalysis(analysis),
+        previousAnalysisId: previous.id,
+        previousScore: previous.overallScore,
+        delta: Math.round((analysis.overallScore - previous.overallScore) * 10) / 10,
+      });
+    }
+  }
+
+  private describeAnalysis(analysis: AnalysisRecord): Record<string, any> {
+    return {
+      analysisId: analysis.id,
+      url: analysis.url,
+      status: analysis.status,
+      pageTitle: analysis.pageTitle,
+      overallScore: analysis.overallScore,
+      categoryScores: analysis.categoryScores,
+      scheduleId: analysis.metadata.scheduleId,
+      createdAt: analysis.createdAt.toISOString(),
+    };
+  }
+
+  private async runWorker(): Promise<void> {
+    while (this.running) {
+      let delivery: WebhookDelivery | null = null;
+
+      try {
+        delivery = await this.deliveryRepository.claimNext();
+      } catch (error) {
+        console.error('❌ Failed to claim webhook delivery:', (error as Error).message);
+      }
+
+      if (!delivery) {
+        await this.sleep(this.config.pollIntervalMs);
+        continue;
+      }
+
+      try {
+        await this.deliver(delivery);
+      } catch (error) {
+        console.error(`❌ Failed to record webhook delivery ${delivery.id}:`, (error as Error).message);
+      }
+    }
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const webhook = await this.webhookRepository.findById(delivery.webhookId);
+    if (!webhook || !webhook.enabled) {
+      await this.deliveryRepository.recordAttempt(delivery.id, 'failed', {
+        durationMs: 0,
+        error: 'Webhook is disabled',
+      });
+      return;
+    }
+
+    const attempt = await this.send(webhook, delivery);
+    const succeeded = attempt.responseStatus !== undefined && attempt.responseStatus >= 200 && attempt.responseStatus < 300;
+
+    if (succeeded) {
+      await this.deliveryRepository.recordAttempt(delivery.id, 'succeeded', attempt);
+    } else if (delivery.attempts < delivery.maxAttempts) {
+      const delay = this.config.retryBaseDelayMs * Math.pow(2, delivery.attempts - 1);
+      await this.deliveryRepository.recordAttempt(delivery.id, 'pending', attempt, new Date(Date.now() + delay));
+      console.warn(`🔁 Webhook delivery ${delivery.id} failed (attempt ${delivery.attempts}/${delivery.maxAttempts}), retrying in ${delay}ms`);
+    } else {
+      await this.deliveryRepository.recordAttempt(delivery.id, 'failed', attempt);
+      console.error(`❌ Webhook delivery ${delivery.id} failed after ${delivery.attempts} attempt(s)`);
+    }
+  }
+
+  private async send(webhook: Webhook, delivery: WebhookDelivery): Promise<WebhookDeliveryAttempt> {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'cro-analyzer-webhooks/1.0',
+          'X-Webhook-Id': webhook.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret!, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+
+      const responseBody = await response.text().catch(() => '');
+      return {
+        responseStatus: response.status,
+        responseBody,
+        durationMs: Date.now() - startedAt,
+        error: response.ok ? undefined : `Endpoint responded with ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        durationMs: Date.now() - startedAt,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.sleepers.delete(done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      this.sleepers.add(done);
+    });
+  }
+
+  private wake(): void {
+    for (const sleeper of [...this.sleepers]) {
+      sleeper();
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { UpdateUserRequest, User } from '../models/user.model';
+import { ValidationResult } from './cro-result.validator';
+
+const USER_ROLES: User['role'][] = ['user', 'admin'];
+
+// Only the fields present in the body are validated and changed
+export function validateAdminUserUpdate(input: unknown): ValidationResult<UpdateUserRequest> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+  const update: UpdateUserRequest = {};
+
+  for (const field of ['firstName', 'lastName'] as const) {
+    if (data[field] === undefined) continue;
+    if (typeof data[field] !== 'string' || data[field].trim() === '' || data[field].length > 100) {
+      errors.push(`${field} must be a non-empty string of at most 100 characters`);
+    } else {
+      update[field] = data[field].trim();
+    }
+  }
+
+  if (data.role !== undefined) {
+    if (!USER_ROLES.includes(data.role)) {
+      errors.push(`role must be one of: ${USER_ROLES.join(', ')}`);
+    } else {
+      update.role = data.role;
+    }
+  }
+
+  if (data.isActive !== undefined) {
+    if (typeof data.isActive !== 'boolean') {
+      errors.push('isActive must be a boolean');
+    } else {
+      update.isActive = data.isActive;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { valid: false, errors: ['Nothing to update: set firstName, lastName, role or isActive'] };
+  }
+
+  return { valid: true, value: update };
+}
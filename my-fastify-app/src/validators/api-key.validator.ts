@@ -0,0 +1,48 @@
+import { ApiKeyScope, CreateApiKeyRequest } from '../models/api-key.model';
+import { API_KEY_SCOPES } from '../services/api-key.service';
+import { ValidationResult } from './cro-result.validator';
+
+const MAX_RATE_LIMIT_PER_MINUTE = 10000;
+
+export function validateApiKey(input: unknown): ValidationResult<CreateApiKeyRequest> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+
+  if (typeof data.name !== 'string' || data.name.trim() === '' || data.name.length > 100) {
+    errors.push('name must be a non-empty string of at most 100 characters');
+  }
+
+  if (!Array.isArray(data.scopes) || data.scopes.length === 0
+    || data.scopes.some((scope: unknown) => !API_KEY_SCOPES.includes(scope as ApiKeyScope))) {
+    errors.push(`scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}`);
+  }
+
+  if (data.rateLimitPerMinute !== undefined
+    && (!Number.isInteger(data.rateLimitPerMinute) || data.rateLimitPerMinute < 1 || data.rateLimitPerMinute > MAX_RATE_LIMIT_PER_MINUTE)) {
+    errors.push(`rateLimitPerMinute must be an integer between 1 and ${MAX_RATE_LIMIT_PER_MINUTE}`);
+  }
+
+  const expiresAt = data.expiresAt !== undefined ? new Date(data.expiresAt) : undefined;
+  if (expiresAt && (typeof data.expiresAt !== 'string' || isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+    errors.push('expiresAt must be a future ISO 8601 date');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      name: data.name.trim(),
+      scopes: [...new Set(data.scopes as CreateApiKeyRequest['scopes'])],
+      rateLimitPerMinute: data.rateLimitPerMinute,
+      expiresAt,
+    },
+  };
+}
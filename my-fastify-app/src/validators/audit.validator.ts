@@ -0,0 +1,60 @@
+import { AuditEventFilters } from '../models/audit-event.model';
+import { ValidationResult } from './cro-result.validator';
+
+const MAX_LIMIT = 1000;
+// CSV exports are meant for whole periods, so they may return more rows
+const MAX_CSV_LIMIT = 10000;
+
+export interface AuditQuery extends AuditEventFilters {
+  format: 'json' | 'csv';
+}
+
+export function validateAuditQuery(input: unknown): ValidationResult<AuditQuery> {
+  const errors: string[] = [];
+  const data = (input || {}) as Record<string, any>;
+
+  const format = data.format === undefined ? 'json' : data.format;
+  if (format !== 'json' && format !== 'csv') {
+    errors.push('format must be json or csv');
+  }
+
+  const maxLimit = format === 'csv' ? MAX_CSV_LIMIT : MAX_LIMIT;
+  const limit = data.limit === undefined ? (format === 'csv' ? MAX_CSV_LIMIT : 100) : Number(data.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+    errors.push(`limit must be an integer between 1 and ${maxLimit}`);
+  }
+
+  const offset = data.offset === undefined ? 0 : Number(data.offset);
+  if (!Number.isInteger(offset) || offset < 0) {
+    errors.push('offset must be a non-negative integer');
+  }
+
+  const dates: Partial<Record<'from' | 'to', Date>> = {};
+  for (const field of ['from', 'to'] as const) {
+    if (data[field] === undefined) continue;
+    const date = new Date(data[field]);
+    if (typeof data[field] !== 'string' || isNaN(date.getTime())) {
+      errors.push(`${field} must be an ISO 8601 date`);
+    } else {
+      dates[field] = date;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      format,
+      action: data.action || undefined,
+      actorId: data.actorId || undefined,
+      targetType: data.targetType || undefined,
+      targetId: data.targetId || undefined,
+      ...dates,
+      limit,
+      offset,
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import { ScrapeOptions } from '../../types/cro.types';
+import { BatchConfig } from '../config/batch.config';
+import { DEVICE_PROFILES } from '../config/devices.config';
+import { BatchSource } from '../models/batch.model';
+import { isPrivateHost } from '../services/network.service';
+import { ValidationResult } from './cro-result.validator';
+import { validateScrapeOptions } from './scrape-options.validator';
+
+export interface BatchInput {
+  name?: string;
+  source: BatchSource;
+  // Only for `urls` batches
+  urls?: string[];
+  // Sitemap or crawl start URL
+  sourceUrl?: string;
+  crawlDepth?: number;
+  maxPages: number;
+  concurrency: number;
+  devices?: string[];
+  scrapeOptions?: ScrapeOptions;
+  playbook?: string;
+}
+
+const isHttpUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isIntegerBetween = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+export function validateBatch(input: unknown, config: BatchConfig): ValidationResult<BatchInput> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+  const sources = ['urls', 'sitemapUrl', 'crawl'].filter((field) => data[field] !== undefined);
+  if (sources.length !== 1) {
+    return { valid: false, errors: ['Exactly one of urls, sitemapUrl or crawl is required'] };
+  }
+
+  const batch: BatchInput = { source: 'urls', maxPages: config.maxUrls, concurrency: config.defaultConcurrency };
+
+  if (data.name !== undefined) {
+    if (typeof data.name !== 'string' || data.name.length > 200) {
+      errors.push('name must be a string of at most 200 characters');
+    } else {
+      batch.name = data.name;
+    }
+  }
+
+  if (data.maxPages !== undefined) {
+    if (!isIntegerBetween(data.maxPages, 1, config.maxUrls)) {
+      errors.push(`maxPages must be an integer between 1 and ${config.maxUrls}`);
+    } else {
+      batch.maxPages = data.maxPages;
+    }
+  }
+
+  // Every page, sitemap and crawl start page is fetched by the server itself
+  const isPrivateUrl = (value: string) => !config.allowPrivateUrls && isPrivateHost(new URL(value).hostname);
+
+  if (data.urls !== undefined) {
+    if (!Array.isArray(data.urls) || data.urls.length === 0 || data.urls.length > config.maxUrls) {
+      errors.push(`urls must be a list of 1 to ${config.maxUrls} URLs`);
+    } else {
+      const invalid = data.urls.filter((url: unknown) => !isHttpUrl(url));
+      const privateUrls = (data.urls as unknown[]).filter(isHttpUrl).filter(isPrivateUrl);
+      if (invalid.length > 0) {
+        errors.push(`urls must be http(s) URLs: ${invalid.slice(0, 5).map(String).join(', ')}`);
+      } else if (privateUrls.length > 0) {
+        errors.push(`urls must not point at localhost or a private network: ${privateUrls.slice(0, 5).join(', ')}`);
+      } else {
+        batch.urls = [...new Set(data.urls as string[])];
+      }
+    }
+  }
+
+  if (data.sitemapUrl !== undefined) {
+    if (!isHttpUrl(data.sitemapUrl)) {
+      errors.push('sitemapUrl must be an http(s) URL');
+    } else if (isPrivateUrl(data.sitemapUrl)) {
+      errors.push('sitemapUrl must not point at localhost or a private network');
+    } else {
+      batch.source = 'sitemap';
+      batch.sourceUrl = data.sitemapUrl;
+    }
+  }
+
+  if (data.crawl !== undefined) {
+    const crawl = data.crawl;
+    if (!crawl || typeof crawl !== 'object' || !isHttpUrl(crawl.startUrl)) {
+      errors.push('crawl.startUrl must be an http(s) URL');
+    } else if (isPrivateUrl(crawl.startUrl)) {
+      errors.push('crawl.startUrl must not point at localhost or a private network');
+    } else if (crawl.depth !== undefined && !isIntegerBetween(crawl.depth, 0, config.maxCrawlDepth)) {
+      errors.push(`crawl.depth must be an integer between 0 and ${config.maxCrawlDepth}`);
+    } else {
+      batch.source = 'crawl';
+      batch.sourceUrl = crawl.startUrl;
+      batch.crawlDepth = crawl.depth ?? 1;
+    }
+  }
+
+  if (data.concurrency !== undefined) {
+    if (!isIntegerBetween(data.concurrency, 1, config.maxConcurrency)) {
+      errors.push(`concurrency must be an integer between 1 and ${config.maxConcurrency}`);
+    } else {
+      batch.concurrency = data.concurrency;
+    }
+  }
+
+  if (data.devices !== undefined) {
+    const unknownDevices = Array.isArray(data.devices)
+      ? data.devices.filter((device: string) => !DEVICE_PROFILES[device])
+      : [String(data.devices)];
+    if (!Array.isArray(data.devices) || data.devices.length === 0 || unknownDevices.length > 0) {
+      errors.push(`devices must be a non-empty list of: ${Object.keys(DEVICE_PROFILES).join(', ')}`);
+    } else {
+      batch.devices = [...new Set(data.devices as string[])];
+    }
+  }
+
+  if (data.scrapeOptions !== undefined) {
+    const scrapeOptions = validateScrapeOptions(data.scrapeOptions);
+    if (!scrapeOptions.valid) {
+      errors.push(...scrapeOptions.errors.map((error) => `scrapeOptions: ${error}`));
+    } else {
+      batch.scrapeOptions = scrapeOptions.value;
+    }
+  }
+
+  if (data.playbook !== undefined) {
+    if (typeof data.playbook !== 'string' || data.playbook.trim() === '') {
+      errors.push('playbook must be a non-empty string');
+    } else {
+      batch.playbook = data.playbook;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value: batch };
+}
@@ -0,0 +1,131 @@
+import {
+  CROAnalysisResult,
+  CROCategory,
+  CROFinding,
+  CROFindingSeverity,
+} from '../../types/cro.types';
+
+export const CRO_CATEGORIES: CROCategory[] = [
+  'headline',
+  'cta',
+  'trust_signals',
+  'forms',
+  'copy',
+  'visual_hierarchy',
+  'mobile',
+];
+
+export const CRO_SEVERITIES: CROFindingSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+export type ValidationResult<T> =
+  | { valid: true; value: T }
+  | { valid: false; errors: string[] };
+
+/**
+ * JSON shape the LLM is asked to return. Kept next to the validator so the
+ * prompt and the checks cannot drift apart.
+ */
+export const CRO_RESULT_SCHEMA_DESCRIPTION = `{
+  "overallScore": number (0-100),
+  "categoryScores": { ${CRO_CATEGORIES.map((c) => `"${c}": number (0-100)`).join(', ')} },
+  "summary": string,
+  "findings": [
+    {
+      "category": one of ${CRO_CATEGORIES.map((c) => `"${c}"`).join(' | ')},
+      "severity": one of ${CRO_SEVERITIES.map((s) => `"${s}"`).join(' | ')},
+      "title": string,
+      "evidence": string,
+      "recommendation": string,
+      "expectedImpact": string
+    }
+  ]
+}`;
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+export function validateCROAnalysisResult(input: unknown): ValidationResult<CROAnalysisResult> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Result must be a JSON object'] };
+  }
+
+  const data = input as Record<string, any>;
+
+  if (!isScore(data.overallScore)) {
+    errors.push('overallScore must be a number between 0 and 100');
+  }
+
+  if (!isNonEmptyString(data.summary)) {
+    errors.push('summary must be a non-empty string');
+  }
+
+  const categoryScores = {} as Record<CROCategory, number>;
+  if (!data.categoryScores || typeof data.categoryScores !== 'object') {
+    errors.push('categoryScores must be an object');
+  } else {
+    for (const category of CRO_CATEGORIES) {
+      const score = data.categoryScores[category];
+      if (!isScore(score)) {
+        errors.push(`categoryScores.${category} must be a number between 0 and 100`);
+      } else {
+        categoryScores[category] = score;
+      }
+    }
+  }
+
+  const findings: CROFinding[] = [];
+  if (!Array.isArray(data.findings)) {
+    errors.push('findings must be an array');
+  } else {
+    data.findings.forEach((finding: any, index: number) => {
+      const path = `findings[${index}]`;
+
+      if (!finding || typeof finding !== 'object') {
+        errors.push(`${path} must be an object`);
+        return;
+      }
+
+      if (!CRO_CATEGORIES.includes(finding.category)) {
+        errors.push(`${path}.category must be one of ${CRO_CATEGORIES.join(', ')}`);
+      }
+
+      if (!CRO_SEVERITIES.includes(finding.severity)) {
+        errors.push(`${path}.severity must be one of ${CRO_SEVERITIES.join(', ')}`);
+      }
+
+      for (const field of ['title', 'evidence', 'recommendation', 'expectedImpact']) {
+        if (!isNonEmptyString(finding[field])) {
+          errors.push(`${path}.${field} must be a non-empty string`);
+        }
+      }
+
+      findings.push({
+        category: finding.category,
+        severity: finding.severity,
+        title: finding.title,
+        evidence: finding.evidence,
+        recommendation: finding.recommendation,
+        expectedImpact: finding.expectedImpact,
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      overallScore: data.overallScore,
+      categoryScores,
+      summary: data.summary,
+      findings,
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { OrganizationRole } from '../models/organization.model';
+import { ORGANIZATION_ROLES } from '../services/authorization.service';
+import { ValidationResult } from './cro-result.validator';
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function validateOrganizationName(input: unknown): ValidationResult<string> {
+  const name = (input as Record<string, any> | undefined)?.name;
+
+  if (typeof name !== 'string' || name.trim() === '' || name.length > 200) {
+    return { valid: false, errors: ['name must be a non-empty string of at most 200 characters'] };
+  }
+
+  return { valid: true, value: name.trim() };
+}
+
+export function validateOrganizationRole(input: unknown): ValidationResult<OrganizationRole> {
+  const role = (input as Record<string, any> | undefined)?.role;
+
+  if (!ORGANIZATION_ROLES.includes(role)) {
+    return { valid: false, errors: [`role must be one of: ${ORGANIZATION_ROLES.join(', ')}`] };
+  }
+
+  return { valid: true, value: role };
+}
+
+export function validateInvitation(input: unknown): ValidationResult<{ email: string; role: OrganizationRole }> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+
+  if (typeof data.email !== 'string' || !EMAIL.test(data.email)) {
+    errors.push('email must be a valid email address');
+  }
+
+  const role = validateOrganizationRole(data);
+  if (!role.valid) {
+    errors.push(...role.errors);
+  }
+
+  if (errors.length > 0 || !role.valid) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value: { email: data.email.trim().toLowerCase(), role: role.value } };
+}
@@ -0,0 +1,92 @@
+import { ScrapeOptions } from '../../types/cro.types';
+import { normalizeDomain } from '../services/url-normalization.service';
+import { ValidationResult } from './cro-result.validator';
+import { validateScrapeOptions } from './scrape-options.validator';
+
+const MAX_DOMAINS = 20;
+
+export interface ProjectInput {
+  // Creates the project in an organization; cannot be changed afterwards
+  organizationId?: string;
+  name?: string;
+  // null clears the field on update
+  description?: string | null;
+  domains?: string[];
+  scrapeOptions?: ScrapeOptions;
+  playbook?: string | null;
+}
+
+export interface ProjectValidationOptions {
+  // Updates only validate the fields that are present
+  partial: boolean;
+}
+
+export function validateProject(input: unknown, options: ProjectValidationOptions): ValidationResult<ProjectInput> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+  const project: ProjectInput = {};
+  const present = (field: string) => !options.partial || data[field] !== undefined;
+
+  if (present('name')) {
+    if (typeof data.name !== 'string' || data.name.trim() === '' || data.name.length > 200) {
+      errors.push('name must be a non-empty string of at most 200 characters');
+    } else {
+      project.name = data.name.trim();
+    }
+  }
+
+  if (present('domains')) {
+    const domains = Array.isArray(data.domains)
+      ? data.domains.map((domain: unknown) => (typeof domain === 'string' ? normalizeDomain(domain) : null))
+      : [];
+    if (!Array.isArray(data.domains) || domains.length === 0 || domains.length > MAX_DOMAINS || domains.includes(null)) {
+      errors.push(`domains must be a list of 1 to ${MAX_DOMAINS} domain names, e.g. example.com`);
+    } else {
+      project.domains = [...new Set(domains as string[])];
+    }
+  }
+
+  if (data.organizationId !== undefined) {
+    if (typeof data.organizationId !== 'string' || data.organizationId === '') {
+      errors.push('organizationId must be a string');
+    } else {
+      project.organizationId = data.organizationId;
+    }
+  }
+
+  if (data.description !== undefined) {
+    if (data.description !== null && (typeof data.description !== 'string' || data.description.length > 1000)) {
+      errors.push('description must be a string of at most 1000 characters');
+    } else {
+      project.description = data.description;
+    }
+  }
+
+  if (data.scrapeOptions !== undefined) {
+    const scrapeOptions = validateScrapeOptions(data.scrapeOptions);
+    if (!scrapeOptions.valid) {
+      errors.push(...scrapeOptions.errors.map((error) => `scrapeOptions: ${error}`));
+    } else {
+      project.scrapeOptions = scrapeOptions.value;
+    }
+  }
+
+  if (data.playbook !== undefined) {
+    if (data.playbook !== null && (typeof data.playbook !== 'string' || data.playbook.trim() === '')) {
+      errors.push('playbook must be a non-empty string');
+    } else {
+      project.playbook = data.playbook;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value: project };
+}
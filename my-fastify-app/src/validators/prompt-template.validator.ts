@@ -0,0 +1,79 @@
+import {
+  PROMPT_TEMPLATE_VARIABLES,
+  REQUIRED_PROMPT_TEMPLATE_VARIABLES,
+} from '../config/playbooks.config';
+import { ValidationResult } from './cro-result.validator';
+
+export interface PromptTemplateInput {
+  playbook: string;
+  name: string;
+  description?: string;
+  body: string;
+  variables: string[];
+  activate: boolean;
+}
+
+const PLAYBOOK_SLUG = /^[a-z0-9][a-z0-9_-]{1,49}$/;
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export const extractTemplateVariables = (body: string): string[] =>
+  [...new Set([...body.matchAll(VARIABLE_PATTERN)].map((match) => match[1]))];
+
+export function validatePromptTemplate(input: unknown): ValidationResult<PromptTemplateInput> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+
+  if (typeof data.playbook !== 'string' || !PLAYBOOK_SLUG.test(data.playbook)) {
+    errors.push('playbook must be a lowercase slug (letters, digits, "_" or "-")');
+  }
+
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    errors.push('name must be a non-empty string');
+  }
+
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  if (data.activate !== undefined && typeof data.activate !== 'boolean') {
+    errors.push('activate must be a boolean');
+  }
+
+  let variables: string[] = [];
+  if (typeof data.body !== 'string' || data.body.trim() === '') {
+    errors.push('body must be a non-empty string');
+  } else {
+    variables = extractTemplateVariables(data.body);
+
+    const unknown = variables.filter((name) => !(PROMPT_TEMPLATE_VARIABLES as readonly string[]).includes(name));
+    if (unknown.length > 0) {
+      errors.push(`Unknown variable(s): ${unknown.join(', ')}. Allowed: ${PROMPT_TEMPLATE_VARIABLES.join(', ')}`);
+    }
+
+    const missing = REQUIRED_PROMPT_TEMPLATE_VARIABLES.filter((name) => !variables.includes(name));
+    if (missing.length > 0) {
+      errors.push(`Missing required variable(s): ${missing.map((name) => `{{${name}}}`).join(', ')}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    value: {
+      playbook: data.playbook,
+      name: data.name.trim(),
+      description: data.description,
+      body: data.body,
+      variables,
+      activate: data.activate ?? false,
+    },
+  };
+}
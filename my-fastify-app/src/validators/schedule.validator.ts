@@ -0,0 +1,191 @@
+import cronParser from 'cron-parser';
+import { ScrapeOptions } from '../../types/cro.types';
+import { DEVICE_PROFILES } from '../config/devices.config';
+import { ScheduleFrequency } from '../models/schedule.model';
+import { ValidationResult } from './cro-result.validator';
+import { validateScrapeOptions } from './scrape-options.validator';
+
+export interface ScheduleInput {
+  url?: string;
+  frequency?: ScheduleFrequency;
+  cronExpression?: string;
+  timezone?: string;
+  devices?: string[];
+  scrapeOptions?: ScrapeOptions;
+  playbook?: string;
+  scoreDropThreshold?: number;
+  contentChangeThreshold?: number;
+  enabled?: boolean;
+}
+
+export interface ScheduleValidationOptions {
+  // Updates only validate the fields that are present
+  partial: boolean;
+  minIntervalMinutes: number;
+}
+
+const FREQUENCIES: ScheduleFrequency[] = ['daily', 'weekly', 'cron'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Daily and weekly schedules are stored as cron expressions so the
+ * scheduler has a single way to compute the next run.
+ */
+export function toCronExpression(
+  frequency: ScheduleFrequency,
+  { cron, time = '09:00', dayOfWeek = 1 }: { cron?: string; time?: string; dayOfWeek?: number }
+): string {
+  if (frequency === 'cron') {
+    return (cron || '').trim();
+  }
+
+  const [hour, minute] = time.split(':').map(Number);
+  return frequency === 'daily'
+    ? `${minute} ${hour} * * *`
+    : `${minute} ${hour} * * ${dayOfWeek}`;
+}
+
+// Shortest gap between the next few runs, in minutes
+const shortestInterval = (expression: string, timezone: string): number => {
+  const interval = cronParser.parseExpression(expression, { tz: timezone });
+  let previous = interval.next().toDate().getTime();
+  let shortest = Infinity;
+
+  for (let i = 0; i < 5; i++) {
+    const next = interval.next().toDate().getTime();
+    shortest = Math.min(shortest, next - previous);
+    previous = next;
+  }
+
+  return shortest / 60000;
+};
+
+export function validateSchedule(input: unknown, options: ScheduleValidationOptions): ValidationResult<ScheduleInput> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+  const schedule: ScheduleInput = {};
+  const present = (field: string) => !options.partial || data[field] !== undefined;
+
+  if (present('url')) {
+    let validUrl = typeof data.url === 'string';
+    if (validUrl) {
+      try {
+        validUrl = ['http:', 'https:'].includes(new URL(data.url).protocol);
+      } catch {
+        validUrl = false;
+      }
+    }
+    if (!validUrl) {
+      errors.push('url must be an http(s) URL');
+    } else {
+      schedule.url = data.url;
+    }
+  }
+
+  if (data.timezone !== undefined) {
+    let validZone = typeof data.timezone === 'string';
+    if (validZone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: data.timezone });
+      } catch {
+        validZone = false;
+      }
+    }
+    if (!validZone) {
+      errors.push('timezone must be an IANA time zone such as "Europe/Lisbon"');
+    } else {
+      schedule.timezone = data.timezone;
+    }
+  } else if (!options.partial) {
+    schedule.timezone = 'UTC';
+  }
+
+  const timing = ['cron', 'time', 'dayOfWeek'].some((field) => data[field] !== undefined);
+  if (present('frequency') || timing) {
+    if (!FREQUENCIES.includes(data.frequency)) {
+      errors.push(`frequency must be one of ${FREQUENCIES.join(', ')}`);
+    } else if (data.time !== undefined && (typeof data.time !== 'string' || !TIME_OF_DAY.test(data.time))) {
+      errors.push('time must be a time of day in HH:MM format');
+    } else if (data.dayOfWeek !== undefined && (!Number.isInteger(data.dayOfWeek) || data.dayOfWeek < 0 || data.dayOfWeek > 6)) {
+      errors.push('dayOfWeek must be an integer between 0 (Sunday) and 6 (Saturday)');
+    } else if (data.frequency === 'cron' && (typeof data.cron !== 'string' || data.cron.trim() === '')) {
+      errors.push('cron is required when frequency is "cron"');
+    } else {
+      const expression = toCronExpression(data.frequency, data);
+      try {
+        const minutes = shortestInterval(expression, schedule.timezone || 'UTC');
+        if (minutes < options.minIntervalMinutes) {
+          errors.push(`Schedule must not run more often than every ${options.minIntervalMinutes} minutes`);
+        } else {
+          schedule.frequency = data.frequency;
+          schedule.cronExpression = expression;
+        }
+      } catch (error) {
+        errors.push(`cron is not a valid cron expression: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  if (data.devices !== undefined) {
+    const unknownDevices = Array.isArray(data.devices)
+      ? data.devices.filter((device: string) => !DEVICE_PROFILES[device])
+      : [String(data.devices)];
+    if (!Array.isArray(data.devices) || data.devices.length === 0 || unknownDevices.length > 0) {
+      errors.push(`devices must be a non-empty list of: ${Object.keys(DEVICE_PROFILES).join(', ')}`);
+    } else {
+      schedule.devices = [...new Set(data.devices as string[])];
+    }
+  }
+
+  if (data.scrapeOptions !== undefined) {
+    const scrapeOptions = validateScrapeOptions(data.scrapeOptions);
+    if (!scrapeOptions.valid) {
+      errors.push(...scrapeOptions.errors.map((error) => `scrapeOptions: ${error}`));
+    } else {
+      schedule.scrapeOptions = scrapeOptions.value;
+    }
+  }
+
+  if (data.playbook !== undefined) {
+    if (typeof data.playbook !== 'string' || data.playbook.trim() === '') {
+      errors.push('playbook must be a non-empty string');
+    } else {
+      schedule.playbook = data.playbook;
+    }
+  }
+
+  if (data.scoreDropThreshold !== undefined) {
+    if (typeof data.scoreDropThreshold !== 'number' || data.scoreDropThreshold < 0 || data.scoreDropThreshold > 100) {
+      errors.push('scoreDropThreshold must be a number between 0 and 100');
+    } else {
+      schedule.scoreDropThreshold = data.scoreDropThreshold;
+    }
+  }
+
+  if (data.contentChangeThreshold !== undefined) {
+    if (typeof data.contentChangeThreshold !== 'number' || data.contentChangeThreshold < 0 || data.contentChangeThreshold > 1) {
+      errors.push('contentChangeThreshold must be a number between 0 and 1');
+    } else {
+      schedule.contentChangeThreshold = data.contentChangeThreshold;
+    }
+  }
+
+  if (data.enabled !== undefined) {
+    if (typeof data.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    } else {
+      schedule.enabled = data.enabled;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value: schedule };
+}
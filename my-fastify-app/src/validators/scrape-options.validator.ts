@@ -0,0 +1,150 @@
+import { ScrapeCookie, ScrapeOptions, WaitStrategy } from '../../types/cro.types';
+import { ValidationResult } from './cro-result.validator';
+
+const MAX_TIME_LIMIT_MS = 5 * 60 * 1000;
+
+// Headers Playwright or the browser manage themselves
+const FORBIDDEN_HEADERS = ['host', 'content-length', 'cookie', 'authorization'];
+
+export function validateScrapeOptions(input: unknown): ValidationResult<ScrapeOptions> {
+  const errors: string[] = [];
+
+  if (input === undefined || input === null) {
+    return { valid: true, value: {} };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['scrapeOptions must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+  const options: ScrapeOptions = {};
+
+  if (data.locale !== undefined) {
+    if (typeof data.locale !== 'string' || !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(data.locale)) {
+      errors.push('locale must be a BCP 47 language tag such as "en-US"');
+    } else {
+      options.locale = data.locale;
+    }
+  }
+
+  if (data.timezoneId !== undefined) {
+    let validZone = typeof data.timezoneId === 'string';
+    if (validZone) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: data.timezoneId });
+      } catch {
+        validZone = false;
+      }
+    }
+    if (!validZone) {
+      errors.push('timezoneId must be an IANA time zone such as "Europe/Lisbon"');
+    } else {
+      options.timezoneId = data.timezoneId;
+    }
+  }
+
+  if (data.waitStrategy !== undefined) {
+    const wait = data.waitStrategy as Partial<WaitStrategy> & Record<string, any>;
+    if (!wait || typeof wait !== 'object') {
+      errors.push('waitStrategy must be an object');
+    } else if (wait.type === 'networkidle') {
+      options.waitStrategy = { type: 'networkidle', timeoutMs: wait.timeoutMs };
+    } else if (wait.type === 'selector') {
+      if (typeof wait.selector !== 'string' || wait.selector.trim() === '') {
+        errors.push('waitStrategy.selector must be a non-empty string');
+      } else {
+        options.waitStrategy = { type: 'selector', selector: wait.selector, timeoutMs: wait.timeoutMs };
+      }
+    } else if (wait.type === 'delay') {
+      if (typeof wait.delayMs !== 'number' || wait.delayMs < 0 || wait.delayMs > 60000) {
+        errors.push('waitStrategy.delayMs must be a number between 0 and 60000');
+      } else {
+        options.waitStrategy = { type: 'delay', delayMs: wait.delayMs };
+      }
+    } else {
+      errors.push('waitStrategy.type must be one of networkidle, selector, delay');
+    }
+
+    if (wait && wait.timeoutMs !== undefined && (typeof wait.timeoutMs !== 'number' || wait.timeoutMs <= 0)) {
+      errors.push('waitStrategy.timeoutMs must be a positive number');
+    }
+  }
+
+  if (data.extraHeaders !== undefined) {
+    if (!data.extraHeaders || typeof data.extraHeaders !== 'object' || Array.isArray(data.extraHeaders)) {
+      errors.push('extraHeaders must be an object of header names to string values');
+    } else {
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(data.extraHeaders)) {
+        if (typeof value !== 'string') {
+          errors.push(`extraHeaders.${name} must be a string`);
+        } else if (FORBIDDEN_HEADERS.includes(name.toLowerCase())) {
+          errors.push(`extraHeaders.${name} is not allowed; use cookies or basicAuth instead`);
+        } else {
+          headers[name.toLowerCase()] = value;
+        }
+      }
+      options.extraHeaders = headers;
+    }
+  }
+
+  if (data.cookies !== undefined) {
+    if (!Array.isArray(data.cookies)) {
+      errors.push('cookies must be an array');
+    } else {
+      const cookies: ScrapeCookie[] = [];
+      data.cookies.forEach((cookie: any, index: number) => {
+        if (!cookie || typeof cookie.name !== 'string' || typeof cookie.value !== 'string') {
+          errors.push(`cookies[${index}] must have string name and value`);
+          return;
+        }
+        if (cookie.sameSite !== undefined && !['Strict', 'Lax', 'None'].includes(cookie.sameSite)) {
+          errors.push(`cookies[${index}].sameSite must be one of Strict, Lax, None`);
+          return;
+        }
+        cookies.push({
+          name: cookie.name,
+          value: cookie.value,
+          domain: typeof cookie.domain === 'string' ? cookie.domain : undefined,
+          path: typeof cookie.path === 'string' ? cookie.path : undefined,
+          secure: typeof cookie.secure === 'boolean' ? cookie.secure : undefined,
+          httpOnly: typeof cookie.httpOnly === 'boolean' ? cookie.httpOnly : undefined,
+          sameSite: cookie.sameSite,
+        });
+      });
+      options.cookies = cookies;
+    }
+  }
+
+  if (data.basicAuth !== undefined) {
+    const auth = data.basicAuth;
+    if (!auth || typeof auth.username !== 'string' || typeof auth.password !== 'string') {
+      errors.push('basicAuth must have string username and password');
+    } else {
+      options.basicAuth = { username: auth.username, password: auth.password };
+    }
+  }
+
+  if (data.maxTimeMs !== undefined) {
+    if (typeof data.maxTimeMs !== 'number' || data.maxTimeMs < 5000 || data.maxTimeMs > MAX_TIME_LIMIT_MS) {
+      errors.push(`maxTimeMs must be a number between 5000 and ${MAX_TIME_LIMIT_MS}`);
+    } else {
+      options.maxTimeMs = data.maxTimeMs;
+    }
+  }
+
+  if (data.dismissConsent !== undefined) {
+    if (typeof data.dismissConsent !== 'boolean') {
+      errors.push('dismissConsent must be a boolean');
+    } else {
+      options.dismissConsent = data.dismissConsent;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value: options };
+}
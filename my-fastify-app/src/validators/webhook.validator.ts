@@ -0,0 +1,85 @@
+import { WebhookEventType } from '../models/webhook.model';
+import { isPrivateHost } from '../services/network.service';
+import { ValidationResult } from './cro-result.validator';
+
+export const WEBHOOK_EVENTS: WebhookEventType[] = [
+  'analysis.completed',
+  'analysis.failed',
+  'analysis.score_changed',
+  'analysis.alert',
+];
+
+export interface WebhookInput {
+  url?: string;
+  description?: string;
+  events?: WebhookEventType[];
+  enabled?: boolean;
+}
+
+export interface WebhookValidationOptions {
+  // Updates only validate the fields that are present
+  partial: boolean;
+  allowPrivateUrls: boolean;
+}
+
+export function validateWebhook(input: unknown, options: WebhookValidationOptions): ValidationResult<WebhookInput> {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const data = input as Record<string, any>;
+  const webhook: WebhookInput = {};
+  const present = (field: string) => !options.partial || data[field] !== undefined;
+
+  if (present('url')) {
+    let url: URL | undefined;
+    try {
+      url = typeof data.url === 'string' ? new URL(data.url) : undefined;
+    } catch {
+      url = undefined;
+    }
+
+    if (!url || !['http:', 'https:'].includes(url.protocol)) {
+      errors.push('url must be an http(s) URL');
+    } else if (!options.allowPrivateUrls && isPrivateHost(url.hostname)) {
+      errors.push('url must not point to localhost or a private network');
+    } else {
+      webhook.url = url.toString();
+    }
+  }
+
+  if (present('events')) {
+    const unknownEvents = Array.isArray(data.events)
+      ? data.events.filter((event: string) => !WEBHOOK_EVENTS.includes(event as WebhookEventType))
+      : [];
+    if (!Array.isArray(data.events) || data.events.length === 0 || unknownEvents.length > 0) {
+      errors.push(`events must be a non-empty list of: ${WEBHOOK_EVENTS.join(', ')}`);
+    } else {
+      webhook.events = [...new Set(data.events as WebhookEventType[])];
+    }
+  }
+
+  if (data.description !== undefined) {
+    if (typeof data.description !== 'string' || data.description.length > 200) {
+      errors.push('description must be a string of at most 200 characters');
+    } else {
+      webhook.description = data.description;
+    }
+  }
+
+  if (data.enabled !== undefined) {
+    if (typeof data.enabled !== 'boolean') {
+      errors.push('enabled must be a boolean');
+    } else {
+      webhook.enabled = data.enabled;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, value: webhook };
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ApiKey, ApiKeyScope } from '../src/models/api-key.model';
+import { apiKeyAllows, requiredApiKeyScope } from '../src/services/api-key.service';
+
+describe('requiredApiKeyScope', () => {
+  const cases: Array<[string, string | undefined, ApiKeyScope]> = [
+    ['GET', '/api/cro/analysis/:id', 'read'],
+    ['HEAD', '/api/projects', 'read'],
+    ['GET', undefined, 'read'],
+    ['POST', '/api/cro/analyze', 'analyze'],
+    ['POST', '/api/cro/analysis/:id/rerun', 'analyze'],
+    ['POST', '/api/batches', 'analyze'],
+    ['POST', '/api/batches/', 'analyze'],
+    ['POST', '/api/batches/:id/cancel', 'analyze'],
+    ['POST', '/api/schedules/:id/run', 'analyze'],
+    ['POST', '/api/projects', 'write'],
+    ['PUT', '/api/cro/scrape-defaults', 'write'],
+    ['DELETE', '/api/cro/analysis/:id', 'write'],
+    ['POST', '/api/schedules', 'write'],
+    ['POST', '/api/webhooks/:id/rotate-secret', 'write'],
+    ['GET', '/api/auth/sessions', 'admin'],
+    ['POST', '/api/auth/change-password', 'admin'],
+    ['GET', '/api/api-keys', 'admin'],
+    ['POST', '/api/api-keys', 'admin'],
+    ['GET', '/api/admin/users/:id', 'read'],
+    ['POST', '/api/admin/users/:id/impersonate', 'admin'],
+  ];
+
+  for (const [method, route, scope] of cases) {
+    it(`needs ${scope} for ${method} ${route}`, () => {
+      assert.equal(requiredApiKeyScope(method, route), scope);
+    });
+  }
+});
+
+describe('apiKeyAllows', () => {
+  const keyWith = (scopes: ApiKeyScope[]) => ({ scopes }) as ApiKey;
+
+  it('grants every lower scope', () => {
+    assert.equal(apiKeyAllows(keyWith(['write']), 'read'), true);
+    assert.equal(apiKeyAllows(keyWith(['write']), 'analyze'), true);
+    assert.equal(apiKeyAllows(keyWith(['admin']), 'write'), true);
+  });
+
+  it('does not grant higher scopes', () => {
+    assert.equal(apiKeyAllows(keyWith(['read']), 'analyze'), false);
+    assert.equal(apiKeyAllows(keyWith(['analyze']), 'write'), false);
+    assert.equal(apiKeyAllows(keyWith(['write']), 'admin'), false);
+  });
+
+  it('ignores scopes it does not know', () => {
+    assert.equal(apiKeyAllows(keyWith(['owner' as ApiKeyScope]), 'read'), false);
+  });
+});
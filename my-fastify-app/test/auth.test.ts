@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { getAuthConfig } from '../src/config/auth.config';
+import { AuthServiceImpl } from '../src/services/auth.service';
+import { createTestDatabase, createTestUser, TestDatabase } from './helpers';
+
+describe('AuthService refresh tokens', () => {
+  let test: TestDatabase;
+  let auth: AuthServiceImpl;
+
+  before(async () => {
+    test = await createTestDatabase();
+    auth = new AuthServiceImpl(
+      test.db.getUserRepository(),
+      test.db.getSessionRepository(),
+      test.db.getRefreshTokenRepository(),
+      { ...getAuthConfig(), jwtSecret: 'test-secret' }
+    );
+  });
+
+  after(async () => {
+    await test.close();
+  });
+
+  const register = (email: string) =>
+    auth.register({ email, password: 'password1', firstName: 'Test', lastName: 'User' });
+
+  it('rotates the refresh token on every use', async () => {
+    const { refreshToken } = await register('rotate@example.com');
+
+    const rotated = await auth.refresh(refreshToken);
+
+    assert.notEqual(rotated.refreshToken, refreshToken);
+    assert.ok(await auth.refresh(rotated.refreshToken));
+  });
+
+  it('revokes the session when a used refresh token is presented again', async () => {
+    const { refreshToken, user } = await register('reuse@example.com');
+    const rotated = await auth.refresh(refreshToken);
+
+    await assert.rejects(auth.refresh(refreshToken), /reuse detected/);
+
+    // The legitimate holder of the newer token is signed out as well
+    await assert.rejects(auth.refresh(rotated.refreshToken), /expired or revoked/);
+    assert.deepEqual(await auth.listSessions(user.id), []);
+  });
+
+  it('lets only one of two concurrent exchanges of a token succeed', async () => {
+    const { refreshToken } = await register('race@example.com');
+
+    const results = await Promise.allSettled([auth.refresh(refreshToken), auth.refresh(refreshToken)]);
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1);
+  });
+
+  it('rejects unknown refresh tokens', async () => {
+    await assert.rejects(auth.refresh('not-a-token'), /Invalid refresh token/);
+  });
+});
+
+describe('AuthService login', () => {
+  let test: TestDatabase;
+  let auth: AuthServiceImpl;
+
+  before(async () => {
+    test = await createTestDatabase();
+    auth = new AuthServiceImpl(
+      test.db.getUserRepository(),
+      test.db.getSessionRepository(),
+      test.db.getRefreshTokenRepository(),
+      { ...getAuthConfig(), jwtSecret: 'test-secret' }
+    );
+  });
+
+  after(async () => {
+    await test.close();
+  });
+
+  it('answers unknown emails like wrong passwords', async () => {
+    await assert.rejects(auth.login({ email: 'nobody@example.com', password: 'password1' }), /Invalid email or password/);
+  });
+
+  it('only reports a deactivated account once the password matches', async () => {
+    const user = await createTestUser(test.db, 'inactive@example.com');
+    await test.db.getUserRepository().update(user.id, { isActive: false });
+
+    await assert.rejects(auth.login({ email: user.email, password: 'wrong-password' }), /Invalid email or password/);
+    await assert.rejects(auth.login({ email: user.email, password: 'password1' }), /Account is deactivated/);
+  });
+});
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { mock } from 'node:test';
+import { DatabaseServiceImpl } from '../src/services/database.service';
+
+// Node 20's test runner can misread plain stdout written between its own
+// messages, so the services' progress logging is muted in tests
+mock.method(console, 'log', () => {});
+
+export interface TestDatabase {
+  db: DatabaseServiceImpl;
+  close(): Promise<void>;
+}
+
+// A migrated SQLite database in a temporary directory, removed again on close
+export const createTestDatabase = async (): Promise<TestDatabase> => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cro-test-'));
+  process.env.DB_TYPE = 'sqlite';
+  process.env.DB_PATH = path.join(dir, 'test.db');
+
+  const db = new DatabaseServiceImpl();
+  await db.initialize();
+
+  return {
+    db,
+    close: async () => {
+      await db.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+};
+
+export const createTestUser = (db: DatabaseServiceImpl, email = 'user@example.com') =>
+  db.getUserRepository().create({ email, password: 'password1', firstName: 'Test', lastName: 'User' });
+
+// Resolves once the condition holds, polling every few milliseconds
+export const waitFor = async (condition: () => Promise<boolean>, timeoutMs = 5000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
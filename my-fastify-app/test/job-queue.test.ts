@@ -0,0 +1,183 @@
+import assert from 'node:assert/strict';
+import { after, afterEach, before, describe, it } from 'node:test';
+import { AnalysisEvent } from '../types/cro.types';
+import { getUsageConfig } from '../src/config/usage.config';
+import { AnalysisJob } from '../src/models/job.model';
+import { User } from '../src/models/user.model';
+import { AnalysisEventsServiceImpl } from '../src/services/analysis-events.service';
+import { AnalysisProcessor } from '../src/services/analysis-processor.service';
+import { JobQueueServiceImpl } from '../src/services/job-queue.service';
+import { UsageServiceImpl } from '../src/services/usage.service';
+import { createTestDatabase, createTestUser, TestDatabase, waitFor } from './helpers';
+
+const queueConfig = { concurrency: 1, pollIntervalMs: 10, maxAttempts: 3, retryBaseDelayMs: 0, leaseMs: 60000 };
+
+describe('JobRepository claims', () => {
+  let test: TestDatabase;
+  let user: User;
+
+  before(async () => {
+    test = await createTestDatabase();
+    user = await createTestUser(test.db);
+  });
+
+  after(async () => {
+    await test.close();
+  });
+
+  const createJob = async (runAt?: Date) => {
+    const analysis = await test.db.getAnalysisRepository().create({ url: 'https://example.com/', status: 'pending' }, user.id);
+    return test.db.getJobRepository().create({
+      analysisId: analysis.id,
+      userId: user.id,
+      payload: { url: analysis.url },
+      maxAttempts: 3,
+      runAt,
+    });
+  };
+
+  it('gives each due job to exactly one worker', async () => {
+    const jobs = test.db.getJobRepository();
+    const created = [await createJob(), await createJob()];
+    await createJob(new Date(Date.now() + 60 * 60 * 1000));
+
+    const claimed = await Promise.all([jobs.claimNext('worker-a'), jobs.claimNext('worker-b'), jobs.claimNext('worker-c')]);
+    const ids = claimed.filter((job): job is AnalysisJob => job !== null).map((job) => job.id);
+
+    assert.deepEqual(ids.sort(), created.map((job) => job.id).sort());
+    for (const job of claimed.filter((job): job is AnalysisJob => job !== null)) {
+      assert.equal(job.status, 'processing');
+      assert.equal(job.attempts, 1);
+      assert.ok(job.lockedBy);
+    }
+    assert.equal(await jobs.claimNext('worker-d'), null);
+  });
+
+  it('stops a worker whose expired lease was taken over from recording an outcome', async () => {
+    const jobs = test.db.getJobRepository();
+    const job = await createJob();
+    const claimed = (await jobs.claimNext('worker-a'))!;
+    assert.equal(claimed.id, job.id);
+
+    assert.equal(await jobs.requeueExpired(job.id, new Date(Date.now() + 1000)), true);
+    const reclaimed = (await jobs.claimNext('worker-b'))!;
+
+    assert.equal(reclaimed.id, job.id);
+    assert.equal(reclaimed.attempts, 2);
+    assert.equal(await jobs.renewLease(job.id, 'worker-a'), false);
+    assert.equal(await jobs.markCompleted(job.id, 'worker-a', job.payload), false);
+    assert.equal(await jobs.markCompleted(job.id, 'worker-b', job.payload), true);
+  });
+
+  it('fails a job whose lease expired only while the lease is still expired', async () => {
+    const jobs = test.db.getJobRepository();
+    const job = await createJob();
+    await jobs.claimNext('worker-a');
+
+    assert.equal(await jobs.failExpired(job.id, new Date(Date.now() - 60000), 'Worker stopped', job.payload), false);
+    assert.equal(await jobs.failExpired(job.id, new Date(Date.now() + 1000), 'Worker stopped', job.payload), true);
+
+    const failed = (await jobs.findByAnalysisId(job.analysisId))!;
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.lastError, 'Worker stopped');
+    assert.equal(failed.lockedBy, undefined);
+  });
+});
+
+describe('JobQueueService retries', () => {
+  let test: TestDatabase;
+  let user: User;
+  let queue: JobQueueServiceImpl | undefined;
+  const events = new AnalysisEventsServiceImpl();
+
+  before(async () => {
+    test = await createTestDatabase();
+    user = await createTestUser(test.db);
+  });
+
+  afterEach(async () => {
+    await queue?.stop();
+  });
+
+  after(async () => {
+    await test.close();
+  });
+
+  const startQueue = async (processor: AnalysisProcessor) => {
+    queue = new JobQueueServiceImpl(
+      test.db.getJobRepository(),
+      test.db.getAnalysisRepository(),
+      processor,
+      events,
+      new UsageServiceImpl(test.db.getUsageRepository(), test.db.getUserRepository(), getUsageConfig()),
+      (callback) => test.db.transaction(callback),
+      queueConfig
+    );
+    await queue.start();
+    return queue;
+  };
+
+  const submit = async () => {
+    const { analysis } = await queue!.submit(user.id, { url: 'https://example.com/' }, { url: 'https://example.com/' });
+    return analysis!;
+  };
+
+  const jobOf = async (analysisId: string) => (await test.db.getJobRepository().findByAnalysisId(analysisId))!;
+
+  it('retries a failed run and completes the job once it succeeds', async () => {
+    let runs = 0;
+    await startQueue({
+      process: async () => {
+        runs++;
+        if (runs === 1) throw new Error('Page did not load');
+      },
+    });
+
+    const analysis = await submit();
+    await waitFor(async () => (await jobOf(analysis.id)).status === 'completed');
+
+    const job = await jobOf(analysis.id);
+    assert.equal(runs, 2);
+    assert.equal(job.attempts, 2);
+    assert.equal(job.lastError, undefined);
+  });
+
+  it('fails the job and its analysis after the last attempt', async () => {
+    const failures: AnalysisEvent[] = [];
+    const unsubscribe = events.subscribeAll((event) => {
+      if (event.type === 'failed') failures.push(event);
+    });
+    await startQueue({
+      process: async () => {
+        throw new Error('Page did not load');
+      },
+    });
+
+    const analysis = await submit();
+    // The failure is published after the job and the analysis are marked failed
+    await waitFor(async () => failures.length > 0);
+    unsubscribe();
+
+    const job = await jobOf(analysis.id);
+    assert.equal(job.attempts, queueConfig.maxAttempts);
+    assert.equal(job.lastError, 'Page did not load');
+    assert.equal((await test.db.getAnalysisRepository().findById(analysis.id))!.status, 'failed');
+    assert.deepEqual(failures.map((event) => event.analysisId), [analysis.id]);
+  });
+
+  it('does not run a job again once its analysis has completed', async () => {
+    let runs = 0;
+    await startQueue({
+      process: async () => {
+        runs++;
+      },
+    });
+
+    const analysis = await test.db.getAnalysisRepository().create({ url: 'https://example.com/', status: 'pending' }, user.id);
+    await test.db.getAnalysisRepository().update(analysis.id, { status: 'completed' });
+    await test.db.getJobRepository().create({ analysisId: analysis.id, userId: user.id, payload: { url: analysis.url }, maxAttempts: 3 });
+    await waitFor(async () => (await jobOf(analysis.id)).status === 'completed');
+
+    assert.equal(runs, 0);
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { RateLimitBucket } from '../src/models/rate-limit.model';
+import { DatabaseRateLimitStore } from '../src/providers/rate-limit/database-rate-limit.store';
+import { takeToken } from '../src/providers/rate-limit/rate-limit-store';
+import { RateLimitRepository } from '../src/repositories/rate-limit.repository';
+
+const rule = { capacity: 3, refillPerMinute: 60 };
+
+describe('takeToken', () => {
+  it('starts with a full bucket', () => {
+    const { bucket, result } = takeToken(null, rule, 1000);
+
+    assert.equal(result.allowed, true);
+    assert.equal(result.remaining, 2);
+    assert.deepEqual(bucket, { tokens: 2, updatedAt: 1000 });
+  });
+
+  it('denies once the bucket is empty and says when a token is back', () => {
+    const { bucket, result } = takeToken({ tokens: 0.5, updatedAt: 1000 }, rule, 1000);
+
+    assert.equal(result.allowed, false);
+    assert.equal(result.remaining, 0);
+    assert.equal(result.retryAfterMs, 500);
+    assert.equal(bucket.tokens, 0.5);
+  });
+
+  it('refills for the time since the last update', () => {
+    const { result } = takeToken({ tokens: 0, updatedAt: 1000 }, rule, 3000);
+
+    assert.equal(result.allowed, true);
+    assert.equal(result.remaining, 1);
+  });
+
+  it('never refills past the capacity', () => {
+    const { bucket } = takeToken({ tokens: 1, updatedAt: 0 }, rule, 60 * 60 * 1000);
+
+    assert.equal(bucket.tokens, rule.capacity - 1);
+  });
+
+  it('never refills a bucket without a refill rate', () => {
+    const { result } = takeToken({ tokens: 0, updatedAt: 0 }, { capacity: 1, refillPerMinute: 0 }, 60 * 60 * 1000);
+
+    assert.equal(result.allowed, false);
+    assert.equal(result.retryAfterMs, Infinity);
+  });
+});
+
+describe('DatabaseRateLimitStore', () => {
+  // A repository whose bucket is always changed by someone else before the write
+  const contended = {
+    find: async (): Promise<RateLimitBucket> => ({ tokens: rule.capacity, updatedAt: Date.now() }),
+    replace: async () => false,
+    insert: async () => false,
+    deleteIdle: async () => {},
+  } as unknown as RateLimitRepository;
+
+  it('denies the request when the bucket stays contended', async () => {
+    const result = await new DatabaseRateLimitStore(contended).take('key', rule);
+
+    assert.equal(result.allowed, false);
+    assert.ok(result.retryAfterMs > 0);
+  });
+});
@@ -0,0 +1,78 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { getUsageConfig } from '../src/config/usage.config';
+import { UsageServiceImpl } from '../src/services/usage.service';
+import { createTestDatabase, createTestUser, TestDatabase } from './helpers';
+
+describe('UsageService quota', () => {
+  let test: TestDatabase;
+  let usage: UsageServiceImpl;
+
+  before(async () => {
+    test = await createTestDatabase();
+    usage = new UsageServiceImpl(test.db.getUsageRepository(), test.db.getUserRepository(), {
+      ...getUsageConfig(),
+      quota: { monthlyAnalyses: 2, monthlyTokens: 1000, monthlyCostUsd: 0 },
+    });
+  });
+
+  after(async () => {
+    await test.close();
+  });
+
+  it('starts analyses until the monthly count is used up', async () => {
+    const user = await createTestUser(test.db);
+    const analyses = test.db.getAnalysisRepository();
+    let started = 0;
+    const start = () => {
+      started++;
+      return analyses.create({ url: 'https://example.com/', status: 'pending' }, user.id);
+    };
+
+    const first = await test.db.transaction(() => usage.reserveAnalysis(user.id, start));
+    const second = await test.db.transaction(() => usage.reserveAnalysis(user.id, start));
+    const third = await test.db.transaction(() => usage.reserveAnalysis(user.id, start));
+
+    assert.ok(first.analysis);
+    assert.ok(second.analysis);
+    assert.equal(third.analysis, undefined);
+    assert.equal(third.quota.statusCode, 429);
+    assert.equal(started, 2);
+  });
+
+  it('keeps counting analyses after they are deleted', async () => {
+    const user = await createTestUser(test.db, 'deleter@example.com');
+    const analyses = test.db.getAnalysisRepository();
+    const start = () => analyses.create({ url: 'https://example.com/', status: 'pending' }, user.id);
+
+    const { analysis } = await test.db.transaction(() => usage.reserveAnalysis(user.id, start));
+    await analyses.delete(analysis!.id);
+    await test.db.transaction(() => usage.reserveAnalysis(user.id, start));
+
+    const summary = await usage.getUsageSummary(user.id);
+    assert.equal(summary.remaining.analyses, 0);
+  });
+
+  it('gives concurrent requests no more than the remaining quota', async () => {
+    const user = await createTestUser(test.db, 'racer@example.com');
+    const analyses = test.db.getAnalysisRepository();
+    const start = () => analyses.create({ url: 'https://example.com/', status: 'pending' }, user.id);
+
+    const reservations = await Promise.all(
+      Array.from({ length: 5 }, () => test.db.transaction(() => usage.reserveAnalysis(user.id, start)))
+    );
+
+    assert.equal(reservations.filter((reservation) => reservation.analysis).length, 2);
+  });
+
+  it('blocks analyses once the token budget is used up', async () => {
+    const user = await createTestUser(test.db, 'tokens@example.com');
+    await usage.recordCalls(user.id, undefined, [
+      { provider: 'mock', model: 'mock-cro-analyst', purpose: 'analysis', attempt: 1, promptTokens: 600, completionTokens: 400, totalTokens: 1000 },
+    ]);
+
+    const quota = await usage.checkQuota(user.id);
+    assert.equal(quota.allowed, false);
+    assert.equal(quota.statusCode, 402);
+  });
+});
@@ -1,36 +1,315 @@
-export interface ScrapePageParams {
+    export type AnalysisProgressStage =
+    | 'queued'
+    | 'navigation'
+    | 'screenshot'
+    | 'text_extraction'
+    | 'prompt_building'
+    | 'llm_call'
+    | 'report_generation';
+
+  export type ProgressReporter = (stage: AnalysisProgressStage, message?: string) => void;
+
+  export interface AnalysisProgressEvent {
+    type: 'progress';
+    analysisId: string;
+    stage: AnalysisProgressStage;
+    message?: string;
+    timestamp: string;
+  }
+
+  export interface AnalysisCompletedEvent {
+    type: 'completed';
+    analysisId: string;
+    timestamp: string;
+  }
+
+  export interface AnalysisFailedEvent {
+    type: 'failed';
+    analysisId: string;
+    error: string;
+    timestamp: string;
+  }
+
+  export type AnalysisEvent =
+    | AnalysisProgressEvent
+    | AnalysisCompletedEvent
+    | AnalysisFailedEvent;
+
+  export type CROCategory =
+    | 'headline'
+    | 'cta'
+    | 'trust_signals'
+    | 'forms'
+    | 'copy'
+    | 'visual_hierarchy'
+    | 'mobile';
+
+  export type CROFindingSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+  export interface CROFinding {
+    category: CROCategory;
+    severity: CROFindingSeverity;
+    title: string;
+    evidence: string;
+    recommendation: string;
+    expectedImpact: string;
+  }
+
+  export interface CROAnalysisResult {
+    overallScore: number;
+    categoryScores: Record<CROCategory, number>;
+    summary: string;
+    findings: CROFinding[];
+  }
+
+  export type DeviceKind = 'desktop' | 'tablet' | 'mobile';
+
+  export interface TapTarget {
+    text: string;
+    width: number;
+    height: number;
+  }
+
+  export interface DeviceLayoutMetrics {
+    viewportWidth: number;
+    viewportHeight: number;
+    pageHeight: number;
+    ctaCount: number;
+    ctasAboveFold: number;
+    firstCtaTop?: number;
+    smallTapTargets: TapTarget[];
+    horizontalOverflow: boolean;
+  }
+
+  export interface BoundingBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }
+
+  // Every page model element lists the devices on which it is visible without scrolling
+  export interface PageHeading {
+    level: number;
+    text: string;
+    aboveFold: string[];
+  }
+
+  export interface PageCTA {
+    text: string;
+    element: 'button' | 'link' | 'input';
+    href?: string;
+    box: BoundingBox;
+    aboveFold: string[];
+  }
+
+  export interface PageForm {
+    name?: string;
+    action?: string;
+    method: string;
+    fieldCount: number;
+    requiredFieldCount: number;
+    fieldTypes: string[];
+    submitText?: string;
+    box: BoundingBox;
+    aboveFold: string[];
+  }
+
+  export interface PageImage {
+    src: string;
+    alt?: string;
+    box: BoundingBox;
+    aboveFold: string[];
+  }
+
+  export type TrustElementType =
+    | 'reviews'
+    | 'rating'
+    | 'testimonial'
+    | 'badge'
+    | 'guarantee'
+    | 'security'
+    | 'client_logos';
+
+  export interface PageTrustElement {
+    type: TrustElementType;
+    text: string;
+    aboveFold: string[];
+  }
+
+  export interface PageViewport {
+    device: string;
+    width: number;
+    height: number;
+    pageHeight: number;
+  }
+
+  export interface PageModel {
+    title: string;
+    metaDescription?: string;
+    language?: string;
+    headings: PageHeading[];
+    ctas: PageCTA[];
+    forms: PageForm[];
+    images: PageImage[];
+    trustElements: PageTrustElement[];
+    viewports: PageViewport[];
+  }
+
+  export interface PromptSectionStats {
+    name: string;
+    originalTokens: number;
+    budgetTokens: number;
+    tokens: number;
+    truncated: boolean;
+  }
+
+  export interface PromptChunkStats {
+    index: number;
+    textTokens: number;
+    promptTokens: number;
+  }
+
+  export interface PromptStats {
+    budgetTokens: number;
+    strategy: 'single' | 'map_reduce';
+    sections: PromptSectionStats[];
+    chunks: PromptChunkStats[];
+    mergeStrategy?: 'llm' | 'deterministic';
+    mergePromptTokens?: number;
+    totalPromptTokens: number;
+    truncations: string[];
+  }
+
+  export interface DeviceCapture {
+    device: string;
+    kind: DeviceKind;
+    html: string;
+    text: string;
+    screenshot?: Buffer;
+    layout: DeviceLayoutMetrics;
+    pageModel: PageModel;
+  }
+
+  export interface DeviceSummary {
+    device: string;
+    kind: DeviceKind;
+    layout: DeviceLayoutMetrics;
+  }
+
+  export interface DeviceIssue {
+    device: string;
+    type: 'cta_below_fold' | 'small_tap_targets' | 'horizontal_overflow';
+    severity: CROFindingSeverity;
+    message: string;
+  }
+
+  export type WaitStrategy =
+    | { type: 'networkidle'; timeoutMs?: number }
+    | { type: 'selector'; selector: string; timeoutMs?: number }
+    | { type: 'delay'; delayMs: number };
+
+  export interface ScrapeCookie {
+    name: string;
+    value: string;
+    domain?: string;
+    path?: string;
+    secure?: boolean;
+    httpOnly?: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+  }
+
+  export interface ScrapeOptions {
+    locale?: string;
+    timezoneId?: string;
+    waitStrategy?: WaitStrategy;
+    extraHeaders?: Record<string, string>;
+    cookies?: ScrapeCookie[];
+    basicAuth?: { username: string; password: string };
+    maxTimeMs?: number;
+    dismissConsent?: boolean;
+  }
+
+  export interface ScrapePageParams {
     url: string;
+    devices?: string[];
+    options?: ScrapeOptions;
+    blockPrivateUrls?: boolean;
+    onProgress?: ProgressReporter;
   }
   
   export interface ScrapePageResult {
     html: string;
     text: string;
+    screenshot?: Buffer;
+    captures: DeviceCapture[];
+    pageModel?: PageModel;
   }
   
+  export interface PromptTemplateRef {
+    id?: string;
+    playbook: string;
+    version?: number;
+    body: string;
+  }
+
+  export type LLMCallPurpose = 'analysis' | 'chunk' | 'merge';
+
+  export interface LLMCallUsage {
+    provider: string;
+    model: string;
+    purpose: LLMCallPurpose;
+    attempt: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  }
+
   export interface AnalyzeWithGPTParams {
     text: string;
     html: string;
     url: string;
+    pageModel?: PageModel;
+    promptTemplate?: PromptTemplateRef;
+    devices?: DeviceSummary[];
+    deviceIssues?: DeviceIssue[];
+    onProgress?: ProgressReporter;
+    // Called after every completion, including repairs and failed attempts
+    onUsage?: (usage: LLMCallUsage) => void;
   }
   
+  export interface AnalyzeWithGPTResult {
+    result: CROAnalysisResult;
+    promptStats: PromptStats;
+  }
+
   export interface GeneratePDFParams {
-    htmlString: string;
-    outputPath: string;
+    analysisId: string;
+    url: string;
+    result: CROAnalysisResult;
+    screenshot?: Buffer;
+    onProgress?: ProgressReporter;
   }
   
   export interface AnalyzeRequestBody {
     url: string;
+    devices?: string[];
+    scrapeOptions?: ScrapeOptions;
+    playbook?: string;
+    // Defaults to the user's project whose domains cover the URL
+    projectId?: string;
+    // Creates the analysis in an organization the user is an editor of
+    organizationId?: string;
   }
   
   export interface AnalyzeResponse {
-    analysis: string;
-    pdfGenerated: boolean;
-    analysisId?: string;
+    analysisId: string;
+    status: 'pending' | 'processing' | 'completed' | 'failed';
   }
   
   export interface CROService {
     scrapePage(params: ScrapePageParams): Promise<ScrapePageResult>;
-    analyzeWithGPT(params: AnalyzeWithGPTParams): Promise<string>;
-    generateCROReportPDF(params: GeneratePDFParams): Promise<void>;
+    analyzeWithGPT(params: AnalyzeWithGPTParams): Promise<AnalyzeWithGPTResult>;
+    generateCROReportPDF(params: GeneratePDFParams): Promise<Buffer | null>;
   }
-  
\ No newline at end of file
+  